@@ -1,9 +1,10 @@
 import { generateOpenApiSpec } from '../../lib/generator/openapi-generator';
-import { getUserHandler } from './handlers/getUserHandler';
-import * as fs from 'fs';
+import { writeOpenApiSpec } from '../../lib/generator/serializer';
+import * as path from 'path';
 
 const config = {
-  inputPaths: ['./handlers'],
+  inputPaths: [path.join(__dirname, 'handlers')],
+  outputPath: './openapi.json',
   info: {
     title: 'User API',
     version: '1.0.0',
@@ -17,13 +18,13 @@ const config = {
   ],
 };
 
-// Generate OpenAPI specification
-const spec = generateOpenApiSpec(config, [getUserHandler]);
+// Generate OpenAPI specification from the handlers found in inputPaths
+const spec = generateOpenApiSpec(config);
 
 // Save to file
-fs.writeFileSync('./openapi.json', JSON.stringify(spec, null, 2));
+const document = writeOpenApiSpec(spec, config);
 
 console.log('✅ OpenAPI specification generated successfully!');
 console.log('📄 Saved to: ./openapi.json');
 console.log('\n📋 Generated specification:');
-console.log(JSON.stringify(spec, null, 2));
+console.log(document);
@@ -1,5 +1,5 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { ApiOperation, ApiResponse, ApiParam } from 'lambda-openapi';
+import { withOpenApi } from 'lambda-openapi';
 
 interface User {
   id: string;
@@ -7,47 +7,46 @@ interface User {
   email: string;
 }
 
-export const getUserHandler = (() => {
-  const handler = async (
-    event: APIGatewayProxyEvent
-  ): Promise<APIGatewayProxyResult> => {
+export const getUserHandler = withOpenApi(
+  async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
     const userId = event.pathParameters?.userId;
 
     // Your implementation here
+    const user: User = {
+      id: userId || '',
+      name: 'John Doe',
+      email: 'john@example.com',
+    };
     return {
       statusCode: 200,
-      body: JSON.stringify({
-        id: userId,
-        name: 'John Doe',
-        email: 'john@example.com',
-      }),
+      body: JSON.stringify(user),
     };
-  };
-
-  // Apply decorators
-  ApiOperation({
-    summary: 'Get user by ID',
-    description: 'Retrieve a user by their unique identifier',
-    tags: ['users'],
-  })(handler);
-
-  ApiParam({
-    name: 'userId',
-    description: 'User ID',
-    required: true,
-    type: 'string',
-  })(handler);
-
-  ApiResponse({
-    status: 200,
-    description: 'User found',
-    type: 'object', // In a real scenario, you'd use User interface
-  })(handler);
-
-  ApiResponse({
-    status: 404,
-    description: 'User not found',
-  })(handler);
-
-  return handler;
-})();
+  },
+  {
+    operation: {
+      summary: 'Get user by ID',
+      description: 'Retrieve a user by their unique identifier',
+      tags: ['users'],
+    },
+    route: { method: 'get', path: '/users/{userId}' },
+    params: [
+      {
+        name: 'userId',
+        description: 'User ID',
+        required: true,
+        type: 'string',
+      },
+    ],
+    responses: [
+      {
+        status: 200,
+        description: 'User found',
+        type: 'User',
+      },
+      {
+        status: 404,
+        description: 'User not found',
+      },
+    ],
+  }
+);
@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { GeneratorConfig } from '../types/config';
+import { MetadataManager } from '../utils/metadata';
+import { findFiles } from '../utils/files';
+
+/**
+ * Handler files loaded when `GeneratorConfig.include` is not set
+ */
+export const DEFAULT_HANDLER_INCLUDE = ['**/*.{ts,js}'];
+
+/**
+ * Files never loaded as handler modules
+ */
+export const DEFAULT_HANDLER_EXCLUDE = [
+  '**/*.d.ts',
+  '**/*.{test,spec}.{ts,js}',
+];
+
+/**
+ * Find the handler module files of the input paths
+ *
+ * Files are sorted by path with `index` modules last, so that handlers
+ * re-exported by barrel files are attributed to the module defining them.
+ *
+ * @param config - Generator configuration
+ * @returns Absolute paths of the handler modules
+ */
+export function findHandlerFiles(config: GeneratorConfig): string[] {
+  const files = findFiles(config.inputPaths, {
+    include: config.include || DEFAULT_HANDLER_INCLUDE,
+    exclude: [...DEFAULT_HANDLER_EXCLUDE, ...(config.exclude || [])],
+  });
+
+  return files.sort(
+    (a, b) => Number(isIndexModule(a)) - Number(isIndexModule(b))
+  );
+}
+
+/**
+ * Discover decorated handlers in the input paths
+ *
+ * Each handler module is loaded and its exported functions with API
+ * metadata are collected, including decorated methods of exported classes
+ * and, under standard decorators, the methods recorded in their class
+ * metadata. With `options.exportedOnly: false`, handlers decorated while
+ * the module loaded but not exported are collected too; modules loaded
+ * before discovery only contribute their exports. The module of each
+ * handler is recorded as `filePath` of its operation metadata, and handlers
+ * without a function name, such as arrow functions passed to `withOpenApi`,
+ * are named after their export.
+ *
+ * @param config - Generator configuration
+ * @returns Handlers in discovery order
+ */
+export function discoverHandlers(config: GeneratorConfig): any[] {
+  const exportedOnly = config.options?.exportedOnly !== false;
+  const handlers = new Set<any>();
+
+  findHandlerFiles(config).forEach(filePath => {
+    const decoratedBefore = new Set(MetadataManager.getDecoratedHandlers());
+    const moduleExports = loadHandlerModule(filePath);
+
+    const found = collectExportedHandlers(moduleExports);
+    if (!exportedOnly) {
+      MetadataManager.getDecoratedHandlers()
+        .filter(handler => !decoratedBefore.has(handler))
+        .forEach(handler => found.push(handler));
+    }
+
+    found.forEach(handler => {
+      if (!handlers.has(handler)) {
+        handlers.add(handler);
+        recordSource(handler, filePath, moduleExports);
+      }
+    });
+  });
+
+  return Array.from(handlers);
+}
+
+/**
+ * Load a handler module
+ */
+function loadHandlerModule(filePath: string): Record<string, unknown> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(filePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to load handler module ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Collect exported functions and class methods that carry API metadata
+ */
+function collectExportedHandlers(
+  moduleExports: Record<string, unknown>
+): any[] {
+  const handlers: any[] = [];
+
+  Object.keys(moduleExports || {}).forEach(exportName => {
+    const value = moduleExports[exportName];
+    if (typeof value !== 'function') {
+      return;
+    }
+
+    if (MetadataManager.hasMetadata(value)) {
+      handlers.push(value);
+      return;
+    }
+
+    // Methods decorated on an exported class
+    [value.prototype, value].filter(Boolean).forEach(owner =>
+      Object.getOwnPropertyNames(owner).forEach(key => {
+        const member = Object.getOwnPropertyDescriptor(owner, key)?.value;
+        if (
+          key !== 'constructor' &&
+          typeof member === 'function' &&
+          MetadataManager.hasMetadata(member)
+        ) {
+          handlers.push(member);
+        }
+      })
+    );
+
+    // Methods recorded in the class metadata by standard decorators,
+    // including private and inherited ones
+    MetadataManager.getMethods(value)
+      .filter(
+        method =>
+          !handlers.includes(method) && MetadataManager.hasMetadata(method)
+      )
+      .forEach(method => handlers.push(method));
+  });
+
+  return handlers;
+}
+
+/**
+ * Record the module of a handler on its operation metadata, naming
+ * anonymous handlers after their export
+ */
+function recordSource(
+  handler: any,
+  filePath: string,
+  moduleExports: Record<string, unknown>
+): void {
+  const operation = MetadataManager.getOperation(handler);
+  if (!operation) {
+    return;
+  }
+
+  const exportName =
+    operation.functionName === 'anonymous'
+      ? Object.keys(moduleExports || {}).find(
+          key => key !== 'default' && moduleExports[key] === handler
+        )
+      : undefined;
+  if (!operation.filePath || exportName) {
+    MetadataManager.setOperation(handler, {
+      ...operation,
+      functionName: exportName || operation.functionName,
+      filePath: operation.filePath || filePath,
+    });
+  }
+}
+
+function isIndexModule(filePath: string): boolean {
+  return path.basename(filePath).replace(/\.[^.]+$/, '') === 'index';
+}
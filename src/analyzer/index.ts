@@ -0,0 +1,20 @@
+// TypeScript Compiler API based code analysis
+export {
+  TypeAnalyzer,
+  TypeAnalyzerOptions,
+  collectSourceFiles,
+} from './type-analyzer';
+
+// Handler discovery from input paths
+export {
+  discoverHandlers,
+  findHandlerFiles,
+  DEFAULT_HANDLER_INCLUDE,
+  DEFAULT_HANDLER_EXCLUDE,
+} from './handler-discovery';
+
+// Handler metadata read from source without loading modules
+export {
+  extractHandlerMetadata,
+  extractHandlerMetadataFromFiles,
+} from './static-extractor';
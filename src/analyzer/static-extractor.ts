@@ -0,0 +1,926 @@
+import 'reflect-metadata';
+import * as ts from 'typescript';
+import { GeneratorConfig } from '../types/config';
+import { HandlerMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { MetadataRegistry } from '../utils/metadata-registry';
+import {
+  ApiBody,
+  ApiController,
+  ApiCookie,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiPublic,
+  ApiQuery,
+  ApiResponse,
+  ApiRoute,
+  ApiSchema,
+  ApiSecurity,
+  ApiSkipControllerDefaults,
+  ApiTag,
+  withOpenApi,
+} from '../decorators';
+import {
+  ApiControllerOptions,
+  ApiSchemaOptions,
+  TypeConstructor,
+  WithOpenApiOptions,
+} from '../types/decorator-options';
+import { findHandlerFiles } from './handler-discovery';
+
+/**
+ * Handler decorators recognized in source code, by name
+ */
+const HANDLER_DECORATORS: Record<string, (options: any) => any> = {
+  ApiOperation,
+  ApiRoute,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiHeader,
+  ApiCookie,
+  ApiBody,
+  ApiSecurity,
+  ApiPublic,
+  ApiTag,
+  ApiSkipControllerDefaults,
+};
+
+/**
+ * Property decorators of schema classes recognized in source code, by name
+ */
+const PROPERTY_DECORATORS: Record<string, (options: any) => any> = {
+  ApiProperty,
+  ApiPropertyOptional,
+};
+
+/**
+ * Decorators applied by the steps of an `openApi(handler)` chain
+ */
+const BUILDER_METHODS: Record<string, string> = {
+  operation: 'ApiOperation',
+  route: 'ApiRoute',
+  param: 'ApiParam',
+  query: 'ApiQuery',
+  header: 'ApiHeader',
+  cookie: 'ApiCookie',
+  body: 'ApiBody',
+  response: 'ApiResponse',
+  security: 'ApiSecurity',
+  public: 'ApiPublic',
+  tag: 'ApiTag',
+};
+
+/**
+ * Global constructors accepted as `type` and `items` references
+ */
+const GLOBAL_TYPES: Record<string, unknown> = {
+  String,
+  Number,
+  Boolean,
+  Date,
+  Array,
+  Object,
+};
+
+/**
+ * Stand-ins of the schema classes read from the source, by declaration
+ */
+type SchemaClasses = Map<ts.ClassDeclaration, TypeConstructor>;
+
+/**
+ * Options that take a type reference, where other identifiers name a type
+ */
+const TYPE_KEYS = ['type', 'items'];
+
+/**
+ * Decorator applied to a handler in the source
+ */
+interface DecoratorApplication {
+  /** Decorator name */
+  name: string;
+  /** Evaluated decorator argument */
+  options: unknown;
+}
+
+/**
+ * Handler found in the source with the decorators applied to it
+ */
+interface StaticHandler {
+  functionName: string;
+  exported: boolean;
+  applications: DecoratorApplication[];
+}
+
+/**
+ * Extract handler metadata from the handler modules of the input paths
+ * without loading them
+ *
+ * Handler sources are parsed with the TypeScript compiler and the literal
+ * arguments of handler decorators are read: decorator syntax on class
+ * methods and their `@ApiController`, the `ApiOperation({...})(handler)`
+ * call form, `withOpenApi` calls and `openApi(handler)` chains. Each
+ * handler gets the same metadata the decorators would store at runtime. As
+ * with runtime discovery, only exported handlers are collected unless
+ * `options.exportedOnly` is false; a handler counts as exported when it is
+ * declared within an exported declaration.
+ *
+ * Decorator arguments must be literals, or `const` variables initialized
+ * with literals. `type` and `items` may also name a class, interface or
+ * type alias. Classes, also when imported, are replaced by stand-ins
+ * carrying the metadata of their `@ApiProperty`, `@ApiPropertyOptional` and
+ * `@ApiSchema` decorators, stored in the active metadata registry; other
+ * names are passed on as strings.
+ *
+ * @param config - Generator configuration
+ * @returns Metadata of the handlers in source order
+ */
+export function extractHandlerMetadata(
+  config: GeneratorConfig
+): HandlerMetadata[] {
+  return extractHandlerMetadataFromFiles(findHandlerFiles(config), {
+    exportedOnly: config.options?.exportedOnly !== false,
+  });
+}
+
+/**
+ * Extract handler metadata from source files without loading them
+ *
+ * @param files - Handler source files
+ * @param options - `exportedOnly: false` also collects handlers that are
+ *   not exported
+ * @returns Metadata of the handlers in source order
+ */
+export function extractHandlerMetadataFromFiles(
+  files: string[],
+  options: { exportedOnly?: boolean } = {}
+): HandlerMetadata[] {
+  // Imports are resolved to read the schema classes of other modules
+  const program = ts.createProgram(files, {
+    allowJs: true,
+    noLib: true,
+    types: [],
+    noEmit: true,
+    experimentalDecorators: true,
+  });
+  const checker = program.getTypeChecker();
+  const exportedOnly = options.exportedOnly !== false;
+  const schemaClasses: SchemaClasses = new Map();
+
+  const metadata: HandlerMetadata[] = [];
+  files.forEach(file => {
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) {
+      throw new Error(`Cannot read handler module ${file}`);
+    }
+
+    new SourceExtractor(sourceFile, checker, schemaClasses)
+      .extract()
+      .filter(handler => handler.exported || !exportedOnly)
+      .forEach(handler => metadata.push(toHandlerMetadata(handler, file)));
+  });
+
+  return metadata;
+}
+
+/**
+ * Build handler metadata by applying the decorators to a stand-in function,
+ * in a registry of its own so that the stand-in leaves nothing behind
+ */
+function toHandlerMetadata(
+  handler: StaticHandler,
+  filePath: string
+): HandlerMetadata {
+  // The stand-in is never called; a fresh one per handler carries its name
+  // and metadata
+  const target = function (): void {
+    return undefined;
+  };
+  Object.defineProperty(target, 'name', { value: handler.functionName });
+
+  return new MetadataRegistry().run(() => {
+    handler.applications.forEach(application =>
+      applyDecorator(target, application)
+    );
+    const metadata = MetadataManager.getHandlerMetadata(target);
+    if (metadata.operation) {
+      metadata.operation = { ...metadata.operation, filePath };
+    }
+    return metadata;
+  });
+}
+
+/**
+ * Apply a decorator read from the source to the stand-in of its handler
+ */
+function applyDecorator(
+  target: (...args: any[]) => any,
+  application: DecoratorApplication
+): void {
+  if (application.name === 'withOpenApi') {
+    withOpenApi(target, application.options as WithOpenApiOptions);
+  } else if (application.name === 'ApiController') {
+    // The controller applies to the methods of its class, so the stand-in
+    // becomes one
+    const controller = class {};
+    Object.defineProperty(controller, target.name, { value: target });
+    ApiController(application.options as ApiControllerOptions)(controller);
+  } else {
+    HANDLER_DECORATORS[application.name](application.options)(target);
+  }
+}
+
+/**
+ * Collect the decorated handlers of one source file
+ */
+class SourceExtractor {
+  private handlers = new Map<ts.Node, StaticHandler>();
+  private exportedNames = new Set<string>();
+
+  constructor(
+    private sourceFile: ts.SourceFile,
+    private checker: ts.TypeChecker,
+    private schemaClasses: SchemaClasses
+  ) {}
+
+  extract(): StaticHandler[] {
+    this.collectExportedNames();
+    this.visit(this.sourceFile);
+    return Array.from(this.handlers.values()).filter(
+      handler => handler.applications.length > 0
+    );
+  }
+
+  /**
+   * Collect names exported by `export { a, b }` and `export default a`
+   */
+  private collectExportedNames(): void {
+    this.sourceFile.statements.forEach(statement => {
+      if (
+        ts.isExportDeclaration(statement) &&
+        !statement.moduleSpecifier &&
+        statement.exportClause &&
+        ts.isNamedExports(statement.exportClause)
+      ) {
+        statement.exportClause.elements.forEach(element =>
+          this.exportedNames.add((element.propertyName || element.name).text)
+        );
+      }
+      if (
+        ts.isExportAssignment(statement) &&
+        ts.isIdentifier(statement.expression)
+      ) {
+        this.exportedNames.add(statement.expression.text);
+      }
+    });
+  }
+
+  /**
+   * Visit nodes children first, so that nested decorator calls are applied
+   * before the calls wrapping them, as they are at runtime
+   */
+  private visit(node: ts.Node): void {
+    ts.forEachChild(node, child => this.visit(child));
+
+    if (ts.isMethodDeclaration(node)) {
+      this.visitMethod(node);
+    } else if (ts.isCallExpression(node)) {
+      this.visitCall(node);
+    }
+  }
+
+  /**
+   * Record decorators of a class method, applied bottom-up like TypeScript,
+   * followed by the `@ApiController` of its class
+   */
+  private visitMethod(method: ts.MethodDeclaration): void {
+    const applications = (ts.getDecorators(method) || [])
+      .map(decorator => this.toApplication(decorator.expression))
+      .filter((application): application is DecoratorApplication =>
+        Boolean(application)
+      )
+      .reverse();
+    if (applications.length === 0) {
+      return;
+    }
+
+    const controller = this.controllerOf(method);
+    this.handlerFor(
+      method,
+      method.name.getText(this.sourceFile)
+    ).applications.push(...applications, ...(controller ? [controller] : []));
+  }
+
+  /**
+   * Read the `@ApiController` decorator of the class declaring a method
+   */
+  private controllerOf(
+    method: ts.MethodDeclaration
+  ): DecoratorApplication | undefined {
+    const decorator = ts.isClassLike(method.parent)
+      ? (ts.getDecorators(method.parent) || []).find(
+          candidate =>
+            ts.isCallExpression(candidate.expression) &&
+            nameOf(candidate.expression.expression) === 'ApiController'
+        )
+      : undefined;
+    if (!decorator) {
+      return undefined;
+    }
+
+    const argument = (decorator.expression as ts.CallExpression).arguments[0];
+    return {
+      name: 'ApiController',
+      options: argument ? this.evaluate(argument, '@ApiController') : undefined,
+    };
+  }
+
+  /**
+   * Record a decorator applied as a function, e.g. `ApiRoute({...})(handler)`,
+   * a `withOpenApi(handler, {...})` call or a step of an `openApi(handler)`
+   * chain
+   */
+  private visitCall(call: ts.CallExpression): void {
+    const calleeName = nameOf(call.expression);
+
+    if (calleeName === 'withOpenApi' || calleeName === 'openApi') {
+      const handler = this.requireHandler(call.arguments[0], calleeName, call);
+      const options = call.arguments[1]
+        ? this.evaluate(call.arguments[1], calleeName)
+        : undefined;
+      if (calleeName === 'withOpenApi') {
+        handler.applications.push({ name: calleeName, options });
+      } else if (typeof options === 'string') {
+        handler.functionName = options;
+      }
+      return;
+    }
+
+    if (
+      calleeName &&
+      hasOwn(BUILDER_METHODS, calleeName) &&
+      ts.isPropertyAccessExpression(call.expression)
+    ) {
+      const root = builderRoot(call.expression.expression);
+      if (root) {
+        const name = BUILDER_METHODS[calleeName];
+        const argument = call.arguments[0];
+        this.requireHandler(root.arguments[0], name, root).applications.push({
+          name,
+          options: argument ? this.evaluate(argument, `@${name}`) : undefined,
+        });
+      }
+      return;
+    }
+
+    if (!ts.isCallExpression(call.expression) || call.arguments.length !== 1) {
+      return;
+    }
+    const application = this.toApplication(call.expression);
+    if (application) {
+      this.requireHandler(
+        call.arguments[0],
+        application.name,
+        call
+      ).applications.push(application);
+    }
+  }
+
+  /**
+   * Read a handler decorator call, or undefined for other calls
+   */
+  private toApplication(
+    expression: ts.Expression,
+    decorators: Record<string, unknown> = HANDLER_DECORATORS
+  ): DecoratorApplication | undefined {
+    if (!ts.isCallExpression(expression)) {
+      return undefined;
+    }
+
+    const name = nameOf(expression.expression);
+    if (!name || !hasOwn(decorators, name)) {
+      return undefined;
+    }
+
+    const argument = expression.arguments[0];
+    return {
+      name,
+      options: argument ? this.evaluate(argument, `@${name}`) : undefined,
+    };
+  }
+
+  /**
+   * Find the handler something is applied to, or fail with its location
+   */
+  private requireHandler(
+    expression: ts.Expression | undefined,
+    appliedName: string,
+    call: ts.CallExpression
+  ): StaticHandler {
+    const handler = expression && this.resolveTarget(expression);
+    if (!handler) {
+      throw new Error(
+        `Cannot resolve the handler of ${appliedName} at ${this.location(
+          expression || call
+        )}`
+      );
+    }
+    return handler;
+  }
+
+  /**
+   * Find the handler an expression evaluates to
+   */
+  private resolveTarget(expression: ts.Expression): StaticHandler | undefined {
+    const target = skipOuterExpressions(expression);
+
+    // Decorators and withOpenApi return their target, so nested
+    // applications share it
+    if (ts.isCallExpression(target)) {
+      if (this.toApplication(target.expression)) {
+        return this.resolveTarget(target.arguments[0]);
+      }
+      if (nameOf(target.expression) === 'withOpenApi' && target.arguments[0]) {
+        return this.resolveTarget(target.arguments[0]);
+      }
+      return undefined;
+    }
+
+    // Anonymous functions are named after the variable they end up in, as
+    // discovery names them after their export
+    if (ts.isFunctionExpression(target) || ts.isArrowFunction(target)) {
+      const name =
+        (ts.isFunctionExpression(target) && target.name?.text) ||
+        enclosingVariableName(target) ||
+        '';
+      return this.handlerFor(target, name);
+    }
+
+    if (!ts.isIdentifier(target)) {
+      return undefined;
+    }
+    const declaration = this.checker
+      .getSymbolAtLocation(target)
+      ?.declarations?.find(
+        node => ts.isFunctionDeclaration(node) || ts.isVariableDeclaration(node)
+      );
+    if (!declaration) {
+      return undefined;
+    }
+
+    // Functions assigned to variables are named after the variable, unless
+    // the function expression has a name of its own
+    const initializer =
+      ts.isVariableDeclaration(declaration) && declaration.initializer
+        ? skipOuterExpressions(declaration.initializer)
+        : undefined;
+    const name =
+      initializer && ts.isFunctionExpression(initializer) && initializer.name
+        ? initializer.name.text
+        : target.text;
+    return this.handlerFor(declaration, name);
+  }
+
+  /**
+   * Get the handler declared by a node
+   */
+  private handlerFor(
+    declaration: ts.Node,
+    functionName: string
+  ): StaticHandler {
+    let handler = this.handlers.get(declaration);
+    if (!handler) {
+      handler = {
+        functionName,
+        exported: this.isExported(declaration),
+        applications: [],
+      };
+      this.handlers.set(declaration, handler);
+    }
+    return handler;
+  }
+
+  /**
+   * Check whether a node is declared within an exported declaration
+   */
+  private isExported(node: ts.Node): boolean {
+    for (let current: ts.Node | undefined = node; current; ) {
+      const parent: ts.Node | undefined = current.parent;
+      if (parent && ts.isSourceFile(parent)) {
+        return this.isExportedStatement(current);
+      }
+      current = parent;
+    }
+    return false;
+  }
+
+  private isExportedStatement(statement: ts.Node): boolean {
+    const modifiers = ts.canHaveModifiers(statement)
+      ? ts.getModifiers(statement)
+      : undefined;
+    if (
+      modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+    ) {
+      return true;
+    }
+
+    const names: string[] = [];
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.push(statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (ts.isIdentifier(declaration.name)) {
+          names.push(declaration.name.text);
+        }
+      });
+    }
+    return names.some(name => this.exportedNames.has(name));
+  }
+
+  /**
+   * Evaluate a literal decorator argument
+   */
+  private evaluate(
+    node: ts.Expression,
+    context: string,
+    key?: string
+  ): unknown {
+    const expression = skipOuterExpressions(node);
+
+    if (
+      ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression)
+    ) {
+      return expression.text;
+    }
+    if (ts.isNumericLiteral(expression)) {
+      return Number(expression.text);
+    }
+    if (
+      ts.isPrefixUnaryExpression(expression) &&
+      ts.isNumericLiteral(expression.operand) &&
+      (expression.operator === ts.SyntaxKind.MinusToken ||
+        expression.operator === ts.SyntaxKind.PlusToken)
+    ) {
+      const value = Number(expression.operand.text);
+      return expression.operator === ts.SyntaxKind.MinusToken ? -value : value;
+    }
+    switch (expression.kind) {
+      case ts.SyntaxKind.TrueKeyword:
+        return true;
+      case ts.SyntaxKind.FalseKeyword:
+        return false;
+      case ts.SyntaxKind.NullKeyword:
+        return null;
+    }
+
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression.elements.map(element =>
+        this.evaluate(element, context, key)
+      );
+    }
+    if (ts.isObjectLiteralExpression(expression)) {
+      const value: Record<string, unknown> = {};
+      expression.properties.forEach(property => {
+        if (
+          !ts.isPropertyAssignment(property) ||
+          ts.isComputedPropertyName(property.name)
+        ) {
+          throw this.unsupported(property, context);
+        }
+        const name = property.name.text;
+        value[name] = this.evaluate(property.initializer, context, name);
+      });
+      return value;
+    }
+
+    if (ts.isIdentifier(expression)) {
+      return this.evaluateIdentifier(expression, context, key);
+    }
+
+    throw this.unsupported(expression, context);
+  }
+
+  /**
+   * Evaluate an identifier: `undefined`, a type reference or a literal const
+   */
+  private evaluateIdentifier(
+    identifier: ts.Identifier,
+    context: string,
+    key?: string
+  ): unknown {
+    if (identifier.text === 'undefined') {
+      return undefined;
+    }
+
+    const declaration =
+      this.checker.getSymbolAtLocation(identifier)?.declarations?.[0];
+
+    if (
+      declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      declaration.initializer &&
+      ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const
+    ) {
+      return this.evaluate(declaration.initializer, context, key);
+    }
+
+    if (key && TYPE_KEYS.includes(key)) {
+      if (hasOwn(GLOBAL_TYPES, identifier.text)) {
+        return GLOBAL_TYPES[identifier.text];
+      }
+      const schemaClass = this.declarationOf(identifier);
+      return schemaClass && ts.isClassDeclaration(schemaClass)
+        ? this.schemaClass(schemaClass)
+        : identifier.text;
+    }
+
+    throw this.unsupported(identifier, context);
+  }
+
+  /**
+   * Find the declaration a name refers to, through imports
+   */
+  private declarationOf(name: ts.EntityName): ts.Declaration | undefined {
+    let symbol = this.checker.getSymbolAtLocation(name);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker.getAliasedSymbol(symbol);
+    }
+    return symbol?.declarations?.[0];
+  }
+
+  /**
+   * Get the stand-in of a schema class, reading the class from the module
+   * declaring it on first use
+   */
+  private schemaClass(declaration: ts.ClassDeclaration): TypeConstructor {
+    const known = this.schemaClasses.get(declaration);
+    if (known) {
+      return known;
+    }
+
+    const sourceFile = declaration.getSourceFile();
+    const reader =
+      sourceFile === this.sourceFile
+        ? this
+        : new SourceExtractor(sourceFile, this.checker, this.schemaClasses);
+    return reader.readSchemaClass(declaration);
+  }
+
+  /**
+   * Create the stand-in of a schema class and apply the decorators of the
+   * class and its properties to it, parent classes first as at runtime
+   */
+  private readSchemaClass(declaration: ts.ClassDeclaration): TypeConstructor {
+    const parent = declaration.heritageClauses?.find(
+      clause => clause.token === ts.SyntaxKind.ExtendsKeyword
+    )?.types[0]?.expression;
+    const parentDeclaration =
+      parent && ts.isIdentifier(parent)
+        ? this.declarationOf(parent)
+        : undefined;
+    const standIn =
+      parentDeclaration && ts.isClassDeclaration(parentDeclaration)
+        ? class extends this.schemaClass(parentDeclaration) {}
+        : class {};
+    Object.defineProperty(standIn, 'name', {
+      value: declaration.name?.text || '',
+    });
+
+    // Register the stand-in first so self-references resolve to it
+    this.schemaClasses.set(declaration, standIn);
+
+    declaration.members.forEach(member => {
+      if (
+        !ts.isPropertyDeclaration(member) ||
+        !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) ||
+        ts
+          .getModifiers(member)
+          ?.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword)
+      ) {
+        return;
+      }
+
+      const applications = (ts.getDecorators(member) || [])
+        .map(decorator =>
+          this.toApplication(decorator.expression, PROPERTY_DECORATORS)
+        )
+        .filter((application): application is DecoratorApplication =>
+          Boolean(application)
+        )
+        .reverse();
+      if (applications.length === 0) {
+        return;
+      }
+
+      // Stand in for the type emitDecoratorMetadata records
+      const name = member.name.text;
+      Reflect.defineMetadata(
+        'design:type',
+        this.designType(member.type),
+        standIn.prototype,
+        name
+      );
+      applications.forEach(application =>
+        PROPERTY_DECORATORS[application.name](application.options)(
+          standIn.prototype,
+          name
+        )
+      );
+    });
+
+    const schema = (ts.getDecorators(declaration) || [])
+      .map(decorator => this.toApplication(decorator.expression, { ApiSchema }))
+      .find(Boolean);
+    if (schema) {
+      ApiSchema(schema.options as ApiSchemaOptions)(standIn);
+    }
+
+    return standIn;
+  }
+
+  /**
+   * Get the constructor TypeScript records as `design:type` for a property
+   * type under `strictNullChecks`
+   */
+  private designType(node: ts.TypeNode | undefined): unknown {
+    if (!node) {
+      return Object;
+    }
+
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return String;
+      case ts.SyntaxKind.NumberKeyword:
+        return Number;
+      case ts.SyntaxKind.BooleanKeyword:
+        return Boolean;
+      case ts.SyntaxKind.BigIntKeyword:
+        return BigInt;
+      case ts.SyntaxKind.SymbolKeyword:
+        return Symbol;
+      case ts.SyntaxKind.VoidKeyword:
+      case ts.SyntaxKind.UndefinedKeyword:
+      case ts.SyntaxKind.NeverKeyword:
+        return undefined;
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.designType(node.type);
+    }
+    if (ts.isArrayTypeNode(node) || ts.isTupleTypeNode(node)) {
+      return Array;
+    }
+    if (
+      ts.isTypeOperatorNode(node) &&
+      node.operator === ts.SyntaxKind.ReadonlyKeyword
+    ) {
+      return this.designType(node.type);
+    }
+    if (ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node)) {
+      return Function;
+    }
+    if (ts.isLiteralTypeNode(node)) {
+      switch (node.literal.kind) {
+        case ts.SyntaxKind.StringLiteral:
+        case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+          return String;
+        case ts.SyntaxKind.NumericLiteral:
+        case ts.SyntaxKind.PrefixUnaryExpression:
+          return Number;
+        case ts.SyntaxKind.TrueKeyword:
+        case ts.SyntaxKind.FalseKeyword:
+          return Boolean;
+        default:
+          return undefined;
+      }
+    }
+    if (ts.isUnionTypeNode(node)) {
+      // Members recorded differently, `null` included, widen to Object
+      const types = new Set(node.types.map(type => this.designType(type)));
+      return types.size === 1 ? Array.from(types)[0] : Object;
+    }
+    if (ts.isTypeReferenceNode(node)) {
+      return this.referenceDesignType(node);
+    }
+
+    return Object;
+  }
+
+  /**
+   * Get the `design:type` of a type reference: the class, the primitive of
+   * an alias or enum, or a global constructor
+   */
+  private referenceDesignType(node: ts.TypeReferenceNode): unknown {
+    const declaration = this.declarationOf(node.typeName);
+    if (declaration && ts.isClassDeclaration(declaration)) {
+      return this.schemaClass(declaration);
+    }
+    if (declaration && ts.isTypeAliasDeclaration(declaration)) {
+      return this.designType(declaration.type);
+    }
+    if (declaration && ts.isEnumDeclaration(declaration)) {
+      return declaration.members.every(
+        member => member.initializer && ts.isStringLiteral(member.initializer)
+      )
+        ? String
+        : Number;
+    }
+
+    const name = ts.isIdentifier(node.typeName) ? node.typeName.text : '';
+    return !declaration && hasOwn(GLOBAL_TYPES, name)
+      ? GLOBAL_TYPES[name]
+      : Object;
+  }
+
+  private unsupported(node: ts.Node, context: string): Error {
+    return new Error(
+      `Cannot read ${context} argument statically at ${this.location(
+        node
+      )}: "${node.getText(this.sourceFile)}" is not a literal`
+    );
+  }
+
+  private location(node: ts.Node): string {
+    const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(this.sourceFile)
+    );
+    return `${this.sourceFile.fileName}:${line + 1}:${character + 1}`;
+  }
+}
+
+/**
+ * Skip parentheses, type assertions and `satisfies` around an expression
+ */
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isTypeAssertionExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isNonNullExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+/**
+ * Name of a called function: `name(...)` or `namespace.name(...)`
+ */
+function nameOf(callee: ts.Expression): string | undefined {
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  }
+  return ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+}
+
+/**
+ * Find the `openApi(handler)` call starting a builder chain
+ */
+function builderRoot(expression: ts.Expression): ts.CallExpression | undefined {
+  let current = skipOuterExpressions(expression);
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    current = skipOuterExpressions(current.expression.expression);
+  }
+  return ts.isCallExpression(current) &&
+    nameOf(current.expression) === 'openApi'
+    ? current
+    : undefined;
+}
+
+/**
+ * Name of the variable an expression is assigned to, through the calls
+ * wrapping it
+ */
+function enclosingVariableName(node: ts.Node): string | undefined {
+  let current = node.parent;
+  while (
+    current &&
+    (ts.isCallExpression(current) ||
+      ts.isPropertyAccessExpression(current) ||
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current))
+  ) {
+    current = current.parent;
+  }
+  return current &&
+    ts.isVariableDeclaration(current) &&
+    ts.isIdentifier(current.name)
+    ? current.name.text
+    : undefined;
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -0,0 +1,426 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { PropertyInfo, TypeInfo } from '../types/internal';
+import { findFiles } from '../utils/files';
+
+/**
+ * Options for creating a type analyzer
+ */
+export interface TypeAnalyzerOptions {
+  /** Source files or directories to analyze */
+  files?: string[];
+  /** tsconfig.json whose files and compiler options are used */
+  tsConfigPath?: string;
+  /** Compiler options overriding the defaults or the tsconfig */
+  compilerOptions?: ts.CompilerOptions;
+}
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.NodeJs,
+  strict: true,
+  experimentalDecorators: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/**
+ * Resolve interfaces and type aliases to type information using the
+ * TypeScript Compiler API
+ *
+ * Named object types (interfaces, classes and non-generic type aliases) keep
+ * their name so they can be registered as reusable schemas; anonymous object
+ * types have an empty name. A named type that refers to itself is expanded
+ * once and referenced by name (without properties) inside its own expansion.
+ */
+export class TypeAnalyzer {
+  private program: ts.Program;
+  private checker: ts.TypeChecker;
+  private declarations = new Map<string, ts.Declaration[]>();
+  private expanding = new Set<ts.Type>();
+  private objectInfos = new Map<ts.Type, TypeInfo>();
+
+  constructor(options: TypeAnalyzerOptions) {
+    const { fileNames, compilerOptions } = loadProgramInput(options);
+    this.program = ts.createProgram(fileNames, compilerOptions);
+    this.checker = this.program.getTypeChecker();
+    this.collectDeclarations();
+  }
+
+  /**
+   * Get the names of all interfaces and type aliases in the program
+   */
+  getTypeNames(): string[] {
+    return Array.from(this.declarations.keys()).sort();
+  }
+
+  /**
+   * Resolve an interface or type alias by name
+   *
+   * @param name - Interface or type alias name
+   * @returns Type information, or undefined when no such type exists
+   */
+  resolveType(name: string): TypeInfo | undefined {
+    const declarations = this.declarations.get(name);
+    if (!declarations) {
+      return undefined;
+    }
+
+    const files = new Set(
+      declarations.map(declaration => declaration.getSourceFile().fileName)
+    );
+    if (files.size > 1) {
+      throw new Error(
+        `Type "${name}" is declared in several files: ${Array.from(files).join(
+          ', '
+        )}`
+      );
+    }
+
+    const declaration = declarations[0];
+    const symbol = this.checker.getSymbolAtLocation(
+      (declaration as ts.InterfaceDeclaration).name
+    );
+    if (!symbol) {
+      return undefined;
+    }
+
+    const type = this.checker.getDeclaredTypeOfSymbol(symbol);
+    const info = this.toTypeInfo(type);
+
+    // Union and intersection aliases are named after the alias
+    return info.kind === 'union' || info.kind === 'intersection'
+      ? { ...info, name, filePath: declaration.getSourceFile().fileName }
+      : info;
+  }
+
+  /**
+   * Index interface and type alias declarations of user source files
+   */
+  private collectDeclarations(): void {
+    this.program.getSourceFiles().forEach(sourceFile => {
+      if (
+        sourceFile.isDeclarationFile ||
+        this.program.isSourceFileFromExternalLibrary(sourceFile)
+      ) {
+        return;
+      }
+
+      sourceFile.statements.forEach(statement => {
+        if (
+          ts.isInterfaceDeclaration(statement) ||
+          ts.isTypeAliasDeclaration(statement)
+        ) {
+          const name = statement.name.text;
+          const existing = this.declarations.get(name) || [];
+          this.declarations.set(name, [...existing, statement]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Convert a checker type to type information
+   */
+  private toTypeInfo(type: ts.Type): TypeInfo {
+    const flags = type.flags;
+
+    if (flags & ts.TypeFlags.Boolean) {
+      return { name: 'boolean', kind: 'primitive' };
+    }
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return {
+        name: this.checker.typeToString(type),
+        kind: 'literal',
+        literal: this.checker.typeToString(type) === 'true',
+      };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return {
+        name: this.checker.typeToString(type),
+        kind: 'literal',
+        literal: type.value,
+      };
+    }
+    if (flags & (ts.TypeFlags.String | ts.TypeFlags.TemplateLiteral)) {
+      return { name: 'string', kind: 'primitive' };
+    }
+    if (flags & ts.TypeFlags.Number) {
+      return { name: 'number', kind: 'primitive' };
+    }
+    if (flags & ts.TypeFlags.BigInt) {
+      return { name: 'bigint', kind: 'primitive' };
+    }
+    if (flags & ts.TypeFlags.Null) {
+      return { name: 'null', kind: 'primitive' };
+    }
+    if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) {
+      return { name: 'undefined', kind: 'primitive' };
+    }
+
+    if (type.isUnion()) {
+      return this.toUnionInfo(type);
+    }
+    if (type.isIntersection()) {
+      return {
+        name: this.checker.typeToString(type),
+        kind: 'intersection',
+        members: type.types.map(member => this.toTypeInfo(member)),
+      };
+    }
+
+    if (flags & ts.TypeFlags.Object) {
+      return this.toObjectInfo(type as ts.ObjectType);
+    }
+
+    return { name: this.checker.typeToString(type), kind: 'unknown' };
+  }
+
+  /**
+   * Convert a union, folding `undefined` away and `null` into `nullable`
+   */
+  private toUnionInfo(type: ts.UnionType): TypeInfo {
+    const members = type.types
+      .map(member => this.toTypeInfo(member))
+      .filter(member => member.name !== 'undefined');
+    const nonNull = members.filter(member => member.name !== 'null');
+    const nullable = nonNull.length < members.length;
+
+    // `boolean` appears as `true | false` inside larger unions
+    const hasTrue = nonNull.some(member => member.literal === true);
+    const hasFalse = nonNull.some(member => member.literal === false);
+    const folded: TypeInfo[] =
+      hasTrue && hasFalse
+        ? [
+            ...nonNull.filter(member => typeof member.literal !== 'boolean'),
+            { name: 'boolean', kind: 'primitive' },
+          ]
+        : nonNull;
+
+    if (folded.length === 1) {
+      return nullable ? { ...folded[0], nullable } : folded[0];
+    }
+
+    const info: TypeInfo = {
+      name: this.checker.typeToString(type),
+      kind: 'union',
+      members: folded,
+    };
+    if (nullable) {
+      info.nullable = true;
+    }
+    return info;
+  }
+
+  /**
+   * Convert arrays, tuples, dates, records and object shapes
+   */
+  private toObjectInfo(type: ts.ObjectType): TypeInfo {
+    const symbolName = type.getSymbol()?.getName();
+
+    if (symbolName === 'Date') {
+      return { name: 'Date', kind: 'primitive' };
+    }
+
+    if (this.checker.isTupleType(type)) {
+      const elements = this.checker
+        .getTypeArguments(type as ts.TypeReference)
+        .map(element => this.toTypeInfo(element));
+      const distinct = elements.filter(
+        (element, index) =>
+          elements.findIndex(other => other.name === element.name) === index
+      );
+      return {
+        name: this.checker.typeToString(type),
+        kind: 'array',
+        elementType:
+          distinct.length === 1
+            ? distinct[0]
+            : { name: 'tuple', kind: 'union', members: distinct },
+      };
+    }
+
+    if (symbolName === 'Array' || symbolName === 'ReadonlyArray') {
+      const [element] = this.checker.getTypeArguments(type as ts.TypeReference);
+      return {
+        name: this.checker.typeToString(type),
+        kind: 'array',
+        elementType: element
+          ? this.toTypeInfo(element)
+          : { name: 'unknown', kind: 'unknown' },
+      };
+    }
+
+    const cached = this.objectInfos.get(type);
+    if (cached) {
+      return cached;
+    }
+
+    const { name, genericArgs } = this.describeObjectType(type);
+
+    // Recursive references are emitted by name only
+    if (this.expanding.has(type)) {
+      return { name, kind: 'object' };
+    }
+
+    this.expanding.add(type);
+    try {
+      const info: TypeInfo = {
+        name,
+        kind: genericArgs ? 'generic' : 'object',
+        properties: this.checker
+          .getPropertiesOfType(type)
+          .filter(property => !(property.flags & ts.SymbolFlags.Method))
+          .map(property => this.toPropertyInfo(property)),
+      };
+
+      if (genericArgs) {
+        info.genericArgs = genericArgs;
+      }
+
+      const filePath = name ? declarationFile(type) : undefined;
+      if (filePath) {
+        info.filePath = filePath;
+      }
+
+      const indexType = this.checker.getIndexTypeOfType(
+        type,
+        ts.IndexKind.String
+      );
+      if (indexType) {
+        info.additionalProperties = this.toTypeInfo(indexType);
+      }
+
+      this.objectInfos.set(type, info);
+      return info;
+    } finally {
+      this.expanding.delete(type);
+    }
+  }
+
+  /**
+   * Determine the reusable name of an object type and its type arguments
+   */
+  private describeObjectType(type: ts.ObjectType): {
+    name: string;
+    genericArgs?: TypeInfo[];
+  } {
+    const aliasArgs = type.aliasTypeArguments;
+    if (type.aliasSymbol) {
+      return aliasArgs && aliasArgs.length > 0
+        ? {
+            name: type.aliasSymbol.getName(),
+            genericArgs: aliasArgs.map(arg => this.toTypeInfo(arg)),
+          }
+        : { name: type.aliasSymbol.getName() };
+    }
+
+    const symbol = type.getSymbol();
+    if (
+      symbol &&
+      symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Class)
+    ) {
+      const typeArgs =
+        type.objectFlags & ts.ObjectFlags.Reference
+          ? this.checker.getTypeArguments(type as ts.TypeReference)
+          : [];
+      return typeArgs.length > 0
+        ? {
+            name: symbol.getName(),
+            genericArgs: typeArgs.map(arg => this.toTypeInfo(arg)),
+          }
+        : { name: symbol.getName() };
+    }
+
+    // Anonymous object literal or mapped type
+    return { name: '' };
+  }
+
+  /**
+   * Convert a property symbol to property information
+   */
+  private toPropertyInfo(property: ts.Symbol): PropertyInfo {
+    const declaration =
+      property.valueDeclaration || (property.declarations || [])[0];
+    const type = declaration
+      ? this.checker.getTypeOfSymbolAtLocation(property, declaration)
+      : this.checker.getDeclaredTypeOfSymbol(property);
+
+    const info: PropertyInfo = {
+      name: property.getName(),
+      type: this.toTypeInfo(type),
+      optional: (property.flags & ts.SymbolFlags.Optional) !== 0,
+    };
+
+    const description = ts
+      .displayPartsToString(property.getDocumentationComment(this.checker))
+      .trim();
+    if (description) {
+      info.description = description;
+    }
+
+    return info;
+  }
+}
+
+/**
+ * Get the file declaring a named object type
+ */
+function declarationFile(type: ts.ObjectType): string | undefined {
+  const symbol = type.aliasSymbol || type.getSymbol();
+  return symbol?.declarations?.[0]?.getSourceFile().fileName;
+}
+
+/**
+ * Collect TypeScript source files from files, directories and glob patterns
+ *
+ * Declaration files and `node_modules` are skipped.
+ *
+ * @param paths - Files, directories or glob patterns
+ * @returns Absolute paths of the source files found
+ */
+export function collectSourceFiles(paths: string[]): string[] {
+  return findFiles(paths, {
+    include: ['**/*.{ts,tsx}'],
+    exclude: ['**/*.d.ts'],
+  });
+}
+
+/**
+ * Determine the root files and compiler options of the program
+ */
+function loadProgramInput(options: TypeAnalyzerOptions): {
+  fileNames: string[];
+  compilerOptions: ts.CompilerOptions;
+} {
+  let fileNames = collectSourceFiles(options.files || []);
+  let compilerOptions = DEFAULT_COMPILER_OPTIONS;
+
+  if (options.tsConfigPath) {
+    const configFile = ts.readConfigFile(options.tsConfigPath, ts.sys.readFile);
+    if (configFile.error) {
+      throw new Error(
+        `Cannot read ${options.tsConfigPath}: ${ts.flattenDiagnosticMessageText(
+          configFile.error.messageText,
+          '\n'
+        )}`
+      );
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(
+      configFile.config,
+      ts.sys,
+      path.dirname(path.resolve(options.tsConfigPath))
+    );
+    compilerOptions = { ...parsed.options, noEmit: true };
+    if (fileNames.length === 0) {
+      fileNames = parsed.fileNames;
+    }
+  }
+
+  return {
+    fileNames,
+    compilerOptions: { ...compilerOptions, ...options.compilerOptions },
+  };
+}
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+import yargs from 'yargs';
+import { CliConfig } from './types/config';
+import { CliIo, processIo, runGenerate } from './commands/generate';
+import { runWatch } from './commands/watch';
+
+/**
+ * Run the lambda-openapi command line interface
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export async function main(
+  argv: string[],
+  io: CliIo = processIo
+): Promise<number> {
+  let exitCode = 0;
+
+  try {
+    await yargs(argv)
+      .scriptName('lambda-openapi')
+      .usage('$0 <command> [options]')
+      .command(
+        'generate',
+        'Generate an OpenAPI document from decorated Lambda handlers',
+        command =>
+          command
+            .option('input', {
+              alias: 'i',
+              type: 'string',
+              array: true,
+              description: 'Handler files, directories or glob patterns',
+            })
+            .option('output', {
+              alias: 'o',
+              type: 'string',
+              description: 'Output file path (prints to stdout when omitted)',
+            })
+            .option('format', {
+              alias: 'f',
+              choices: ['json', 'yaml'] as const,
+              description:
+                'Output format (inferred from --output when omitted)',
+            })
+            .option('title', {
+              alias: 't',
+              type: 'string',
+              description: 'API title',
+            })
+            .option('version', {
+              alias: 'v',
+              type: 'string',
+              description: 'API version',
+            })
+            .option('description', {
+              alias: 'd',
+              type: 'string',
+              description: 'API description',
+            })
+            .option('base-path', {
+              alias: 'b',
+              type: 'string',
+              description: 'Base path for API routes',
+            })
+            .option('config', {
+              alias: 'c',
+              type: 'string',
+              description:
+                'Configuration file (defaults to lambda-openapi.config.{ts,js,json} or package.json)',
+            })
+            .option('verbose', {
+              type: 'boolean',
+              default: false,
+              description: 'Print discovered modules and a summary',
+            })
+            .option('watch', {
+              alias: 'w',
+              type: 'boolean',
+              default: false,
+              description: 'Regenerate whenever handler files change',
+            })
+            .option('dry-run', {
+              type: 'boolean',
+              default: false,
+              description: 'Print the document instead of writing it',
+            }),
+        async args => {
+          const cli: CliConfig = {
+            input: args.input as string[],
+            output: args.output,
+            format: args.format,
+            title: args.title,
+            version: args.version,
+            description: args.description,
+            basePath: args.basePath,
+            config: args.config,
+            watch: args.watch,
+            verbose: args.verbose,
+            dryRun: args.dryRun,
+          };
+          exitCode = cli.watch ? await runWatch(cli, io) : runGenerate(cli, io);
+        }
+      )
+      .demandCommand(1, 'Specify a command, e.g. lambda-openapi generate')
+      .strict()
+      .version(false)
+      .help()
+      .exitProcess(false)
+      .fail((message, error) => {
+        // Abort parsing so that no command runs on invalid arguments
+        throw error || new Error(message);
+      })
+      .parseAsync();
+  } catch (error) {
+    io.stderr(`Error: ${(error as Error).message}`);
+    exitCode = 1;
+  }
+
+  return exitCode;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,210 @@
+import * as path from 'path';
+import {
+  CliConfig,
+  DEFAULT_CONFIG,
+  GeneratorConfig,
+  UserConfig,
+} from '../types/config';
+import { HTTP_METHODS } from '../types/decorator-options';
+import { OpenAPISpec } from '../types/openapi';
+import { generateOpenApiSpec } from '../generator/openapi-generator';
+import {
+  resolveOutputFormat,
+  serializeOpenApiSpec,
+  writeOpenApiSpec,
+} from '../generator/serializer';
+import {
+  discoverHandlers,
+  findHandlerFiles,
+} from '../analyzer/handler-discovery';
+import { loadConfig, mergeConfig } from '../config/config-loader';
+import { formatValidationErrors, validateConfig } from '../config/validation';
+import { registerTypeScript } from '../utils/modules';
+
+/**
+ * Output streams used by CLI commands
+ */
+export interface CliIo {
+  /** Write generated documents */
+  stdout: (text: string) => void;
+  /** Write progress messages, warnings and errors */
+  stderr: (text: string) => void;
+}
+
+/**
+ * CLI output bound to the process streams
+ */
+export const processIo: CliIo = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Run the `generate` command
+ *
+ * The document is written to `--output`, or to stdout when no output is
+ * given. With `--dry-run` the document is printed instead of written.
+ *
+ * @param cli - Parsed command line options
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export function runGenerate(cli: CliConfig, io: CliIo = processIo): number {
+  try {
+    const config = loadGeneratorConfig(cli, io);
+    const { spec } = buildSpec(config, cli, io);
+
+    if (!config.outputPath || cli.dryRun) {
+      if (cli.dryRun && config.outputPath) {
+        io.stderr(`Dry run: ${config.outputPath} was not written`);
+      }
+      const document = serializeOpenApiSpec(spec, {
+        format: resolveOutputFormat(config),
+        prettyPrint: config.options?.prettyPrint,
+      });
+      io.stdout(document.trimEnd());
+      return 0;
+    }
+
+    writeOpenApiSpec(spec, config);
+    io.stderr(`OpenAPI document written to ${config.outputPath}`);
+    return 0;
+  } catch (error) {
+    reportError(error, cli, io);
+    return 1;
+  }
+}
+
+/**
+ * Resolve the generator configuration of the command line options,
+ * including the `--config` file or the config file found in the working
+ * directory
+ *
+ * Validation warnings are printed; validation errors are thrown.
+ *
+ * @param cli - Parsed command line options
+ * @param io - Output streams for verbose output
+ * @returns Complete generator configuration
+ */
+export function loadGeneratorConfig(
+  cli: CliConfig,
+  io: CliIo = processIo
+): GeneratorConfig {
+  const { config, filePath } = loadConfig({ configPath: cli.config });
+  if (cli.verbose && filePath) {
+    io.stderr(`Using config file ${path.relative(process.cwd(), filePath)}`);
+  }
+
+  const generatorConfig = toGeneratorConfig(cli, config);
+  const validation = validateConfig(generatorConfig);
+  validation.warnings.forEach(warning =>
+    io.stderr(`Warning: ${warning.message} [${warning.rule}]`)
+  );
+  if (!validation.isValid) {
+    throw new Error(formatValidationErrors(validation));
+  }
+
+  return generatorConfig;
+}
+
+/**
+ * Discover the handlers of a configuration and generate the specification
+ *
+ * @param config - Generator configuration
+ * @param cli - Parsed command line options
+ * @param io - Output streams for verbose output
+ * @returns OpenAPI specification object and the discovered handlers
+ */
+export function buildSpec(
+  config: GeneratorConfig,
+  cli: CliConfig,
+  io: CliIo
+): { spec: OpenAPISpec; handlers: any[] } {
+  const files = findHandlerFiles(config);
+  if (cli.verbose) {
+    io.stderr(`Found ${files.length} handler module(s)`);
+    files.forEach(file => io.stderr(`  ${path.relative(process.cwd(), file)}`));
+  }
+  // Static analysis reads the handler sources instead of loading them
+  let handlers: any[] = [];
+  let spec: OpenAPISpec;
+  if (config.options?.staticAnalysis) {
+    spec = generateOpenApiSpec(config);
+  } else {
+    registerTypeScript(files);
+    handlers = discoverHandlers(config);
+    spec = generateOpenApiSpec(config, handlers);
+  }
+  if (cli.verbose) {
+    io.stderr(
+      `Generated ${countOperations(spec)} operation(s) on ${
+        Object.keys(spec.paths).length
+      } path(s)`
+    );
+  }
+
+  return { spec, handlers };
+}
+
+/**
+ * Print an error, with its stack trace in verbose mode
+ *
+ * @param error - Thrown value
+ * @param cli - Parsed command line options
+ * @param io - Output streams
+ */
+export function reportError(error: unknown, cli: CliConfig, io: CliIo): void {
+  io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  if (cli.verbose && error instanceof Error && error.stack) {
+    io.stderr(error.stack);
+  }
+}
+
+/**
+ * Map command line options onto a generator configuration
+ *
+ * Values are taken in this order of precedence, highest first: command line
+ * options, the configuration file, `DEFAULT_CONFIG`.
+ *
+ * @param cli - Parsed command line options
+ * @param fileConfig - Configuration loaded from a config file
+ * @returns Complete generator configuration
+ */
+export function toGeneratorConfig(
+  cli: CliConfig,
+  fileConfig: UserConfig = {}
+): GeneratorConfig {
+  const config = mergeConfig(DEFAULT_CONFIG as UserConfig, fileConfig, {
+    inputPaths:
+      cli.input !== undefined ? ([] as string[]).concat(cli.input) : undefined,
+    outputPath: cli.output,
+    format: cli.format,
+    basePath: cli.basePath,
+    info: {
+      title: cli.title,
+      version: cli.version,
+      description: cli.description,
+    },
+  });
+
+  if (!config.inputPaths || config.inputPaths.length === 0) {
+    throw new Error(
+      'No input paths given; pass --input or set inputPaths in the config file'
+    );
+  }
+
+  return config as GeneratorConfig;
+}
+
+/**
+ * Count the operations of all paths
+ */
+function countOperations(spec: OpenAPISpec): number {
+  return Object.values(spec.paths).reduce(
+    (count, pathItem) =>
+      count +
+      HTTP_METHODS.filter(method => (pathItem as any)[method] !== undefined)
+        .length,
+    0
+  );
+}
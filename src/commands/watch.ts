@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliConfig, GeneratorConfig } from '../types/config';
+import { HTTP_METHODS } from '../types/decorator-options';
+import { OpenAPISpec } from '../types/openapi';
+import { MetadataManager } from '../utils/metadata';
+import { findHandlerFiles } from '../analyzer/handler-discovery';
+import { CONFIG_FILE_NAMES } from '../config/config-loader';
+import {
+  resolveOutputFormat,
+  serializeOpenApiSpec,
+  writeOpenApiSpec,
+} from '../generator/serializer';
+import {
+  CliIo,
+  buildSpec,
+  loadGeneratorConfig,
+  processIo,
+  reportError,
+} from './generate';
+
+/**
+ * Options for watching handler files
+ */
+export interface WatchOptions {
+  /** Polling interval in milliseconds */
+  interval?: number;
+}
+
+/**
+ * Running watch session
+ */
+export interface Watcher {
+  /** Stop watching */
+  close: () => void;
+}
+
+/**
+ * Operations that differ between two specifications, as `METHOD /path`
+ */
+export interface OperationDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const DEFAULT_INTERVAL = 500;
+
+// Modules of this package, which must not be reloaded with the handlers
+const PACKAGE_DIR = path.resolve(__dirname, '..');
+
+/**
+ * Run the `generate` command in watch mode
+ *
+ * Handler files, and the local modules they load, are polled for additions,
+ * removals and modifications. On every change these modules are reloaded and
+ * the specification is regenerated; the output is only rewritten when the
+ * document changed, and a summary of added, removed and changed operations is
+ * printed. A changed config file is reloaded before regenerating. Errors are
+ * reported and watching continues.
+ *
+ * @param cli - Parsed command line options
+ * @param io - Output streams
+ * @param options - Watch options
+ * @returns Running watcher
+ */
+export function watchGenerate(
+  cli: CliConfig,
+  io: CliIo = processIo,
+  options: WatchOptions = {}
+): Watcher {
+  const load = (): GeneratorConfig => {
+    const loaded = loadGeneratorConfig(cli, io);
+    if (!loaded.outputPath) {
+      throw new Error('--watch requires --output');
+    }
+    return loaded;
+  };
+  const readOutput = (outputPath: string) =>
+    fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : undefined;
+
+  // The --config file, or every file the configuration may be found in
+  const configFiles = (
+    cli.config ? [cli.config] : [...CONFIG_FILE_NAMES, 'package.json']
+  ).map(file => path.resolve(file));
+  let config = load();
+  let configSnapshot = snapshotOf(configFiles);
+
+  let snapshot = '';
+  let files: string[] = [];
+  let dependencies: string[] = [];
+  let handlers: any[] = [];
+  let previousSpec: OpenAPISpec | undefined;
+  let previousContent = readOutput(config.outputPath!);
+
+  const cycle = () => {
+    const nextConfigSnapshot = snapshotOf(configFiles);
+    if (nextConfigSnapshot !== configSnapshot) {
+      configSnapshot = nextConfigSnapshot;
+      unloadModules(configFiles);
+      try {
+        const outputPath = config.outputPath;
+        config = load();
+        if (config.outputPath !== outputPath) {
+          previousContent = readOutput(config.outputPath!);
+        }
+      } catch (error) {
+        reportError(error, cli, io);
+        return;
+      }
+      // Regenerate with the new configuration
+      snapshot = '';
+    }
+
+    let nextFiles: string[];
+    let nextSnapshot: string;
+    try {
+      nextFiles = findHandlerFiles(config);
+      nextSnapshot = snapshotOf([...nextFiles, ...dependencies]);
+    } catch (error) {
+      reportError(error, cli, io);
+      return;
+    }
+    if (nextSnapshot === snapshot) {
+      return;
+    }
+
+    // Reload every handler module and its dependencies so that edits are
+    // picked up
+    unloadModules([...files, ...dependencies, ...nextFiles]);
+    files = nextFiles;
+
+    try {
+      const { spec, handlers: discovered } = buildSpec(config, cli, io);
+      releaseHandlers(handlers, discovered);
+      handlers = discovered;
+
+      const content = serializeOpenApiSpec(spec, {
+        format: resolveOutputFormat(config),
+        prettyPrint: config.options?.prettyPrint,
+      });
+      const diff = diffOperations(previousSpec, spec);
+      previousSpec = spec;
+
+      if (content === previousContent) {
+        io.stderr(`No changes; ${config.outputPath} is up to date`);
+        return;
+      }
+
+      if (!cli.dryRun) {
+        writeOpenApiSpec(spec, config);
+      }
+      previousContent = content;
+      printSummary(diff, config, cli, io);
+    } catch (error) {
+      reportError(error, cli, io);
+    } finally {
+      dependencies = localDependencies(files);
+      snapshot = snapshotOf([...files, ...dependencies]);
+    }
+  };
+
+  io.stderr(`Watching ${config.inputPaths.join(', ')} for changes`);
+  cycle();
+  const timer = setInterval(cycle, options.interval || DEFAULT_INTERVAL);
+
+  return {
+    close: () => clearInterval(timer),
+  };
+}
+
+/**
+ * Run watch mode until the process is interrupted
+ *
+ * @param cli - Parsed command line options
+ * @param io - Output streams
+ * @returns Process exit code once watching stopped
+ */
+export function runWatch(
+  cli: CliConfig,
+  io: CliIo = processIo
+): Promise<number> {
+  let watcher: Watcher;
+  try {
+    watcher = watchGenerate(cli, io);
+  } catch (error) {
+    reportError(error, cli, io);
+    return Promise.resolve(1);
+  }
+
+  return new Promise(resolve => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      watcher.close();
+      resolve(0);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+/**
+ * Compare the operations of two specifications
+ *
+ * @param previous - Previous specification, if any
+ * @param next - New specification
+ * @returns Sorted lists of added, removed and changed operations
+ */
+export function diffOperations(
+  previous: OpenAPISpec | undefined,
+  next: OpenAPISpec
+): OperationDiff {
+  const before = operationsOf(previous);
+  const after = operationsOf(next);
+
+  const diff: OperationDiff = { added: [], removed: [], changed: [] };
+  after.forEach((operation, key) => {
+    if (!before.has(key)) {
+      diff.added.push(key);
+    } else if (before.get(key) !== operation) {
+      diff.changed.push(key);
+    }
+  });
+  before.forEach((_, key) => {
+    if (!after.has(key)) {
+      diff.removed.push(key);
+    }
+  });
+
+  diff.added.sort();
+  diff.removed.sort();
+  diff.changed.sort();
+  return diff;
+}
+
+/**
+ * Map `METHOD /path` to the serialized operation
+ */
+function operationsOf(spec: OpenAPISpec | undefined): Map<string, string> {
+  const operations = new Map<string, string>();
+
+  Object.entries(spec?.paths || {}).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach(method => {
+      const operation = (pathItem as any)[method];
+      if (operation !== undefined) {
+        operations.set(
+          `${method.toUpperCase()} ${path}`,
+          JSON.stringify(operation)
+        );
+      }
+    });
+  });
+
+  return operations;
+}
+
+function printSummary(
+  diff: OperationDiff,
+  config: GeneratorConfig,
+  cli: CliConfig,
+  io: CliIo
+): void {
+  const action = cli.dryRun ? 'would be updated' : 'updated';
+  io.stderr(
+    `${config.outputPath} ${action}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`
+  );
+  diff.added.forEach(key => io.stderr(`  + ${key}`));
+  diff.removed.forEach(key => io.stderr(`  - ${key}`));
+  diff.changed.forEach(key => io.stderr(`  ~ ${key}`));
+}
+
+/**
+ * Fingerprint a file list by path and modification time
+ */
+function snapshotOf(files: string[]): string {
+  return files
+    .map(file => {
+      const stat = fs.statSync(file, { throwIfNoEntry: false });
+      return `${file}:${stat ? stat.mtimeMs : 'missing'}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Remove modules from the require cache so the next load re-runs them
+ */
+function unloadModules(files: string[]): void {
+  files.forEach(file => {
+    delete require.cache[file];
+  });
+}
+
+/**
+ * Collect the modules handler modules load, directly or not, outside
+ * node_modules and this package
+ */
+function localDependencies(files: string[]): string[] {
+  const dependencies = new Set<string>();
+
+  const visit = (module: NodeModule | undefined) =>
+    module?.children.forEach(child => {
+      if (
+        !files.includes(child.filename) &&
+        !dependencies.has(child.filename) &&
+        !child.filename.split(path.sep).includes('node_modules') &&
+        !child.filename.startsWith(PACKAGE_DIR + path.sep)
+      ) {
+        dependencies.add(child.filename);
+        visit(child);
+      }
+    });
+  files.forEach(file => visit(require.cache[file]));
+
+  return Array.from(dependencies);
+}
+
+/**
+ * Clear the metadata of handlers replaced by reloaded modules
+ */
+function releaseHandlers(previous: any[], current: any[]): void {
+  previous
+    .filter(handler => !current.includes(handler))
+    .forEach(handler => MetadataManager.clearMetadata(handler));
+}
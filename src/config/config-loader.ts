@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { UserConfig } from '../types/config';
+import { registerTypeScript } from '../utils/modules';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'lambda-openapi.config.ts',
+  'lambda-openapi.config.js',
+  'lambda-openapi.config.json',
+];
+
+/**
+ * package.json key holding the configuration when no config file exists
+ */
+export const PACKAGE_JSON_KEY = 'lambdaOpenapi';
+
+/**
+ * Options for loading the configuration
+ */
+export interface LoadConfigOptions {
+  /** Directory searched for config files (defaults to the working directory) */
+  cwd?: string;
+  /** Explicit config file, skipping the lookup */
+  configPath?: string;
+}
+
+/**
+ * Configuration loaded from a config file
+ */
+export interface LoadedConfig {
+  /** Configuration values, with paths resolved against the file */
+  config: UserConfig;
+  /** File the configuration was read from, if any */
+  filePath?: string;
+}
+
+/**
+ * Declare a configuration with type checking
+ *
+ * @param config - Configuration values
+ * @returns The same configuration
+ *
+ * @example
+ * ```typescript
+ * // lambda-openapi.config.ts
+ * import { defineConfig } from 'lambda-openapi';
+ *
+ * export default defineConfig({
+ *   inputPaths: ['src/handlers'],
+ *   outputPath: 'openapi.yaml',
+ *   info: { title: 'Users API', version: '1.0.0' },
+ * });
+ * ```
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+  return config;
+}
+
+/**
+ * Find the config file of a directory
+ *
+ * @param cwd - Directory to search
+ * @returns Absolute path of the first existing config file, if any
+ */
+export function findConfigFile(
+  cwd: string = process.cwd()
+): string | undefined {
+  return CONFIG_FILE_NAMES.map(name => path.resolve(cwd, name)).find(file =>
+    fs.existsSync(file)
+  );
+}
+
+/**
+ * Load the configuration from a config file
+ *
+ * An explicit `configPath` is loaded as is. Otherwise the first of
+ * `lambda-openapi.config.{ts,js,json}` in `cwd` is used, falling back to the
+ * `"lambdaOpenapi"` key of `package.json`. Relative paths in the
+ * configuration are resolved against the directory of the file.
+ *
+ * @param options - Lookup options
+ * @returns Loaded configuration, empty when no config file exists
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const cwd = options.cwd || process.cwd();
+
+  if (options.configPath) {
+    const filePath = path.resolve(cwd, options.configPath);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file not found: ${options.configPath}`);
+    }
+    return { config: loadConfigFile(filePath), filePath };
+  }
+
+  const configFile = findConfigFile(cwd);
+  if (configFile) {
+    return { config: loadConfigFile(configFile), filePath: configFile };
+  }
+
+  const packageJson = path.resolve(cwd, 'package.json');
+  if (fs.existsSync(packageJson)) {
+    const config = loadConfigFile(packageJson);
+    if (Object.keys(config).length > 0) {
+      return { config, filePath: packageJson };
+    }
+  }
+
+  return { config: {} };
+}
+
+/**
+ * Load a TypeScript, JavaScript or JSON config file
+ *
+ * For `package.json` the `"lambdaOpenapi"` key is read.
+ *
+ * @param filePath - Config file path
+ * @returns Configuration with paths resolved against the file
+ */
+export function loadConfigFile(filePath: string): UserConfig {
+  const resolved = path.resolve(filePath);
+  let config: unknown;
+
+  if (resolved.endsWith('.json')) {
+    const json = parseJsonFile(resolved);
+    config =
+      path.basename(resolved) === 'package.json'
+        ? json[PACKAGE_JSON_KEY] || {}
+        : json;
+  } else {
+    registerTypeScript([resolved]);
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const loaded = require(resolved);
+    config = loaded && loaded.default ? loaded.default : loaded;
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(
+      `Config file ${filePath} must export a configuration object`
+    );
+  }
+
+  return resolveConfigPaths(config as UserConfig, path.dirname(resolved));
+}
+
+/**
+ * Merge configuration layers; later layers take precedence
+ *
+ * `info` and `options` are merged field by field, all other fields are
+ * replaced. Undefined values never override earlier layers.
+ *
+ * @param layers - Configurations from lowest to highest precedence
+ * @returns Merged configuration
+ */
+export function mergeConfig(...layers: UserConfig[]): UserConfig {
+  return layers.reduce<UserConfig>((merged, layer) => {
+    const result: UserConfig = { ...merged };
+
+    (Object.keys(layer) as Array<keyof UserConfig>).forEach(key => {
+      const value = layer[key];
+      if (value === undefined) {
+        return;
+      }
+      if (key === 'info' || key === 'options') {
+        (result as any)[key] = {
+          ...(merged[key] as object),
+          ...withoutUndefined(value as object),
+        };
+      } else {
+        (result as any)[key] = value;
+      }
+    });
+
+    return result;
+  }, {});
+}
+
+/**
+ * Resolve the file system paths of a configuration against a directory
+ */
+function resolveConfigPaths(config: UserConfig, dir: string): UserConfig {
+  const resolved: UserConfig = { ...config };
+
+  if (config.inputPaths) {
+    resolved.inputPaths = config.inputPaths.map(input =>
+      path.resolve(dir, input)
+    );
+  }
+  if (config.outputPath) {
+    resolved.outputPath = path.resolve(dir, config.outputPath);
+  }
+  if (config.tsConfigPath) {
+    resolved.tsConfigPath = path.resolve(dir, config.tsConfigPath);
+  }
+
+  return resolved;
+}
+
+function parseJsonFile(filePath: string): Record<string, any> {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid config file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(value) as Array<keyof T>).forEach(key => {
+    if (value[key] !== undefined) {
+      result[key] = value[key];
+    }
+  });
+  return result;
+}
@@ -0,0 +1,24 @@
+// Config file loading and merging
+export {
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+  loadConfigFile,
+  mergeConfig,
+  CONFIG_FILE_NAMES,
+  PACKAGE_JSON_KEY,
+  LoadConfigOptions,
+  LoadedConfig,
+} from './config-loader';
+
+// Configuration validation
+export {
+  validateConfig,
+  registerValidationRule,
+  resetValidationRules,
+  formatValidationErrors,
+  BUILT_IN_RULES,
+} from './validation';
+
+// Server templates
+export { apiGatewayServer, ApiGatewayServerOptions } from './servers';
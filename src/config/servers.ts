@@ -0,0 +1,76 @@
+import { ServerObject, ServerVariableObject } from '../types/openapi';
+
+/**
+ * Options for an API Gateway server entry
+ */
+export interface ApiGatewayServerOptions {
+  /** REST API ID, the first label of the execute-api host name */
+  apiId: string;
+  /** AWS region of the API */
+  region: string;
+  /** Deployed stages, e.g. `['dev', 'stg', 'prod']` */
+  stages: string[];
+  /** Stage selected by default (defaults to the first stage) */
+  defaultStage?: string;
+  /** Other regions the API is deployed to */
+  regions?: string[];
+  /** Server description */
+  description?: string;
+}
+
+/**
+ * Describe an API Gateway deployment as a server with `{apiId}`, `{region}`
+ * and `{stage}` variables
+ *
+ * @param options - API ID, region and stages of the deployment
+ * @returns Server for `servers` in the configuration
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   servers: [
+ *     apiGatewayServer({
+ *       apiId: 'a1b2c3d4e5',
+ *       region: 'ap-northeast-1',
+ *       stages: ['dev', 'stg', 'prod'],
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function apiGatewayServer(
+  options: ApiGatewayServerOptions
+): ServerObject {
+  if (options.stages.length === 0) {
+    throw new Error('apiGatewayServer requires at least one stage');
+  }
+
+  const region: ServerVariableObject = {
+    default: options.region,
+    description: 'AWS region',
+  };
+  const otherRegions = (options.regions || []).filter(
+    name => name !== options.region
+  );
+  if (otherRegions.length > 0) {
+    region.enum = [options.region, ...otherRegions];
+  }
+
+  const server: ServerObject = {
+    url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}',
+    variables: {
+      apiId: { default: options.apiId, description: 'REST API ID' },
+      region,
+      stage: {
+        default: options.defaultStage || options.stages[0],
+        enum: options.stages,
+        description: 'API Gateway stage',
+      },
+    },
+  };
+
+  if (options.description) {
+    server.description = options.description;
+  }
+  return server;
+}
@@ -0,0 +1,259 @@
+import {
+  ConfigValidationResult,
+  ConfigValidationRule,
+  GeneratorConfig,
+} from '../types/config';
+import { DEFAULT_LAMBDA_ARN } from '../generator/api-gateway';
+
+/**
+ * Built-in configuration rules
+ */
+export const BUILT_IN_RULES: ConfigValidationRule[] = [
+  {
+    name: 'input-paths',
+    validate: config =>
+      Array.isArray(config.inputPaths) && config.inputPaths.length > 0,
+    message: 'inputPaths must contain at least one file, directory or glob',
+  },
+  {
+    name: 'info-title',
+    validate: config => !!config.info?.title?.trim(),
+    message: 'info.title is required',
+  },
+  {
+    name: 'info-version',
+    validate: config => !!config.info?.version?.trim(),
+    message: 'info.version is required',
+  },
+  {
+    name: 'server-url',
+    validate: config => invalidServerUrls(config).length === 0,
+    message: config =>
+      `Invalid server URL ${quoteAll(
+        invalidServerUrls(config)
+      )}; use an absolute http(s) URL or a path starting with /`,
+  },
+  {
+    name: 'server-variables',
+    validate: config => serverVariableProblems(config).length === 0,
+    message: config => serverVariableProblems(config).join('; '),
+  },
+  {
+    name: 'base-path',
+    validate: config =>
+      config.basePath === undefined || config.basePath.startsWith('/'),
+    message: config =>
+      `basePath "${config.basePath}" must start with a slash, e.g. "/${config.basePath}"`,
+  },
+  {
+    name: 'api-gateway-integration',
+    validate: config => missingApiGatewaySettings(config).length === 0,
+    message: config =>
+      `API Gateway extensions need ${missingApiGatewaySettings(config).join(
+        ' and '
+      )} to build integration URIs; set them, or set apiGateway.cloudFormation to reference \${AWS::Region} and \${AWS::AccountId} from a CloudFormation template`,
+  },
+  {
+    name: 'security-schemes',
+    severity: 'warning',
+    validate: config => undeclaredSchemes(config).length === 0,
+    message: config =>
+      `Global security refers to undeclared scheme ${quoteAll(
+        undeclaredSchemes(config)
+      )}; declare it in the securitySchemes of the configuration`,
+  },
+];
+
+// Custom rules registered in addition to the built-in ones
+let customRules: ConfigValidationRule[] = [];
+
+/**
+ * Validate a generator configuration
+ *
+ * The built-in rules, the registered custom rules and the given extra rules
+ * are applied in that order.
+ *
+ * @param config - Generator configuration
+ * @param rules - Extra rules for this validation only
+ * @returns Errors and warnings of all violated rules
+ */
+export function validateConfig(
+  config: GeneratorConfig,
+  rules: ConfigValidationRule[] = []
+): ConfigValidationResult {
+  const result: ConfigValidationResult = {
+    isValid: true,
+    errors: [],
+    warnings: [],
+  };
+
+  [...BUILT_IN_RULES, ...customRules, ...rules].forEach(rule => {
+    if (rule.validate(config)) {
+      return;
+    }
+
+    const issue = {
+      rule: rule.name,
+      message:
+        typeof rule.message === 'function'
+          ? rule.message(config)
+          : rule.message,
+    };
+    if (rule.severity === 'warning') {
+      result.warnings.push(issue);
+    } else {
+      result.errors.push(issue);
+    }
+  });
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Register a custom rule applied by every validation
+ *
+ * @param rule - Validation rule; a rule with the same name is replaced
+ */
+export function registerValidationRule(rule: ConfigValidationRule): void {
+  customRules = [
+    ...customRules.filter(existing => existing.name !== rule.name),
+    rule,
+  ];
+}
+
+/**
+ * Remove all registered custom rules (useful for testing)
+ */
+export function resetValidationRules(): void {
+  customRules = [];
+}
+
+/**
+ * Format the errors of a validation result as one message
+ *
+ * @param result - Validation result
+ * @returns Message listing every error with its rule name
+ */
+export function formatValidationErrors(result: ConfigValidationResult): string {
+  return [
+    'Invalid configuration:',
+    ...result.errors.map(error => `  - ${error.message} [${error.rule}]`),
+  ].join('\n');
+}
+
+/**
+ * Get server URLs that are neither absolute http(s) URLs nor paths
+ */
+function invalidServerUrls(config: GeneratorConfig): string[] {
+  return (config.servers || [])
+    .map(server => server.url)
+    .filter(url => !isValidServerUrl(url));
+}
+
+function isValidServerUrl(url: unknown): boolean {
+  if (typeof url !== 'string' || url.trim() === '') {
+    return false;
+  }
+
+  // Server variables such as {stage} are substituted before parsing
+  const expanded = url.replace(/\{[^{}]+\}/g, 'x');
+  if (expanded.startsWith('/')) {
+    return true;
+  }
+
+  try {
+    const { protocol } = new URL(expanded);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describe server URL placeholders without a variable and variables whose
+ * default is missing or not one of their enum values
+ */
+function serverVariableProblems(config: GeneratorConfig): string[] {
+  const problems: string[] = [];
+
+  (config.servers || []).forEach(server => {
+    if (typeof server.url !== 'string') {
+      return;
+    }
+    const variables = server.variables || {};
+
+    (server.url.match(/\{[^{}]+\}/g) || [])
+      .map(match => match.slice(1, -1))
+      .filter(name => !(name in variables))
+      .forEach(name =>
+        problems.push(
+          `Server "${server.url}" uses undeclared variable "${name}"; add it to variables`
+        )
+      );
+
+    Object.entries(variables).forEach(([name, variable]) => {
+      const label = `Server variable "${name}" of "${server.url}"`;
+      if (typeof variable?.default !== 'string') {
+        problems.push(`${label} needs a default value`);
+      } else if (variable.enum && variable.enum.length === 0) {
+        problems.push(`${label} has an empty enum`);
+      } else if (variable.enum && !variable.enum.includes(variable.default)) {
+        problems.push(
+          `${label} has default "${
+            variable.default
+          }", which is not one of ${quoteAll(variable.enum)}`
+        );
+      }
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Get the API Gateway settings a Lambda ARN template needs but the
+ * configuration lacks, when extensions are emitted outside CloudFormation
+ */
+function missingApiGatewaySettings(config: GeneratorConfig): string[] {
+  const apiGateway = config.apiGateway || {};
+  if (
+    !config.options?.includeLambdaExtensions ||
+    apiGateway.cloudFormation ||
+    typeof apiGateway.lambdaArn === 'function'
+  ) {
+    return [];
+  }
+
+  // A complete Lambda ARN names the region itself
+  const lambdaArn = apiGateway.lambdaArn || DEFAULT_LAMBDA_ARN;
+  const missing: string[] = [];
+  if (
+    !apiGateway.region &&
+    (lambdaArn.includes('{region}') || !lambdaArn.split(':')[3])
+  ) {
+    missing.push('apiGateway.region');
+  }
+  if (!apiGateway.accountId && lambdaArn.includes('{accountId}')) {
+    missing.push('apiGateway.accountId');
+  }
+  return missing;
+}
+
+/**
+ * Get scheme names of the global security that are not declared
+ */
+function undeclaredSchemes(config: GeneratorConfig): string[] {
+  const declared = config.securitySchemes || {};
+  const names = (config.security || []).flatMap(requirement =>
+    Object.keys(requirement)
+  );
+
+  return names.filter(
+    (name, index) => !(name in declared) && names.indexOf(name) === index
+  );
+}
+
+function quoteAll(values: string[]): string {
+  return values.map(value => `"${value}"`).join(', ');
+}
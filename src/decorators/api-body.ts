@@ -0,0 +1,70 @@
+import { ApiBodyOptions } from '../types/decorator-options';
+import { ApiBodyMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define API request body metadata
+ *
+ * @param options - Request body configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiBody({
+ *   description: 'User to create',
+ *   type: CreateUserRequest,
+ *   example: { name: 'John Doe', email: 'john@example.com' }
+ * })
+ * export const createUserHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiBody(options: ApiBodyOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object (an operation has a single request body)
+    const metadata: ApiBodyMetadata = {
+      description: options.description,
+      type: options.type,
+      required: options.required !== undefined ? options.required : true, // Request bodies are typically required
+      example: options.example,
+      content: options.content,
+      order: 0,
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.setBody(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiBody metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has request body metadata
+ */
+export function hasApiBody(target: any): boolean {
+  return MetadataManager.getBody(target) !== undefined;
+}
+
+/**
+ * Get ApiBody metadata from a function
+ *
+ * @param target - Target function
+ * @returns Request body metadata if exists, undefined otherwise
+ */
+export function getApiBody(target: any): ApiBodyMetadata | undefined {
+  return MetadataManager.getBody(target);
+}
@@ -0,0 +1,176 @@
+import {
+  ApiControllerDefault,
+  ApiControllerOptions,
+  TypeConstructor,
+} from '../types/decorator-options';
+import { ApiControllerMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { normalizeRoutePath } from './api-route';
+import {
+  DecoratorKey,
+  contextMetadata,
+  isDecoratorContext,
+  resolveHandler,
+} from './decorator-context';
+
+/**
+ * Every default a controller provides
+ */
+const CONTROLLER_DEFAULTS: ApiControllerDefault[] = [
+  'basePath',
+  'tags',
+  'security',
+  'responses',
+];
+
+/**
+ * Decorator to share defaults between the handler methods of a class
+ *
+ * The defaults are merged into the metadata of each decorated method, static
+ * or not: the base path prefixes its route, the tags and security apply
+ * when it declares none (a public method stays public), and the responses
+ * are added unless it declares the same status.
+ *
+ * @param options - Controller defaults
+ * @returns Class decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiController({
+ *   basePath: '/users',
+ *   tags: ['users'],
+ *   security: [{ type: 'http', scheme: 'bearer' }],
+ *   responses: [{ status: 500, description: 'Internal error' }]
+ * })
+ * export class UserHandlers {
+ *   @ApiOperation({ summary: 'Get user by ID' })
+ *   @ApiRoute({ method: 'GET', path: '/{userId}' })
+ *   static async getUser(event: APIGatewayProxyEvent) {
+ *     // implementation
+ *   }
+ * }
+ * ```
+ */
+export function ApiController(options: ApiControllerOptions = {}) {
+  return function <T extends TypeConstructor>(
+    target: T,
+    context?: ClassDecoratorContext
+  ): T {
+    // Create metadata object, a base path of "/" adding no prefix
+    const basePath =
+      options.basePath !== undefined
+        ? normalizeRoutePath(options.basePath)
+        : undefined;
+    const metadata: ApiControllerMetadata = {
+      className: target.name,
+      basePath: basePath !== '/' ? basePath : undefined,
+      tags: options.tags,
+      security: (options.security || []).map((security, order) => ({
+        ...security,
+        order,
+      })),
+      responses: (options.responses || []).map((response, order) => ({
+        ...response,
+        order,
+      })),
+    };
+
+    // Store metadata on the class and on each of its decorated methods
+    MetadataManager.setController(target, metadata);
+    controllerMethods(target, context).forEach(method =>
+      MetadataManager.setController(method, metadata)
+    );
+
+    return target;
+  };
+}
+
+/**
+ * Decorator to opt a method out of the defaults of its @ApiController
+ *
+ * @param defaults - Defaults to skip (all of them when omitted)
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiController({ basePath: '/users', tags: ['users'] })
+ * export class UserHandlers {
+ *   @ApiSkipControllerDefaults(['basePath'])
+ *   @ApiRoute({ method: 'GET', path: '/health' })
+ *   static async health() {
+ *     // implementation
+ *   }
+ * }
+ * ```
+ */
+export function ApiSkipControllerDefaults(
+  defaults: ApiControllerDefault[] = CONTROLLER_DEFAULTS
+) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.skipControllerDefaults(targetFunction, defaults);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a class or method has ApiController metadata
+ *
+ * @param target - Target class or method
+ * @returns True if the target has controller metadata
+ */
+export function hasApiController(target: any): boolean {
+  return MetadataManager.getController(target) !== undefined;
+}
+
+/**
+ * Get ApiController metadata from a class or one of its methods
+ *
+ * @param target - Target class or method
+ * @returns Controller metadata if exists, undefined otherwise
+ */
+export function getApiController(
+  target: any
+): ApiControllerMetadata | undefined {
+  return MetadataManager.getController(target);
+}
+
+/**
+ * Collect the static and instance methods of a class that carry API
+ * metadata, including those recorded in the class metadata by standard
+ * decorators
+ */
+function controllerMethods(
+  target: TypeConstructor,
+  context?: DecoratorKey
+): any[] {
+  const methods = new Set<any>();
+
+  [target, target.prototype].forEach(owner =>
+    Object.getOwnPropertyNames(owner).forEach(key => {
+      const member = Object.getOwnPropertyDescriptor(owner, key)?.value;
+      if (key !== 'constructor' && typeof member === 'function') {
+        methods.add(member);
+      }
+    })
+  );
+  if (isDecoratorContext(context)) {
+    MetadataManager.getMethods(target, contextMetadata(context)).forEach(
+      method => methods.add(method)
+    );
+  }
+
+  return Array.from(methods).filter(method =>
+    MetadataManager.hasMetadata(method)
+  );
+}
@@ -0,0 +1,88 @@
+import { ApiCookieOptions } from '../types/decorator-options';
+import { ApiCookieMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define API cookie parameter metadata
+ *
+ * @param options - Cookie configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiCookie({
+ *   name: 'session',
+ *   description: 'Session identifier',
+ *   required: true
+ * })
+ * export const getCartHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiCookie(options: ApiCookieOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with ordering
+    const metadata: ApiCookieMetadata = {
+      name: options.name,
+      description: options.description,
+      required: options.required !== undefined ? options.required : false,
+      type: options.type,
+      example: options.example,
+      enum: options.enum,
+      deprecated: options.deprecated,
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.addCookie(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiCookie metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has cookie metadata
+ */
+export function hasApiCookie(target: any): boolean {
+  return MetadataManager.getCookies(target).length > 0;
+}
+
+/**
+ * Get all ApiCookie metadata from a function
+ *
+ * @param target - Target function
+ * @returns Array of cookie metadata
+ */
+export function getApiCookies(target: any): ApiCookieMetadata[] {
+  return MetadataManager.getCookies(target);
+}
+
+/**
+ * Get ApiCookie metadata for a specific cookie name
+ *
+ * @param target - Target function
+ * @param name - Cookie name
+ * @returns Cookie metadata if exists, undefined otherwise
+ */
+export function getApiCookie(
+  target: any,
+  name: string
+): ApiCookieMetadata | undefined {
+  return MetadataManager.getCookies(target).find(
+    cookie => cookie.name === name
+  );
+}
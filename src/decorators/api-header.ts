@@ -0,0 +1,93 @@
+import { ApiHeaderOptions } from '../types/decorator-options';
+import { ApiHeaderMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define API request header metadata
+ *
+ * Header names are case-insensitive: declaring the same header twice on a
+ * handler, in any case, throws.
+ *
+ * @param options - Request header configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiHeader({
+ *   name: 'Idempotency-Key',
+ *   description: 'Key making retried requests safe',
+ *   required: true,
+ *   type: 'string',
+ *   example: '8e03978e-40d5-43e8-bc93-6894a57f9324'
+ * })
+ * export const createOrderHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiHeader(options: ApiHeaderOptions & { name: string }) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with ordering
+    const metadata: ApiHeaderMetadata = {
+      name: options.name,
+      description: options.description,
+      required: options.required !== undefined ? options.required : false,
+      type: options.type,
+      example: options.example,
+      enum: options.enum,
+      deprecated: options.deprecated,
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.addHeader(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiHeader metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has request header metadata
+ */
+export function hasApiHeader(target: any): boolean {
+  return MetadataManager.getHeaders(target).length > 0;
+}
+
+/**
+ * Get all ApiHeader metadata from a function
+ *
+ * @param target - Target function
+ * @returns Array of request header metadata
+ */
+export function getApiHeaders(target: any): ApiHeaderMetadata[] {
+  return MetadataManager.getHeaders(target);
+}
+
+/**
+ * Get ApiHeader metadata for a specific header name (case-insensitive)
+ *
+ * @param target - Target function
+ * @param name - Header name
+ * @returns Request header metadata if exists, undefined otherwise
+ */
+export function getApiHeader(
+  target: any,
+  name: string
+): ApiHeaderMetadata | undefined {
+  return MetadataManager.getHeaders(target).find(
+    header => header.name.toLowerCase() === name.toLowerCase()
+  );
+}
@@ -1,6 +1,7 @@
 import { ApiOperationOptions } from '../types/decorator-options';
 import { ApiOperationMetadata } from '../types/internal';
 import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, memberName, resolveHandler } from './decorator-context';
 
 /**
  * Decorator to define API operation metadata
@@ -23,16 +24,11 @@ import { MetadataManager } from '../utils/metadata';
 export function ApiOperation(options: ApiOperationOptions) {
   return function (
     target: any,
-    propertyKey?: string | symbol,
+    propertyKey?: DecoratorKey,
     descriptor?: PropertyDescriptor
   ) {
-    // Get the function name from the property key or function name
-    let functionName: string;
-    if (propertyKey) {
-      functionName = String(propertyKey);
-    } else {
-      functionName = target.name || 'anonymous';
-    }
+    // Get the function name from the member name or function name
+    const functionName = memberName(propertyKey) || target.name || 'anonymous';
 
     // Create metadata object
     const metadata: ApiOperationMetadata = {
@@ -45,7 +41,7 @@ export function ApiOperation(options: ApiOperationOptions) {
     };
 
     // Store metadata on the target (function or class method)
-    const targetFunction = descriptor?.value || target;
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
     MetadataManager.setOperation(targetFunction, metadata);
 
     // Return the target for function decorators, descriptor for method decorators
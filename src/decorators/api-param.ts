@@ -1,9 +1,8 @@
 import { ApiParamOptions } from '../types/decorator-options';
 import { ApiParamMetadata } from '../types/internal';
 import { MetadataManager } from '../utils/metadata';
-
-// Global counter for ordering parameters
-let paramOrder = 0;
+import { MetadataRegistry } from '../utils/metadata-registry';
+import { DecoratorKey, resolveHandler } from './decorator-context';
 
 /**
  * Decorator to define API path parameter metadata
@@ -33,7 +32,7 @@ let paramOrder = 0;
 export function ApiParam(options: ApiParamOptions) {
   return function (
     target: any,
-    propertyKey?: string | symbol,
+    propertyKey?: DecoratorKey,
     descriptor?: PropertyDescriptor
   ) {
     // Create metadata object with ordering
@@ -46,11 +45,11 @@ export function ApiParam(options: ApiParamOptions) {
       enum: options.enum,
       deprecated: options.deprecated,
       in: 'path', // Path parameters are always in the path
-      order: paramOrder++,
+      order: MetadataManager.nextOrder(),
     };
 
     // Store metadata on the target (function or class method)
-    const targetFunction = descriptor?.value || target;
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
     MetadataManager.addParam(targetFunction, metadata);
 
     // Return the target for function decorators, descriptor for method decorators
@@ -97,7 +96,12 @@ export function getApiParam(
 
 /**
  * Reset the parameter order counter (useful for testing)
+ *
+ * Parameters are ordered by the active metadata registry, so this restarts
+ * the ordering of every decorator in it.
+ *
+ * @deprecated Use `MetadataRegistry.current().resetOrder()`
  */
 export function resetParamOrder(): void {
-  paramOrder = 0;
+  MetadataRegistry.current().resetOrder();
 }
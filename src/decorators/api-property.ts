@@ -0,0 +1,105 @@
+import 'reflect-metadata';
+import { ApiPropertyOptions } from '../types/decorator-options';
+import { ApiPropertyMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import {
+  DecoratorKey,
+  contextMetadata,
+  isDecoratorContext,
+  memberName,
+} from './decorator-context';
+
+/**
+ * Decorator to describe a property of a schema class
+ *
+ * The property type is read from `design:type` (requires
+ * `emitDecoratorMetadata`, which standard decorators do not support) unless
+ * `type` is given. Classes passed as `type`
+ * to other decorators are turned into object schemas from these properties.
+ *
+ * @param options - Property configuration options
+ * @returns Property decorator function
+ *
+ * @example
+ * ```typescript
+ * class User {
+ *   @ApiProperty({ format: 'uuid' })
+ *   id!: string;
+ *
+ *   @ApiProperty({ type: 'array', items: 'string' })
+ *   roles!: string[];
+ *
+ *   @ApiPropertyOptional({ minimum: 0 })
+ *   age?: number;
+ * }
+ * ```
+ */
+export function ApiProperty(options: ApiPropertyOptions = {}) {
+  return function (target: any, propertyKey: DecoratorKey) {
+    // Create metadata object with ordering
+    const metadata: ApiPropertyMetadata = {
+      ...options,
+      name: memberName(propertyKey) as string,
+      required: options.required !== undefined ? options.required : true,
+      designType: isDecoratorContext(propertyKey)
+        ? undefined
+        : Reflect.getMetadata('design:type', target, propertyKey),
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the class constructor
+    MetadataManager.addProperty(propertyOwner(target, propertyKey), metadata);
+  };
+}
+
+/**
+ * Decorator to describe an optional property of a schema class
+ *
+ * @param options - Property configuration options
+ * @returns Property decorator function
+ */
+export function ApiPropertyOptional(
+  options: Omit<ApiPropertyOptions, 'required'> = {}
+) {
+  return ApiProperty({ ...options, required: false });
+}
+
+/**
+ * Check if a class has ApiProperty metadata
+ *
+ * @param target - Target class to check
+ * @returns True if the class has property metadata
+ */
+export function hasApiProperties(target: any): boolean {
+  return MetadataManager.getProperties(target).length > 0;
+}
+
+/**
+ * Get all ApiProperty metadata from a class
+ *
+ * @param target - Target class
+ * @returns Array of property metadata
+ */
+export function getApiProperties(target: any): ApiPropertyMetadata[] {
+  return MetadataManager.getProperties(target);
+}
+
+/**
+ * Get the object property metadata is stored on: the class constructor
+ * under legacy semantics, the class metadata under standard semantics
+ */
+function propertyOwner(target: any, propertyKey: DecoratorKey): any {
+  if (!isDecoratorContext(propertyKey)) {
+    return target.constructor;
+  }
+
+  const classMetadata = contextMetadata(propertyKey);
+  if (!classMetadata) {
+    throw new Error(
+      `@ApiProperty on "${String(
+        propertyKey.name
+      )}" needs decorator metadata (context.metadata), which standard decorators provide from TypeScript 5.2`
+    );
+  }
+  return classMetadata;
+}
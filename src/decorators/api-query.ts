@@ -0,0 +1,93 @@
+import { ApiQueryOptions } from '../types/decorator-options';
+import { ApiQueryMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define API query parameter metadata
+ *
+ * @param options - Query parameter configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiQuery({
+ *   name: 'limit',
+ *   description: 'Maximum number of items to return',
+ *   type: 'integer',
+ *   example: 20
+ * })
+ * @ApiQuery({
+ *   name: 'status',
+ *   description: 'Filter by status',
+ *   enum: ['active', 'inactive']
+ * })
+ * export const listUsersHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiQuery(options: ApiQueryOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with ordering
+    const metadata: ApiQueryMetadata = {
+      name: options.name,
+      description: options.description,
+      required: options.required !== undefined ? options.required : false, // Query params are typically optional
+      type: options.type,
+      example: options.example,
+      enum: options.enum,
+      deprecated: options.deprecated,
+      allowEmptyValue: options.allowEmptyValue,
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.addQuery(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiQuery metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has query parameter metadata
+ */
+export function hasApiQuery(target: any): boolean {
+  return MetadataManager.getQueries(target).length > 0;
+}
+
+/**
+ * Get all ApiQuery metadata from a function
+ *
+ * @param target - Target function
+ * @returns Array of query parameter metadata
+ */
+export function getApiQueries(target: any): ApiQueryMetadata[] {
+  return MetadataManager.getQueries(target);
+}
+
+/**
+ * Get ApiQuery metadata for a specific query parameter name
+ *
+ * @param target - Target function
+ * @param name - Query parameter name
+ * @returns Query parameter metadata if exists, undefined otherwise
+ */
+export function getApiQuery(
+  target: any,
+  name: string
+): ApiQueryMetadata | undefined {
+  return MetadataManager.getQueries(target).find(query => query.name === name);
+}
@@ -1,9 +1,8 @@
 import { ApiResponseOptions } from '../types/decorator-options';
 import { ApiResponseMetadata } from '../types/internal';
 import { MetadataManager } from '../utils/metadata';
-
-// Global counter for ordering responses
-let responseOrder = 0;
+import { MetadataRegistry } from '../utils/metadata-registry';
+import { DecoratorKey, resolveHandler } from './decorator-context';
 
 /**
  * Decorator to define API response metadata
@@ -30,7 +29,7 @@ let responseOrder = 0;
 export function ApiResponse(options: ApiResponseOptions) {
   return function (
     target: any,
-    propertyKey?: string | symbol,
+    propertyKey?: DecoratorKey,
     descriptor?: PropertyDescriptor
   ) {
     // Create metadata object with ordering
@@ -41,11 +40,11 @@ export function ApiResponse(options: ApiResponseOptions) {
       example: options.example,
       headers: options.headers,
       content: options.content,
-      order: responseOrder++,
+      order: MetadataManager.nextOrder(),
     };
 
     // Store metadata on the target (function or class method)
-    const targetFunction = descriptor?.value || target;
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
     MetadataManager.addResponse(targetFunction, metadata);
 
     // Return the target for function decorators, descriptor for method decorators
@@ -94,7 +93,12 @@ export function getApiResponse(
 
 /**
  * Reset the response order counter (useful for testing)
+ *
+ * Kept for existing callers: responses take their order from the active
+ * metadata registry, which this restarts for all decorators at once.
+ *
+ * @deprecated Use `MetadataRegistry.current().resetOrder()`
  */
 export function resetResponseOrder(): void {
-  responseOrder = 0;
+  MetadataRegistry.current().resetOrder();
 }
@@ -0,0 +1,74 @@
+import { ApiRouteOptions, HttpMethod } from '../types/decorator-options';
+import { ApiRouteMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define the HTTP method and path of an API operation
+ *
+ * When no route is declared the generator falls back to deriving the
+ * method and path from the handler name.
+ *
+ * @param options - Route configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiRoute({ method: 'get', path: '/users/{userId}' })
+ * @ApiParam({ name: 'userId', type: 'string' })
+ * export const getUserHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiRoute(options: ApiRouteOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with normalized method and path
+    const metadata: ApiRouteMetadata = {
+      method: options.method.toLowerCase() as HttpMethod,
+      path: normalizeRoutePath(options.path),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.setRoute(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiRoute metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has route metadata
+ */
+export function hasApiRoute(target: any): boolean {
+  return MetadataManager.getRoute(target) !== undefined;
+}
+
+/**
+ * Get ApiRoute metadata from a function
+ *
+ * @param target - Target function
+ * @returns Route metadata if exists, undefined otherwise
+ */
+export function getApiRoute(target: any): ApiRouteMetadata | undefined {
+  return MetadataManager.getRoute(target);
+}
+
+/**
+ * Ensure a leading slash and strip any trailing slash from a route path
+ */
+export function normalizeRoutePath(path: string): string {
+  const trimmed = path.trim().replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
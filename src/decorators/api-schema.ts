@@ -0,0 +1,47 @@
+import { ApiSchemaOptions, TypeConstructor } from '../types/decorator-options';
+import { ApiSchemaMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+
+/**
+ * Decorator to name and describe a schema class
+ *
+ * Schema classes are registered in `components.schemas` under their class
+ * name. Use `name` to resolve collisions between classes that share a name.
+ *
+ * @param options - Schema configuration options
+ * @returns Class decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiSchema({ name: 'AdminUser', description: 'User with admin rights' })
+ * class User {
+ *   @ApiProperty()
+ *   id!: string;
+ * }
+ * ```
+ */
+export function ApiSchema(options: ApiSchemaOptions = {}) {
+  return function <T extends TypeConstructor>(target: T): T {
+    // Create metadata object
+    const metadata: ApiSchemaMetadata = {
+      className: target.name,
+      name: options.name,
+      description: options.description,
+    };
+
+    // Store metadata on the class constructor
+    MetadataManager.setSchema(target, metadata);
+
+    return target;
+  };
+}
+
+/**
+ * Get ApiSchema metadata from a class
+ *
+ * @param target - Target class
+ * @returns Schema metadata if exists, undefined otherwise
+ */
+export function getApiSchema(target: any): ApiSchemaMetadata | undefined {
+  return MetadataManager.getSchema(target);
+}
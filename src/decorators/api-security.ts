@@ -0,0 +1,130 @@
+import { ApiSecurityOptions } from '../types/decorator-options';
+import { ApiSecurityMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to define API security requirements
+ *
+ * Each decorator adds an alternative security requirement to the operation.
+ * The scheme itself is registered in `components.securitySchemes` under
+ * `schemeName`, or under a name derived from its type when omitted.
+ *
+ * @param options - Security scheme configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiSecurity({ type: 'apiKey', name: 'x-api-key', in: 'header' })
+ * @ApiSecurity({
+ *   type: 'oauth2',
+ *   schemeName: 'cognito',
+ *   scopes: ['users/read'],
+ *   flows: {
+ *     clientCredentials: {
+ *       tokenUrl: 'https://auth.example.com/oauth2/token',
+ *       scopes: { 'users/read': 'Read users' }
+ *     }
+ *   }
+ * })
+ * export const getUserHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiSecurity(options: ApiSecurityOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with ordering
+    const metadata: ApiSecurityMetadata = {
+      type: options.type,
+      name: options.name,
+      in: options.in,
+      scheme: options.scheme,
+      bearerFormat: options.bearerFormat,
+      scopes: options.scopes,
+      openIdConnectUrl: options.openIdConnectUrl,
+      description: options.description,
+      flows: options.flows,
+      schemeName: options.schemeName,
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.addSecurity(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Decorator to mark an API operation as public
+ *
+ * Public operations are emitted with `security: []`, overriding the global
+ * `GeneratorConfig.security` requirements.
+ *
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiPublic()
+ * export const healthCheckHandler = async () => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiPublic() {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.setPublic(targetFunction);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiSecurity metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has security metadata
+ */
+export function hasApiSecurity(target: any): boolean {
+  return MetadataManager.getSecurity(target).length > 0;
+}
+
+/**
+ * Get all ApiSecurity metadata from a function
+ *
+ * @param target - Target function
+ * @returns Array of security metadata
+ */
+export function getApiSecurity(target: any): ApiSecurityMetadata[] {
+  return MetadataManager.getSecurity(target);
+}
+
+/**
+ * Check if a function is marked as public
+ *
+ * @param target - Target function to check
+ * @returns True if the function is marked with @ApiPublic
+ */
+export function isApiPublic(target: any): boolean {
+  return MetadataManager.isPublic(target);
+}
@@ -0,0 +1,70 @@
+import { ApiTagOptions } from '../types/decorator-options';
+import { ApiTagMetadata } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+import { DecoratorKey, resolveHandler } from './decorator-context';
+
+/**
+ * Decorator to tag an API operation
+ *
+ * The tag is added to the operation's `tags`, and its description and
+ * external docs are merged into the top-level `tags` of the document.
+ *
+ * @param options - Tag configuration options
+ * @returns Method decorator function
+ *
+ * @example
+ * ```typescript
+ * @ApiTag({
+ *   name: 'users',
+ *   description: 'User management operations'
+ * })
+ * export const getUserHandler = async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * };
+ * ```
+ */
+export function ApiTag(options: ApiTagOptions) {
+  return function (
+    target: any,
+    propertyKey?: DecoratorKey,
+    descriptor?: PropertyDescriptor
+  ) {
+    // Create metadata object with ordering
+    const metadata: ApiTagMetadata = {
+      name: options.name,
+      description: options.description,
+      externalDocs: options.externalDocs,
+      order: MetadataManager.nextOrder(),
+    };
+
+    // Store metadata on the target (function or class method)
+    const targetFunction = resolveHandler(target, propertyKey, descriptor);
+    MetadataManager.addTag(targetFunction, metadata);
+
+    // Return the target for function decorators, descriptor for method decorators
+    if (descriptor) {
+      return descriptor;
+    }
+    return target;
+  };
+}
+
+/**
+ * Check if a function has ApiTag metadata
+ *
+ * @param target - Target function to check
+ * @returns True if the function has tag metadata
+ */
+export function hasApiTag(target: any): boolean {
+  return MetadataManager.getTags(target).length > 0;
+}
+
+/**
+ * Get all ApiTag metadata from a function
+ *
+ * @param target - Target function
+ * @returns Array of tag metadata
+ */
+export function getApiTags(target: any): ApiTagMetadata[] {
+  return MetadataManager.getTags(target);
+}
@@ -0,0 +1,81 @@
+import { MetadataManager } from '../utils/metadata';
+
+/**
+ * Second argument of a decorator: the property key under legacy
+ * (`experimentalDecorators`) semantics, or the context object under
+ * standard (TC39) semantics
+ */
+export type DecoratorKey = string | symbol | DecoratorContext;
+
+/**
+ * Check whether a decorator was applied with standard semantics
+ *
+ * @param key - Second argument the decorator received
+ * @returns True if the argument is a standard decorator context
+ */
+export function isDecoratorContext(key: unknown): key is DecoratorContext {
+  return typeof key === 'object' && key !== null && 'kind' in key;
+}
+
+/**
+ * Get the name of the decorated class member, if any
+ *
+ * @param key - Second argument the decorator received
+ * @returns Member name, undefined for functions and classes
+ */
+export function memberName(key?: DecoratorKey): string | undefined {
+  if (isDecoratorContext(key)) {
+    return key.kind === 'class' ? undefined : String(key.name);
+  }
+  return key !== undefined ? String(key) : undefined;
+}
+
+/**
+ * Get the metadata object standard decorators share per class
+ *
+ * It is only provided by TypeScript 5.2 and later, and becomes the class's
+ * `Symbol.metadata` once the class is defined.
+ *
+ * @param context - Standard decorator context
+ * @returns Class metadata object if provided, undefined otherwise
+ */
+export function contextMetadata(context: DecoratorContext): object | undefined {
+  return (context as { metadata?: object | null }).metadata || undefined;
+}
+
+/**
+ * Resolve the function a handler decorator stores its metadata on
+ *
+ * Under legacy semantics this is the method of the property descriptor or
+ * the decorated function itself. Under standard semantics it is the
+ * decorated method, which is also recorded in the class metadata so that
+ * discovery finds it through the class, even when it is private.
+ *
+ * @param target - First argument the decorator received
+ * @param key - Second argument the decorator received
+ * @param descriptor - Property descriptor of legacy method decorators
+ * @returns The handler function
+ */
+export function resolveHandler(
+  target: any,
+  key?: DecoratorKey,
+  descriptor?: PropertyDescriptor
+): any {
+  if (!isDecoratorContext(key)) {
+    return descriptor?.value || target;
+  }
+
+  if (key.kind !== 'method') {
+    throw new Error(
+      `API handler decorators apply to functions and methods, not to the ${
+        key.kind
+      } "${String(key.name)}"`
+    );
+  }
+
+  const classMetadata = contextMetadata(key);
+  if (classMetadata) {
+    MetadataManager.addMethod(classMetadata, String(key.name), target);
+  }
+  return target;
+}
@@ -4,6 +4,7 @@ export {
   hasApiOperation,
   getApiOperation,
 } from './api-operation';
+export { ApiRoute, hasApiRoute, getApiRoute } from './api-route';
 export {
   ApiResponse,
   hasApiResponse,
@@ -18,8 +19,39 @@ export {
   getApiParam,
   resetParamOrder,
 } from './api-param';
-// TODO: Implement remaining decorators
-// export { ApiQuery } from './api-query';
-// export { ApiBody } from './api-body';
-// export { ApiSecurity } from './api-security';
-// export { ApiTag } from './api-tag';
+export { ApiQuery, hasApiQuery, getApiQueries, getApiQuery } from './api-query';
+export {
+  ApiHeader,
+  hasApiHeader,
+  getApiHeaders,
+  getApiHeader,
+} from './api-header';
+export {
+  ApiCookie,
+  hasApiCookie,
+  getApiCookies,
+  getApiCookie,
+} from './api-cookie';
+export { ApiBody, hasApiBody, getApiBody } from './api-body';
+export {
+  ApiSecurity,
+  ApiPublic,
+  hasApiSecurity,
+  getApiSecurity,
+  isApiPublic,
+} from './api-security';
+export { ApiTag, hasApiTag, getApiTags } from './api-tag';
+export {
+  ApiProperty,
+  ApiPropertyOptional,
+  hasApiProperties,
+  getApiProperties,
+} from './api-property';
+export { ApiSchema, getApiSchema } from './api-schema';
+export {
+  ApiController,
+  ApiSkipControllerDefaults,
+  hasApiController,
+  getApiController,
+} from './api-controller';
+export { withOpenApi, openApi, OpenApiBuilder } from './with-openapi';
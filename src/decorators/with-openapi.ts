@@ -0,0 +1,184 @@
+import {
+  ApiBodyOptions,
+  ApiCookieOptions,
+  ApiHeaderOptions,
+  ApiOperationOptions,
+  ApiParamOptions,
+  ApiQueryOptions,
+  ApiResponseOptions,
+  ApiRouteOptions,
+  ApiSecurityOptions,
+  ApiTagOptions,
+  WithOpenApiOptions,
+} from '../types/decorator-options';
+import { ApiOperation } from './api-operation';
+import { ApiRoute } from './api-route';
+import { ApiParam } from './api-param';
+import { ApiQuery } from './api-query';
+import { ApiHeader } from './api-header';
+import { ApiCookie } from './api-cookie';
+import { ApiBody } from './api-body';
+import { ApiResponse } from './api-response';
+import { ApiSecurity, ApiPublic } from './api-security';
+import { ApiTag } from './api-tag';
+
+/**
+ * Attach API metadata to a handler without decorator syntax
+ *
+ * Each option is applied with the matching decorator, so the handler ends up
+ * with exactly the metadata the decorators would store. List entries are
+ * applied in order. Arrow functions passed inline have no name of their own;
+ * set `name`, or let discovery name them after their export.
+ *
+ * @param handler - Handler function
+ * @param options - Metadata, one entry per decorator
+ * @returns The handler itself, with its type unchanged
+ *
+ * @example
+ * ```typescript
+ * export const getUserHandler = withOpenApi(
+ *   async (event: APIGatewayProxyEvent) => {
+ *     // implementation
+ *   },
+ *   {
+ *     operation: { summary: 'Get user by ID' },
+ *     route: { method: 'get', path: '/users/{userId}' },
+ *     params: [{ name: 'userId', type: 'string' }],
+ *     responses: [{ status: 200, description: 'User found', type: User }],
+ *   }
+ * );
+ * ```
+ */
+export function withOpenApi<T extends (...args: any[]) => any>(
+  handler: T,
+  options: WithOpenApiOptions
+): T {
+  const builder = openApi(handler, options.name).operation(options.operation);
+
+  if (options.route) {
+    builder.route(options.route);
+  }
+  (options.params || []).forEach(param => builder.param(param));
+  (options.queries || []).forEach(query => builder.query(query));
+  (options.headers || []).forEach(header => builder.header(header));
+  (options.cookies || []).forEach(cookie => builder.cookie(cookie));
+  if (options.body) {
+    builder.body(options.body);
+  }
+  (options.responses || []).forEach(response => builder.response(response));
+  (options.security || []).forEach(security => builder.security(security));
+  if (options.public) {
+    builder.public();
+  }
+  (options.tags || []).forEach(tag => builder.tag(tag));
+
+  return builder.build();
+}
+
+/**
+ * Start a chainable description of a handler
+ *
+ * @param handler - Handler function
+ * @param name - Handler name used for derived paths and operation IDs
+ *   (defaults to the function name)
+ * @returns Builder applying one decorator per call
+ *
+ * @example
+ * ```typescript
+ * export const getUserHandler = openApi(async (event: APIGatewayProxyEvent) => {
+ *   // implementation
+ * })
+ *   .operation({ summary: 'Get user by ID' })
+ *   .route({ method: 'get', path: '/users/{userId}' })
+ *   .param({ name: 'userId', type: 'string' })
+ *   .response({ status: 200, description: 'User found', type: User })
+ *   .build();
+ * ```
+ */
+export function openApi<T extends (...args: any[]) => any>(
+  handler: T,
+  name?: string
+): OpenApiBuilder<T> {
+  return new OpenApiBuilder(handler, name);
+}
+
+/**
+ * Chainable counterpart of the decorators
+ *
+ * Every call stores its metadata on the handler right away; `build()`
+ * returns the handler.
+ */
+export class OpenApiBuilder<T extends (...args: any[]) => any> {
+  constructor(private handler: T, private name?: string) {}
+
+  /** Operation metadata, as for @ApiOperation */
+  operation(options: ApiOperationOptions): this {
+    return this.apply(ApiOperation(options));
+  }
+
+  /** HTTP method and path, as for @ApiRoute */
+  route(options: ApiRouteOptions): this {
+    return this.apply(ApiRoute(options));
+  }
+
+  /** Path parameter, as for @ApiParam */
+  param(options: ApiParamOptions): this {
+    return this.apply(ApiParam(options));
+  }
+
+  /** Query parameter, as for @ApiQuery */
+  query(options: ApiQueryOptions): this {
+    return this.apply(ApiQuery(options));
+  }
+
+  /** Request header, as for @ApiHeader */
+  header(options: ApiHeaderOptions & { name: string }): this {
+    return this.apply(ApiHeader(options));
+  }
+
+  /** Cookie, as for @ApiCookie */
+  cookie(options: ApiCookieOptions): this {
+    return this.apply(ApiCookie(options));
+  }
+
+  /** Request body, as for @ApiBody */
+  body(options: ApiBodyOptions): this {
+    return this.apply(ApiBody(options));
+  }
+
+  /** Response, as for @ApiResponse */
+  response(options: ApiResponseOptions): this {
+    return this.apply(ApiResponse(options));
+  }
+
+  /** Security requirement, as for @ApiSecurity */
+  security(options: ApiSecurityOptions): this {
+    return this.apply(ApiSecurity(options));
+  }
+
+  /** Mark the operation as public, as @ApiPublic does */
+  public(): this {
+    return this.apply(ApiPublic());
+  }
+
+  /** Tag with description, as for @ApiTag */
+  tag(options: ApiTagOptions): this {
+    return this.apply(ApiTag(options));
+  }
+
+  /** Get the described handler */
+  build(): T {
+    return this.handler;
+  }
+
+  /**
+   * Apply a decorator to the handler, passing the handler name as the
+   * property key so that @ApiOperation records it
+   */
+  private apply(
+    decorator: (target: any, propertyKey?: string | symbol) => unknown
+  ): this {
+    decorator(this.handler, this.name);
+    return this;
+  }
+}
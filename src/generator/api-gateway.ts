@@ -0,0 +1,287 @@
+import {
+  OpenAPISpec,
+  OperationObject,
+  ParameterObject,
+  PathItemObject,
+} from '../types/openapi';
+import { ApiGatewayConfig, ApiGatewayResponse } from '../types/config';
+import { HTTP_METHODS } from '../types/decorator-options';
+import { OperationSource } from './spec-validator';
+
+/**
+ * Lambda function ARN used when `apiGateway.lambdaArn` is not configured
+ */
+export const DEFAULT_LAMBDA_ARN =
+  'arn:aws:lambda:{region}:{accountId}:function:{functionName}';
+
+/**
+ * Request headers allowed by CORS preflight responses by default
+ */
+export const DEFAULT_CORS_HEADERS = [
+  'Content-Type',
+  'X-Amz-Date',
+  'Authorization',
+  'X-Api-Key',
+  'X-Amz-Security-Token',
+];
+
+/**
+ * CORS settings with defaults applied
+ */
+interface CorsSettings {
+  allowOrigin: string;
+  allowHeaders: string[];
+  allowCredentials: boolean;
+  maxAge?: number;
+}
+
+const REQUEST_VALIDATORS = {
+  all: { validateRequestBody: true, validateRequestParameters: true },
+  body: { validateRequestBody: true, validateRequestParameters: false },
+  params: { validateRequestBody: false, validateRequestParameters: true },
+};
+
+/**
+ * Add the `x-amazon-apigateway-*` extensions API Gateway reads on import
+ *
+ * Every handler operation gets an `aws_proxy` integration invoking its
+ * Lambda function. Request validators, binary media types and gateway
+ * responses are added at the top level. With CORS enabled, each path without
+ * an OPTIONS operation gets a mock integration answering preflight requests,
+ * and the default 4XX/5XX gateway responses carry the allowed origin.
+ *
+ * @param spec - Generated specification, extended in place
+ * @param config - API Gateway settings
+ * @param sources - Handlers of the operations
+ */
+export function addApiGatewayExtensions(
+  spec: OpenAPISpec,
+  config: ApiGatewayConfig = {},
+  sources: Map<OperationObject, OperationSource>
+): void {
+  Object.entries(spec.paths).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach(method => {
+      const operation = (pathItem as any)[method] as
+        | OperationObject
+        | undefined;
+      const source = operation && sources.get(operation);
+      if (source) {
+        operation!['x-amazon-apigateway-integration'] = lambdaIntegration(
+          config,
+          { ...source, operationId: operation!.operationId, path, method }
+        );
+      }
+    });
+  });
+
+  const validator = config.requestValidator || 'all';
+  if (validator !== 'none') {
+    spec['x-amazon-apigateway-request-validators'] = REQUEST_VALIDATORS;
+    spec['x-amazon-apigateway-request-validator'] = validator;
+  }
+
+  if (config.binaryMediaTypes && config.binaryMediaTypes.length > 0) {
+    spec['x-amazon-apigateway-binary-media-types'] = config.binaryMediaTypes;
+  }
+
+  const cors = corsSettings(config.cors);
+  const gatewayResponses: Record<string, ApiGatewayResponse> = {};
+  if (cors) {
+    Object.values(spec.paths).forEach(pathItem =>
+      addPreflightOperation(pathItem, cors)
+    );
+    ['DEFAULT_4XX', 'DEFAULT_5XX'].forEach(type => {
+      gatewayResponses[type] = {
+        responseParameters: {
+          'gatewayresponse.header.Access-Control-Allow-Origin': quote(
+            cors.allowOrigin
+          ),
+        },
+      };
+    });
+  }
+  Object.assign(gatewayResponses, config.gatewayResponses);
+
+  if (Object.keys(gatewayResponses).length > 0) {
+    spec['x-amazon-apigateway-gateway-responses'] = gatewayResponses;
+  }
+}
+
+/**
+ * Build the Lambda proxy integration of an operation
+ */
+function lambdaIntegration(
+  config: ApiGatewayConfig,
+  operation: {
+    functionName: string;
+    operationId?: string;
+    path: string;
+    method: string;
+  }
+): Record<string, unknown> {
+  const placeholders: Record<'region' | 'accountId', string | undefined> = {
+    region: config.region,
+    accountId: config.accountId,
+  };
+  if (config.cloudFormation) {
+    placeholders.region = placeholders.region || '${AWS::Region}';
+    placeholders.accountId = placeholders.accountId || '${AWS::AccountId}';
+  }
+  const required = (name: 'region' | 'accountId'): string => {
+    const value = placeholders[name];
+    if (!value) {
+      throw new Error(
+        `API Gateway integration of handler "${operation.functionName}" needs apiGateway.${name}; set it, or set apiGateway.cloudFormation to reference the CloudFormation pseudo parameters`
+      );
+    }
+    return value;
+  };
+
+  const lambdaArn =
+    typeof config.lambdaArn === 'function'
+      ? config.lambdaArn(operation)
+      : (config.lambdaArn || DEFAULT_LAMBDA_ARN).replace(
+          /\{(functionName|operationId|region|accountId)\}/g,
+          (_, name: string) =>
+            name === 'region' || name === 'accountId'
+              ? required(name)
+              : name === 'functionName'
+              ? operation.functionName
+              : operation.operationId || operation.functionName
+        );
+  // Integrate in the region of the Lambda function unless configured
+  const region =
+    placeholders.region || lambdaArn.split(':')[3] || required('region');
+
+  // CloudFormation substitutes pseudo parameters only within Fn::Sub
+  const uri = `arn:aws:apigateway:${region}:lambda:path/2015-03-31/functions/${lambdaArn}/invocations`;
+  const integration: Record<string, unknown> = {
+    type: 'aws_proxy',
+    httpMethod: 'POST',
+    uri: config.cloudFormation ? { 'Fn::Sub': uri } : uri,
+    passthroughBehavior: 'when_no_match',
+  };
+  if (config.timeoutInMillis !== undefined) {
+    integration.timeoutInMillis = config.timeoutInMillis;
+  }
+  return integration;
+}
+
+/**
+ * Add an OPTIONS operation answering CORS preflight requests with a mock
+ * integration, unless the path already has one
+ */
+function addPreflightOperation(
+  pathItem: PathItemObject,
+  cors: CorsSettings
+): void {
+  if (pathItem.options) {
+    return;
+  }
+
+  const operations = HTTP_METHODS.map(
+    method => [method, (pathItem as any)[method]] as const
+  ).filter(([, operation]) => operation !== undefined);
+  const allowMethods = [
+    ...operations.map(([method]) => method.toUpperCase()),
+    'OPTIONS',
+  ];
+
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': cors.allowOrigin,
+    'Access-Control-Allow-Methods': allowMethods.join(','),
+    'Access-Control-Allow-Headers': cors.allowHeaders.join(','),
+  };
+  if (cors.allowCredentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (cors.maxAge !== undefined) {
+    headers['Access-Control-Max-Age'] = String(cors.maxAge);
+  }
+
+  const responseHeaders: Record<string, { schema: { type: 'string' } }> = {};
+  const responseParameters: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    responseHeaders[name] = { schema: { type: 'string' } };
+    responseParameters[`method.response.header.${name}`] = quote(value);
+  });
+
+  const preflight: OperationObject = {
+    summary: 'CORS preflight',
+    responses: {
+      '200': {
+        description: 'CORS preflight response',
+        headers: responseHeaders,
+      },
+    },
+    security: [],
+    'x-amazon-apigateway-integration': {
+      type: 'mock',
+      requestTemplates: { 'application/json': '{"statusCode": 200}' },
+      passthroughBehavior: 'when_no_match',
+      responses: {
+        default: { statusCode: '200', responseParameters },
+      },
+    },
+  };
+
+  // Preflight requests carry the same path parameters as the other methods
+  const pathParameters = pathParametersOf(operations.map(([, op]) => op));
+  if (pathParameters.length > 0) {
+    preflight.parameters = pathParameters;
+  }
+
+  pathItem.options = preflight;
+}
+
+/**
+ * Collect the path parameters of the operations of a path, once per name
+ */
+function pathParametersOf(operations: OperationObject[]): ParameterObject[] {
+  const parameters = new Map<string, ParameterObject>();
+
+  operations.forEach(operation =>
+    (operation.parameters || []).forEach(parameter => {
+      if (
+        !('$ref' in parameter) &&
+        parameter.in === 'path' &&
+        !parameters.has(parameter.name)
+      ) {
+        parameters.set(parameter.name, {
+          name: parameter.name,
+          in: 'path',
+          required: true,
+          schema: parameter.schema || { type: 'string' },
+        });
+      }
+    })
+  );
+
+  return Array.from(parameters.values());
+}
+
+/**
+ * Resolve the CORS settings, or undefined when CORS is disabled
+ */
+function corsSettings(
+  cors: ApiGatewayConfig['cors']
+): CorsSettings | undefined {
+  if (!cors) {
+    return undefined;
+  }
+
+  const settings = cors === true ? {} : cors;
+  return {
+    allowOrigin: settings.allowOrigin || '*',
+    allowHeaders: settings.allowHeaders || DEFAULT_CORS_HEADERS,
+    allowCredentials: settings.allowCredentials || false,
+    maxAge: settings.maxAge,
+  };
+}
+
+/**
+ * Quote a static value for API Gateway parameter mappings
+ */
+function quote(value: string): string {
+  return `'${value}'`;
+}
@@ -1,2 +1,31 @@
 // Main generator function
 export { generateOpenApiSpec, OpenApiGenerator } from './openapi-generator';
+
+// Serialization and file output
+export {
+  serializeOpenApiSpec,
+  resolveOutputFormat,
+  writeOpenApiSpec,
+  OutputFormat,
+  SerializeOptions,
+} from './serializer';
+
+// Document validation
+export {
+  validateOpenApiSpec,
+  formatSpecDiagnostics,
+  OperationSource,
+  SpecDiagnostic,
+  SpecValidationResult,
+  SpecValidationRule,
+} from './spec-validator';
+
+// Path and operation ordering
+export { comparePaths, compareMethods, sortPathsObject } from './sorting';
+
+// API Gateway extensions
+export {
+  addApiGatewayExtensions,
+  DEFAULT_LAMBDA_ARN,
+  DEFAULT_CORS_HEADERS,
+} from './api-gateway';
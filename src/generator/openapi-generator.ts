@@ -3,35 +3,109 @@ import {
   OperationObject,
   PathItemObject,
   ParameterObject,
+  RequestBodyObject,
+  MediaTypeObject,
   ResponseObject,
   SchemaObject,
+  ComponentsObject,
+  TagObject,
+  ReferenceObject,
+  ServerObject,
+  HeaderObject,
 } from '../types/openapi';
 import { GeneratorConfig } from '../types/config';
 import {
   HandlerMetadata,
   ApiResponseMetadata,
   ApiParamMetadata,
+  ApiQueryMetadata,
+  ApiBodyMetadata,
 } from '../types/internal';
 import { MetadataManager } from '../utils/metadata';
-import { TypeReference } from '../types/decorator-options';
+import { MetadataRegistry } from '../utils/metadata-registry';
+import { ApiHeaderOptions, TypeReference } from '../types/decorator-options';
+import { SecuritySchemeRegistry } from './security-schemes';
+import { SchemaGenerator } from './schema-generator';
+import { TypeAnalyzer } from '../analyzer/type-analyzer';
+import { discoverHandlers } from '../analyzer/handler-discovery';
+import { extractHandlerMetadata } from '../analyzer/static-extractor';
+import { formatValidationErrors, validateConfig } from '../config/validation';
+import {
+  OperationSource,
+  formatSpecDiagnostics,
+  validateOpenApiSpec,
+} from './spec-validator';
+import { sortPathsObject } from './sorting';
+import { addApiGatewayExtensions } from './api-gateway';
 
 /**
  * Generate OpenAPI specification from Lambda handlers with metadata
  */
 export class OpenApiGenerator {
   private config: GeneratorConfig;
+  private securitySchemes: SecuritySchemeRegistry;
+  private schemaGenerator: SchemaGenerator;
+  private operationSources = new Map<OperationObject, OperationSource>();
+  private registry: MetadataRegistry;
 
-  constructor(config: GeneratorConfig) {
+  /**
+   * @param config - Generator configuration
+   * @param registry - Registry handlers are discovered and read in
+   *   (defaults to the active one)
+   */
+  constructor(config: GeneratorConfig, registry = MetadataRegistry.current()) {
     this.config = config;
+    this.registry = registry;
+    this.securitySchemes = new SecuritySchemeRegistry(config.securitySchemes);
+    this.schemaGenerator = this.createSchemaGenerator();
   }
 
   /**
    * Generate OpenAPI specification from handler functions
    *
-   * @param handlers - Array of handler functions with metadata
+   * @param handlers - Array of handler functions with metadata, discovered
+   *   from the input paths when omitted (read from the handler sources
+   *   without loading them with `options.staticAnalysis`)
    * @returns OpenAPI specification object
+   * @throws When `options.validateSchema` is set and the document is invalid
+   */
+  generateSpec(handlers?: any[]): OpenAPISpec {
+    // Static analysis stores stand-ins of the schema classes it reads in a
+    // fork, leaving the registry as it was
+    const registry =
+      !handlers && this.config.options?.staticAnalysis
+        ? this.registry.fork()
+        : this.registry;
+    return registry.run(() => this.buildSpec(handlers));
+  }
+
+  /**
+   * Generate the document while the registry of this generator is active
    */
-  generateSpec(handlers: any[]): OpenAPISpec {
+  private buildSpec(handlers?: any[]): OpenAPISpec {
+    // Fail fast before loading any handler module; handlers passed
+    // explicitly need no input paths to be discovered from
+    const validation = validateConfig(this.config);
+    const errors = validation.errors.filter(
+      error => !handlers || error.rule !== 'input-paths'
+    );
+    if (errors.length > 0) {
+      throw new Error(
+        formatValidationErrors({ ...validation, isValid: false, errors })
+      );
+    }
+
+    const handlerMetadata = handlers
+      ? handlers.map(handler => MetadataManager.getHandlerMetadata(handler))
+      : this.collectHandlerMetadata();
+
+    // Start each generation with a fresh set of collected schemes
+    this.securitySchemes = new SecuritySchemeRegistry(
+      this.config.securitySchemes
+    );
+    this.schemaGenerator = this.createSchemaGenerator();
+    this.operationSources = new Map();
+
     const spec: OpenAPISpec = {
       openapi: '3.0.0',
       info: this.config.info,
@@ -39,16 +113,18 @@ export class OpenApiGenerator {
     };
 
     // Add optional sections if configured
-    if (this.config.servers) {
-      spec.servers = this.config.servers;
+    const servers = this.generateServers();
+    if (servers) {
+      spec.servers = servers;
     }
 
     if (this.config.security) {
       spec.security = this.config.security;
     }
 
-    if (this.config.tags) {
-      spec.tags = this.config.tags;
+    const tags = this.generateTags(handlerMetadata);
+    if (tags.length > 0) {
+      spec.tags = tags;
     }
 
     if (this.config.externalDocs) {
@@ -56,42 +132,102 @@ export class OpenApiGenerator {
     }
 
     // Generate paths from handlers
-    const handlerPaths = this.generatePaths(handlers);
+    const handlerPaths = this.generatePaths(handlerMetadata);
     spec.paths = handlerPaths;
 
     // Generate components (schemas, responses, etc.)
-    spec.components = this.generateComponents(handlers);
+    spec.components = this.generateComponents();
+
+    if (this.config.options?.includeLambdaExtensions) {
+      addApiGatewayExtensions(
+        spec,
+        this.config.apiGateway,
+        this.operationSources
+      );
+    }
+
+    // Sort once every operation, including CORS preflights, is in place
+    spec.paths = sortPathsObject(spec.paths, this.config.options);
+
+    if (this.config.options?.validateSchema) {
+      const result = validateOpenApiSpec(spec, this.operationSources);
+      if (!result.isValid) {
+        throw new Error(formatSpecDiagnostics(result));
+      }
+    }
 
     return spec;
   }
 
+  /**
+   * Collect the metadata of the handlers in the input paths, by loading the
+   * handler modules or, with `options.staticAnalysis`, by reading their
+   * sources
+   */
+  private collectHandlerMetadata(): HandlerMetadata[] {
+    if (this.config.options?.staticAnalysis) {
+      return extractHandlerMetadata(this.config);
+    }
+    return discoverHandlers(this.config).map(handler =>
+      MetadataManager.getHandlerMetadata(handler)
+    );
+  }
+
+  /**
+   * Create a schema generator that resolves interface and type alias names
+   * from the input paths (or tsconfig) on first use
+   */
+  private createSchemaGenerator(): SchemaGenerator {
+    let analyzer: TypeAnalyzer | undefined;
+
+    return new SchemaGenerator(name => {
+      if (!analyzer) {
+        analyzer = new TypeAnalyzer({
+          files: this.config.inputPaths,
+          tsConfigPath: this.config.tsConfigPath,
+        });
+      }
+      return analyzer.resolveType(name);
+    });
+  }
+
   /**
    * Generate paths object from handlers
    */
-  private generatePaths(handlers: any[]): Record<string, PathItemObject> {
+  private generatePaths(
+    metadataList: HandlerMetadata[]
+  ): Record<string, PathItemObject> {
     const paths: Record<string, PathItemObject> = {};
 
-    handlers.forEach(handler => {
-      const metadata = MetadataManager.getHandlerMetadata(handler);
-
-      // Skip handlers without operation metadata
-      if (!metadata.operation) {
-        return;
-      }
+    // Skip handlers without operation metadata
+    const handlerMetadata = metadataList.filter(metadata => metadata.operation);
+    const operationIds = this.assignOperationIds(handlerMetadata);
 
-      // Generate path from function name (this is a simplified approach)
-      const path = this.generatePathFromFunction(
-        metadata.operation.functionName
-      );
+    handlerMetadata.forEach(metadata => {
+      const { path: routePath, method } = this.resolveRoute(metadata);
+      const path = this.applyBasePath(routePath);
       const operation = this.generateOperation(metadata);
-
-      // Determine HTTP method (simplified: assume GET for now)
-      const method = this.determineHttpMethod(metadata.operation.functionName);
+      if (operationIds.has(metadata)) {
+        operation.operationId = operationIds.get(metadata);
+      }
+      this.operationSources.set(operation, metadata.operation!);
 
       if (!paths[path]) {
         paths[path] = {};
       }
 
+      // Two handlers must not declare the same operation
+      const existing = (paths[path] as any)[method] as
+        | OperationObject
+        | undefined;
+      if (existing) {
+        throw new Error(
+          `Route ${method.toUpperCase()} ${path} is declared by both handlers "${
+            this.operationSources.get(existing)!.functionName
+          }" and "${metadata.operation!.functionName}"`
+        );
+      }
+
       // Use type assertion to assign the operation to the correct method
       (paths[path] as any)[method] = operation;
     });
@@ -99,6 +235,148 @@ export class OpenApiGenerator {
     return paths;
   }
 
+  /**
+   * Prefix a path with the configured basePath, unless the base path is
+   * applied to the server URLs instead
+   */
+  private applyBasePath(path: string): string {
+    const basePath = this.normalizedBasePath();
+    if (!basePath || this.config.basePathMode === 'servers') {
+      return path;
+    }
+    return path === '/' ? basePath : `${basePath}${path}`;
+  }
+
+  /**
+   * Generate the servers section
+   *
+   * With `basePathMode: 'servers'` the base path is appended to every server
+   * URL, or becomes a relative server when no servers are configured.
+   */
+  private generateServers(): ServerObject[] | undefined {
+    const basePath = this.normalizedBasePath();
+    if (!basePath || this.config.basePathMode !== 'servers') {
+      return this.config.servers;
+    }
+
+    if (!this.config.servers || this.config.servers.length === 0) {
+      return [{ url: basePath }];
+    }
+    return this.config.servers.map(server => ({
+      ...server,
+      url: `${server.url.replace(/\/+$/, '')}${basePath}`,
+    }));
+  }
+
+  /**
+   * Get the basePath without a trailing slash; `/` yields no base path
+   */
+  private normalizedBasePath(): string | undefined {
+    const basePath = this.config.basePath?.replace(/\/+$/, '');
+    return basePath || undefined;
+  }
+
+  /**
+   * Derive operation IDs for handlers without an explicit one
+   *
+   * Only applies with `options.includeOperationIds`. IDs are the function
+   * name without a `Handler` suffix; an ID already taken by an explicit
+   * operationId or an earlier handler gets a numeric suffix.
+   */
+  private assignOperationIds(
+    handlerMetadata: HandlerMetadata[]
+  ): Map<HandlerMetadata, string> {
+    const assigned = new Map<HandlerMetadata, string>();
+    if (!this.config.options?.includeOperationIds) {
+      return assigned;
+    }
+
+    const taken = new Set(
+      handlerMetadata
+        .map(metadata => metadata.operation!.operationId)
+        .filter((id): id is string => id !== undefined)
+    );
+
+    handlerMetadata
+      .filter(metadata => metadata.operation!.operationId === undefined)
+      .forEach(metadata => {
+        const functionName = metadata.operation!.functionName;
+        const baseId = functionName.replace(/Handler$/, '') || functionName;
+
+        let operationId = baseId;
+        for (let suffix = 2; taken.has(operationId); suffix++) {
+          operationId = `${baseId}${suffix}`;
+        }
+        taken.add(operationId);
+        assigned.set(metadata, operationId);
+      });
+
+    return assigned;
+  }
+
+  /**
+   * Resolve the path and HTTP method of a handler
+   *
+   * Uses the declared @ApiRoute when present and falls back to the naming
+   * heuristic otherwise.
+   */
+  private resolveRoute(metadata: HandlerMetadata): {
+    path: string;
+    method: string;
+  } {
+    const functionName = metadata.operation!.functionName;
+
+    if (metadata.route) {
+      this.validateRouteParameters(metadata);
+      return { path: metadata.route.path, method: metadata.route.method };
+    }
+
+    return {
+      path: this.generatePathFromFunction(functionName),
+      method: this.determineHttpMethod(functionName),
+    };
+  }
+
+  /**
+   * Ensure the `{param}` placeholders of a declared route match the
+   * path parameters declared with @ApiParam
+   */
+  private validateRouteParameters(metadata: HandlerMetadata): void {
+    const route = metadata.route!;
+    const placeholders = this.extractPathPlaceholders(route.path);
+    const declared = metadata.params
+      .filter(param => param.in === 'path')
+      .map(param => param.name);
+
+    const undeclared = placeholders.filter(name => !declared.includes(name));
+    const unused = declared.filter(name => !placeholders.includes(name));
+
+    const problems: string[] = [];
+    if (undeclared.length > 0) {
+      problems.push(`missing @ApiParam for ${undeclared.join(', ')}`);
+    }
+    if (unused.length > 0) {
+      problems.push(`@ApiParam not present in path: ${unused.join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(
+        `Route ${route.method.toUpperCase()} ${route.path} of handler "${
+          metadata.operation!.functionName
+        }" has mismatched path parameters (${problems.join('; ')})`
+      );
+    }
+  }
+
+  /**
+   * Extract parameter names from `{param}` placeholders in a path
+   * (greedy `{proxy+}` placeholders yield `proxy`)
+   */
+  private extractPathPlaceholders(path: string): string[] {
+    const matches = path.match(/\{[^}]+\}/g) || [];
+    return matches.map(match => match.slice(1, -1).replace(/\+$/, ''));
+  }
+
   /**
    * Generate operation object from handler metadata
    */
@@ -111,28 +389,142 @@ export class OpenApiGenerator {
     if (metadata.operation) {
       operation.summary = metadata.operation.summary;
       operation.description = metadata.operation.description;
-      operation.tags = metadata.operation.tags;
+      operation.tags = this.mergeOperationTags(metadata);
       operation.operationId = metadata.operation.operationId;
       operation.deprecated = metadata.operation.deprecated;
     }
 
-    // Add parameters
-    if (metadata.params.length > 0) {
-      operation.parameters = metadata.params.map(param =>
-        this.generateParameter(param)
+    // Add path, query, header and cookie parameters, in that order
+    const source = `handler "${metadata.operation!.functionName}"`;
+    const parameters = [
+      ...metadata.params.map(param => this.generateParameter(param, source)),
+      ...metadata.queries.map(query =>
+        this.generateQueryParameter(query, source)
+      ),
+      ...metadata.headers.map(header =>
+        this.generateParameter({ ...header, in: 'header' }, source)
+      ),
+      ...metadata.cookies.map(cookie =>
+        this.generateParameter({ ...cookie, in: 'cookie' }, source)
+      ),
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    // Add security requirements (an empty list marks a public operation)
+    if (metadata.isPublic) {
+      operation.security = [];
+    } else if (metadata.security.length > 0) {
+      operation.security = metadata.security.map(security =>
+        this.securitySchemes.requirementFor(security)
       );
     }
 
+    // Add request body
+    if (metadata.body) {
+      operation.requestBody = this.generateRequestBody(metadata.body, source);
+    }
+
     // Add responses
-    operation.responses = this.generateResponses(metadata.responses);
+    operation.responses = this.generateResponses(
+      metadata.responses,
+      metadata.operation!.functionName
+    );
 
     return operation;
   }
 
+  /**
+   * Combine operation tags with @ApiTag names, without duplicates
+   */
+  private mergeOperationTags(metadata: HandlerMetadata): string[] | undefined {
+    const names = [
+      ...(metadata.operation?.tags || []),
+      ...metadata.tags.map(tag => tag.name),
+    ];
+
+    if (names.length === 0) {
+      return metadata.operation?.tags;
+    }
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * Generate top-level tags from the configuration and @ApiTag declarations
+   *
+   * Configured tags come first, followed by decorator tags in the order they
+   * are first seen. A tag described differently in two places is an error.
+   */
+  private generateTags(handlerMetadata: HandlerMetadata[]): TagObject[] {
+    const tags = new Map<string, TagObject>();
+
+    const mergeTag = (tag: TagObject, source: string) => {
+      const existing = tags.get(tag.name);
+      if (!existing) {
+        tags.set(tag.name, { ...tag });
+        return;
+      }
+
+      if (
+        tag.description &&
+        existing.description &&
+        tag.description !== existing.description
+      ) {
+        throw new Error(
+          `Tag "${tag.name}" has conflicting descriptions ("${existing.description}" and "${tag.description}" from ${source})`
+        );
+      }
+
+      existing.description = existing.description || tag.description;
+      existing.externalDocs = existing.externalDocs || tag.externalDocs;
+    };
+
+    (this.config.tags || []).forEach(tag => mergeTag(tag, 'configuration'));
+
+    handlerMetadata.forEach(metadata => {
+      if (!metadata.operation) {
+        return;
+      }
+
+      metadata.tags.forEach(tag =>
+        mergeTag(
+          {
+            name: tag.name,
+            description: tag.description,
+            externalDocs: tag.externalDocs,
+          },
+          `handler "${metadata.operation!.functionName}"`
+        )
+      );
+    });
+
+    // Drop properties that no declaration provided
+    const result = Array.from(tags.values()).map(tag => {
+      const tagObject: TagObject = { name: tag.name };
+      if (tag.description) {
+        tagObject.description = tag.description;
+      }
+      if (tag.externalDocs) {
+        tagObject.externalDocs = tag.externalDocs;
+      }
+      return tagObject;
+    });
+
+    if (this.config.options?.sortTags) {
+      result.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return result;
+  }
+
   /**
    * Generate parameter object from parameter metadata
    */
-  private generateParameter(paramMetadata: ApiParamMetadata): ParameterObject {
+  private generateParameter(
+    paramMetadata: ApiParamMetadata,
+    source: string
+  ): ParameterObject {
     const parameter: ParameterObject = {
       name: paramMetadata.name,
       in: paramMetadata.in,
@@ -151,10 +543,10 @@ export class OpenApiGenerator {
       parameter.example = paramMetadata.example;
     }
 
-    // Generate schema from type
-    if (paramMetadata.type) {
-      parameter.schema = this.generateSchemaFromType(paramMetadata.type);
-    }
+    // Generate schema from type, parameters without one being strings
+    parameter.schema = paramMetadata.type
+      ? this.generateSchemaFromType(paramMetadata.type, source)
+      : { type: 'string' };
 
     // Add enum values
     if (paramMetadata.enum) {
@@ -167,11 +559,85 @@ export class OpenApiGenerator {
     return parameter;
   }
 
+  /**
+   * Generate query parameter object from query metadata
+   */
+  private generateQueryParameter(
+    queryMetadata: ApiQueryMetadata,
+    source: string
+  ): ParameterObject {
+    const parameter = this.generateParameter(
+      { ...queryMetadata, in: 'query' },
+      source
+    );
+
+    if (queryMetadata.allowEmptyValue) {
+      parameter.allowEmptyValue = queryMetadata.allowEmptyValue;
+    }
+
+    return parameter;
+  }
+
+  /**
+   * Generate request body object from body metadata
+   *
+   * The schema derived from `type` is emitted as `application/json`; entries
+   * in `content` are merged over it per media type.
+   */
+  private generateRequestBody(
+    bodyMetadata: ApiBodyMetadata,
+    source: string
+  ): RequestBodyObject {
+    const content: Record<string, MediaTypeObject> = {};
+
+    if (bodyMetadata.type) {
+      content['application/json'] = {
+        schema: this.generateSchemaFromType(bodyMetadata.type, source),
+      };
+    }
+
+    if (bodyMetadata.content) {
+      Object.entries(bodyMetadata.content).forEach(([mediaType, media]) => {
+        content[mediaType] = { ...content[mediaType], ...media };
+      });
+    }
+
+    // Request bodies must declare at least one media type
+    if (Object.keys(content).length === 0) {
+      content['application/json'] = {};
+    }
+
+    // Attach the example to the JSON media type, or the first one declared
+    if (bodyMetadata.example !== undefined) {
+      const mediaType =
+        'application/json' in content
+          ? 'application/json'
+          : Object.keys(content)[0];
+      const media = content[mediaType];
+      if (media.example === undefined && media.examples === undefined) {
+        media.example = bodyMetadata.example;
+      }
+    }
+
+    const requestBody: RequestBodyObject = { content };
+
+    if (bodyMetadata.description) {
+      requestBody.description = bodyMetadata.description;
+    }
+
+    if (bodyMetadata.required !== undefined) {
+      requestBody.required = bodyMetadata.required;
+    }
+
+    return requestBody;
+  }
+
   /**
    * Generate responses object from response metadata
    */
   private generateResponses(
-    responseMetadata: ApiResponseMetadata[]
+    responseMetadata: ApiResponseMetadata[],
+    functionName: string
   ): Record<string, ResponseObject> {
     const responses: Record<string, ResponseObject> = {};
 
@@ -181,11 +647,24 @@ export class OpenApiGenerator {
         description: responseMeta.description || `Response ${statusCode}`,
       };
 
+      if (responseMeta.headers) {
+        response.headers = {};
+        Object.entries(responseMeta.headers).forEach(([name, header]) => {
+          response.headers![name] =
+            typeof header === 'string'
+              ? this.headerReference(header, statusCode, functionName)
+              : this.generateHeader(header, `handler "${functionName}"`);
+        });
+      }
+
       // Add content if type is specified
       if (responseMeta.type) {
         response.content = {
           'application/json': {
-            schema: this.generateSchemaFromType(responseMeta.type),
+            schema: this.generateSchemaFromType(
+              responseMeta.type,
+              `handler "${functionName}"`
+            ),
           },
         };
       }
@@ -216,57 +695,95 @@ export class OpenApiGenerator {
   }
 
   /**
-   * Generate schema from type reference
+   * Generate a header object from header options
    */
-  private generateSchemaFromType(typeRef: TypeReference): SchemaObject {
-    if (typeof typeRef === 'string') {
-      return this.generateSchemaFromStringType(typeRef);
+  private generateHeader(
+    options: ApiHeaderOptions,
+    source: string
+  ): HeaderObject {
+    const header: HeaderObject = {
+      schema: options.type
+        ? this.generateSchemaFromType(options.type, source)
+        : { type: 'string' },
+    };
+
+    // Add enum values
+    if (options.enum) {
+      header.schema = { ...header.schema, enum: options.enum };
     }
 
-    // For constructor types, generate object schema
-    if (typeof typeRef === 'function') {
-      return {
-        type: 'object',
-        // TODO: Implement type introspection for constructors
-        description: `Schema for ${typeRef.name}`,
-      };
+    if (options.description) {
+      header.description = options.description;
+    }
+    if (options.required !== undefined) {
+      header.required = options.required;
+    }
+    if (options.deprecated !== undefined) {
+      header.deprecated = options.deprecated;
+    }
+    if (options.example !== undefined) {
+      header.example = options.example;
     }
 
-    // Default to object type
-    return {
-      type: 'object',
-    };
+    return header;
   }
 
   /**
-   * Generate schema from string type
+   * Reference a header declared in the `headers` configuration
    */
-  private generateSchemaFromStringType(type: string): SchemaObject {
-    switch (type) {
-      case 'string':
-        return { type: 'string' };
-      case 'number':
-        return { type: 'number' };
-      case 'integer':
-        return { type: 'integer' };
-      case 'boolean':
-        return { type: 'boolean' };
-      case 'array':
-        return { type: 'array', items: { type: 'string' } };
-      case 'object':
-        return { type: 'object' };
-      default:
-        return { type: 'string' };
+  private headerReference(
+    name: string,
+    statusCode: string,
+    functionName: string
+  ): ReferenceObject {
+    if (!this.config.headers || !this.config.headers[name]) {
+      throw new Error(
+        `Response ${statusCode} of handler "${functionName}" references undeclared header "${name}"`
+      );
     }
+
+    return { $ref: `#/components/headers/${name}` };
+  }
+
+  /**
+   * Generate schema from type reference
+   *
+   * @param source - What declares the type, named when it cannot be resolved
+   */
+  private generateSchemaFromType(
+    typeRef: TypeReference,
+    source: string
+  ): SchemaObject | ReferenceObject {
+    return this.schemaGenerator.generate(typeRef, source);
   }
 
   /**
    * Generate components section
    */
-  private generateComponents(handlers: any[]): any {
-    // TODO: Implement component generation
-    // This would include schemas, responses, parameters, etc.
-    return {};
+  private generateComponents(): ComponentsObject {
+    const components: ComponentsObject = {};
+
+    // Header schemas may register component schemas, so generate them first
+    const headers: Record<string, HeaderObject> = {};
+    Object.entries(this.config.headers || {}).forEach(([name, header]) => {
+      headers[name] = this.generateHeader(header, `header "${name}"`);
+    });
+
+    const schemas = this.schemaGenerator.getSchemas();
+    if (Object.keys(schemas).length > 0) {
+      components.schemas = schemas;
+    }
+
+    const securitySchemes = this.securitySchemes.getSchemes();
+    if (Object.keys(securitySchemes).length > 0) {
+      components.securitySchemes = securitySchemes;
+    }
+
+    if (Object.keys(headers).length > 0) {
+      components.headers = headers;
+    }
+
+    return components;
   }
 
   /**
@@ -318,13 +835,17 @@ export class OpenApiGenerator {
  * Generate OpenAPI specification from handlers
  *
  * @param config - Generator configuration
- * @param handlers - Array of handler functions
+ * @param handlers - Array of handler functions, discovered from
+ *   `config.inputPaths` when omitted
+ * @param registry - Registry handlers are discovered and read in
+ *   (defaults to the active one)
  * @returns OpenAPI specification object
  */
 export function generateOpenApiSpec(
   config: GeneratorConfig,
-  handlers: any[]
+  handlers?: any[],
+  registry?: MetadataRegistry
 ): OpenAPISpec {
-  const generator = new OpenApiGenerator(config);
+  const generator = new OpenApiGenerator(config, registry);
   return generator.generateSpec(handlers);
 }
@@ -0,0 +1,490 @@
+import { ReferenceObject, SchemaObject } from '../types/openapi';
+import { TypeConstructor, TypeReference } from '../types/decorator-options';
+import { ApiPropertyMetadata, TypeInfo } from '../types/internal';
+import { MetadataManager } from '../utils/metadata';
+
+/**
+ * Property options copied verbatim onto the property schema
+ */
+const PROPERTY_SCHEMA_KEYWORDS = [
+  'description',
+  'format',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+  'pattern',
+  'nullable',
+  'example',
+  'default',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+] as const;
+
+/**
+ * Resolve an interface or type alias name to type information
+ */
+export type TypeResolver = (name: string) => TypeInfo | undefined;
+
+/**
+ * Marks schema names registered from resolved TypeScript types
+ */
+const RESOLVED_TYPE = 'resolved-type';
+
+/**
+ * Generate JSON schemas from decorator type references
+ *
+ * Schema classes are registered once as named schemas and referenced with
+ * `$ref: '#/components/schemas/<Name>'`. Classes with @ApiProperty metadata
+ * become object schemas with `properties` and `required`; built-in
+ * constructors map to their primitive schemas. Other string types such as
+ * `'User'` or `'User[]'` are looked up with the type resolver, so interfaces
+ * and type aliases are registered as named schemas too.
+ */
+export class SchemaGenerator {
+  private schemas: Record<string, SchemaObject> = {};
+  private namesByType = new Map<TypeConstructor, string>();
+  private typesByName = new Map<
+    string,
+    TypeConstructor | typeof RESOLVED_TYPE
+  >();
+  private filesByName = new Map<string, string | undefined>();
+
+  constructor(private typeResolver?: TypeResolver) {}
+
+  /**
+   * Generate schema from type reference
+   *
+   * @param typeRef - Type reference
+   * @param source - What declares the type, e.g. `handler "getUser"`, named
+   * when the type cannot be resolved
+   */
+  generate(
+    typeRef: TypeReference,
+    source?: string
+  ): SchemaObject | ReferenceObject {
+    if (typeof typeRef === 'string') {
+      return this.generateFromStringType(typeRef, source);
+    }
+
+    if (typeof typeRef === 'function') {
+      return this.generateFromConstructor(typeRef);
+    }
+
+    // Default to object type
+    return {
+      type: 'object',
+    };
+  }
+
+  /**
+   * Get all named schemas registered so far, sorted by name
+   */
+  getSchemas(): Record<string, SchemaObject> {
+    const sorted: Record<string, SchemaObject> = {};
+    Object.keys(this.schemas)
+      .sort()
+      .forEach(name => {
+        sorted[name] = this.schemas[name];
+      });
+    return sorted;
+  }
+
+  /**
+   * Generate schema from string type
+   */
+  private generateFromStringType(
+    type: string,
+    source?: string
+  ): SchemaObject | ReferenceObject {
+    switch (type) {
+      case 'string':
+        return { type: 'string' };
+      case 'number':
+        return { type: 'number' };
+      case 'integer':
+        return { type: 'integer' };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'array':
+        return { type: 'array', items: { type: 'string' } };
+      case 'object':
+        return { type: 'object' };
+      default:
+        return this.generateFromTypeName(type, source);
+    }
+  }
+
+  /**
+   * Generate schema from an interface or type alias name
+   */
+  private generateFromTypeName(
+    name: string,
+    source?: string
+  ): SchemaObject | ReferenceObject {
+    if (name.endsWith('[]')) {
+      return { type: 'array', items: this.generate(name.slice(0, -2), source) };
+    }
+
+    const info = this.typeResolver?.(name);
+    if (!info) {
+      throw new Error(
+        `Cannot resolve type "${name}"${
+          source ? ` of ${source}` : ''
+        }; declare it as an interface or type alias in the input paths, or pass a schema class`
+      );
+    }
+
+    return {
+      $ref: `#/components/schemas/${this.registerTypeInfo(name, info)}`,
+    };
+  }
+
+  /**
+   * Register resolved type information in components.schemas
+   *
+   * @returns Name of the registered schema
+   */
+  private registerTypeInfo(name: string, info: TypeInfo): string {
+    const existing = this.typesByName.get(name);
+    if (existing === RESOLVED_TYPE) {
+      const filePath = this.filesByName.get(name);
+      if (filePath && info.filePath && filePath !== info.filePath) {
+        throw new Error(
+          `Schema name "${name}" is used by two different TypeScript types, declared in ${filePath} and ${info.filePath}; rename one`
+        );
+      }
+      return name;
+    }
+    if (existing) {
+      throw new Error(
+        `Schema name "${name}" is used by both a class and a TypeScript type`
+      );
+    }
+
+    // Reserve the name first so recursive types resolve to their own $ref
+    this.typesByName.set(name, RESOLVED_TYPE);
+    this.filesByName.set(name, info.filePath);
+    this.schemas[name] =
+      info.kind === 'object' || info.kind === 'generic'
+        ? this.generateObjectFromTypeInfo(info)
+        : (this.generateFromTypeInfo(info) as SchemaObject);
+
+    return name;
+  }
+
+  /**
+   * Convert type information from the analyzer to a schema
+   */
+  private generateFromTypeInfo(info: TypeInfo): SchemaObject | ReferenceObject {
+    let schema: SchemaObject | ReferenceObject;
+
+    switch (info.kind) {
+      case 'primitive':
+        schema = primitiveSchema(info.name);
+        break;
+      case 'literal':
+        schema = {
+          type: typeof info.literal as 'string' | 'number' | 'boolean',
+          enum: [info.literal],
+        };
+        break;
+      case 'array':
+        schema = {
+          type: 'array',
+          items: info.elementType
+            ? this.generateFromTypeInfo(info.elementType)
+            : {},
+        };
+        break;
+      case 'union':
+        schema = this.generateUnionFromTypeInfo(info.members || []);
+        break;
+      case 'intersection':
+        schema = {
+          allOf: (info.members || []).map(member =>
+            this.generateFromTypeInfo(member)
+          ),
+        };
+        break;
+      case 'object':
+        schema = info.name
+          ? {
+              $ref: `#/components/schemas/${this.registerTypeInfo(
+                info.name,
+                info
+              )}`,
+            }
+          : this.generateObjectFromTypeInfo(info);
+        break;
+      case 'generic':
+        schema = this.generateObjectFromTypeInfo(info);
+        break;
+      default:
+        schema = {};
+    }
+
+    if (info.nullable) {
+      return '$ref' in schema
+        ? { allOf: [schema], nullable: true }
+        : { ...schema, nullable: true };
+    }
+    return schema;
+  }
+
+  /**
+   * Convert union members, collapsing literal unions into an enum
+   */
+  private generateUnionFromTypeInfo(
+    members: TypeInfo[]
+  ): SchemaObject | ReferenceObject {
+    const literalTypes = new Set(members.map(member => typeof member.literal));
+    if (
+      members.every(member => member.kind === 'literal') &&
+      literalTypes.size === 1
+    ) {
+      return {
+        type: typeof members[0].literal as 'string' | 'number' | 'boolean',
+        enum: members.map(member => member.literal),
+      };
+    }
+
+    return {
+      oneOf: members.map(member => this.generateFromTypeInfo(member)),
+    };
+  }
+
+  /**
+   * Convert object type information to an inline object schema
+   */
+  private generateObjectFromTypeInfo(info: TypeInfo): SchemaObject {
+    const schema: SchemaObject = { type: 'object' };
+    const properties = info.properties || [];
+
+    if (properties.length > 0) {
+      schema.properties = {};
+      properties.forEach(property => {
+        const propertySchema = this.generateFromTypeInfo(property.type);
+        schema.properties![property.name] = property.description
+          ? withDescription(propertySchema, property.description)
+          : propertySchema;
+      });
+    }
+
+    const required = properties
+      .filter(property => !property.optional)
+      .map(property => property.name);
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    if (info.additionalProperties) {
+      schema.additionalProperties = this.generateFromTypeInfo(
+        info.additionalProperties
+      );
+    }
+
+    return schema;
+  }
+
+  /**
+   * Generate schema from a built-in constructor or a reference to a
+   * schema class
+   */
+  private generateFromConstructor(
+    ctor: TypeConstructor
+  ): SchemaObject | ReferenceObject {
+    switch (ctor as unknown) {
+      case String:
+        return { type: 'string' };
+      case Number:
+        return { type: 'number' };
+      case Boolean:
+        return { type: 'boolean' };
+      case Date:
+        return { type: 'string', format: 'date-time' };
+      case Array:
+        return { type: 'array', items: {} };
+      case Object:
+        return { type: 'object' };
+    }
+
+    return { $ref: `#/components/schemas/${this.registerClass(ctor)}` };
+  }
+
+  /**
+   * Register a schema class in components.schemas
+   *
+   * The name is taken from @ApiSchema or the class name. The name is
+   * reserved before the properties are generated so that self-referencing
+   * classes resolve to their own `$ref`.
+   *
+   * @returns Name of the registered schema
+   */
+  private registerClass(ctor: TypeConstructor): string {
+    const known = this.namesByType.get(ctor);
+    if (known) {
+      return known;
+    }
+
+    const schemaMetadata = MetadataManager.getSchema(ctor);
+    const name = schemaMetadata?.name || ctor.name;
+    if (!name) {
+      throw new Error(
+        'Cannot register an anonymous schema class; name it with @ApiSchema'
+      );
+    }
+
+    if (this.typesByName.has(name)) {
+      throw new Error(
+        `Schema name "${name}" is used by two different classes; rename one with @ApiSchema({ name })`
+      );
+    }
+
+    this.namesByType.set(ctor, name);
+    this.typesByName.set(name, ctor);
+
+    const schema = this.generateFromProperties(
+      MetadataManager.getProperties(ctor),
+      name
+    );
+    if (schemaMetadata?.description) {
+      schema.description = schemaMetadata.description;
+    }
+    this.schemas[name] = schema;
+
+    return name;
+  }
+
+  /**
+   * Generate object schema from class property metadata
+   */
+  private generateFromProperties(
+    properties: ApiPropertyMetadata[],
+    schemaName: string
+  ): SchemaObject {
+    const schema: SchemaObject = {
+      type: 'object',
+    };
+
+    if (properties.length > 0) {
+      schema.properties = {};
+      properties.forEach(property => {
+        schema.properties![property.name] = this.generatePropertySchema(
+          property,
+          `property "${property.name}" of schema "${schemaName}"`
+        );
+      });
+    }
+
+    const required = properties
+      .filter(property => property.required)
+      .map(property => property.name);
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Generate schema for a single class property
+   */
+  private generatePropertySchema(
+    property: ApiPropertyMetadata,
+    source: string
+  ): SchemaObject | ReferenceObject {
+    const typeRef = property.type || property.designType;
+
+    let baseSchema: SchemaObject | ReferenceObject;
+    if (property.items !== undefined) {
+      baseSchema = {
+        type: 'array',
+        items: this.generate(property.items, source),
+      };
+    } else if (typeRef !== undefined) {
+      baseSchema = this.generate(typeRef, source);
+    } else {
+      baseSchema = {};
+    }
+
+    const keywords: SchemaObject = {};
+    PROPERTY_SCHEMA_KEYWORDS.forEach(keyword => {
+      if (property[keyword] !== undefined) {
+        (keywords as any)[keyword] = property[keyword];
+      }
+    });
+
+    if ('$ref' in baseSchema) {
+      // Siblings of $ref are ignored, so wrap the reference when needed
+      return Object.keys(keywords).length > 0
+        ? { allOf: [baseSchema], ...keywords }
+        : baseSchema;
+    }
+
+    const schema: SchemaObject = { ...baseSchema, ...keywords };
+
+    if (property.enum !== undefined) {
+      schema.enum = enumValues(property.enum);
+
+      // Union-typed enums reflect as Object; infer the type from the values
+      if (schema.type === 'object' && !schema.properties) {
+        const valueType = typeof schema.enum[0];
+        schema.type = valueType === 'number' ? 'number' : 'string';
+      }
+    }
+
+    return schema;
+  }
+}
+
+/**
+ * Get the values of an enum array or TypeScript enum object
+ */
+function enumValues(values: any[] | Record<string, string | number>): any[] {
+  if (Array.isArray(values)) {
+    return values;
+  }
+
+  // Numeric enums also contain reverse mappings from value to name
+  return Object.keys(values)
+    .filter(key => isNaN(Number(key)))
+    .map(key => values[key]);
+}
+
+/**
+ * Map an analyzer primitive type name to a schema
+ */
+function primitiveSchema(name: string): SchemaObject {
+  switch (name) {
+    case 'string':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'bigint':
+      return { type: 'integer', format: 'int64' };
+    case 'Date':
+      return { type: 'string', format: 'date-time' };
+    case 'null':
+      return { nullable: true };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Attach a description, wrapping references whose siblings would be ignored
+ */
+function withDescription(
+  schema: SchemaObject | ReferenceObject,
+  description: string
+): SchemaObject | ReferenceObject {
+  return '$ref' in schema
+    ? { allOf: [schema], description }
+    : { ...schema, description };
+}
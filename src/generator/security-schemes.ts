@@ -0,0 +1,167 @@
+import {
+  SecurityRequirementObject,
+  SecuritySchemeObject,
+} from '../types/openapi';
+import { ApiSecurityMetadata } from '../types/internal';
+
+/**
+ * Collects security schemes declared by handlers into uniquely named
+ * `components.securitySchemes` entries
+ *
+ * Identical schemes declared on several handlers share one entry. Schemes
+ * without an explicit `schemeName` get a name derived from their type, with
+ * a numeric suffix when different schemes derive the same name.
+ */
+export class SecuritySchemeRegistry {
+  private schemes: Record<string, SecuritySchemeObject> = {};
+  private namesByIdentity = new Map<string, string>();
+
+  constructor(declared: Record<string, SecuritySchemeObject> = {}) {
+    Object.entries(declared).forEach(([name, scheme]) => {
+      this.add(name, scheme);
+    });
+  }
+
+  /**
+   * Register the scheme of a security decorator
+   *
+   * @param metadata - Security metadata from a handler
+   * @returns Name of the scheme in components.securitySchemes
+   */
+  register(metadata: ApiSecurityMetadata): string {
+    const scheme = toSecurityScheme(metadata);
+    const identity = identityOf(scheme);
+
+    if (metadata.schemeName) {
+      const existing = this.schemes[metadata.schemeName];
+      if (existing && identityOf(existing) !== identity) {
+        throw new Error(
+          `Security scheme "${metadata.schemeName}" is declared with conflicting definitions`
+        );
+      }
+      if (!existing) {
+        this.add(metadata.schemeName, scheme);
+      }
+      return metadata.schemeName;
+    }
+
+    const known = this.namesByIdentity.get(identity);
+    if (known) {
+      return known;
+    }
+
+    const baseName = deriveSchemeName(scheme);
+    let name = baseName;
+    for (let suffix = 2; this.schemes[name]; suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    this.add(name, scheme);
+    return name;
+  }
+
+  /**
+   * Build the security requirement object for a security decorator
+   *
+   * @param metadata - Security metadata from a handler
+   * @returns Requirement referencing the registered scheme
+   */
+  requirementFor(metadata: ApiSecurityMetadata): SecurityRequirementObject {
+    const name = this.register(metadata);
+    const scoped =
+      metadata.type === 'oauth2' || metadata.type === 'openIdConnect';
+    return { [name]: scoped ? metadata.scopes || [] : [] };
+  }
+
+  /**
+   * Get all registered schemes keyed by name
+   */
+  getSchemes(): Record<string, SecuritySchemeObject> {
+    return { ...this.schemes };
+  }
+
+  private add(name: string, scheme: SecuritySchemeObject): void {
+    this.schemes[name] = scheme;
+    const identity = identityOf(scheme);
+    if (!this.namesByIdentity.has(identity)) {
+      this.namesByIdentity.set(identity, name);
+    }
+  }
+}
+
+/**
+ * Convert security metadata to an OpenAPI security scheme object
+ */
+function toSecurityScheme(metadata: ApiSecurityMetadata): SecuritySchemeObject {
+  const scheme: SecuritySchemeObject = { type: metadata.type };
+
+  if (metadata.description) {
+    scheme.description = metadata.description;
+  }
+
+  switch (metadata.type) {
+    case 'apiKey':
+      scheme.name = metadata.name;
+      scheme.in = metadata.in || 'header';
+      break;
+    case 'http':
+      scheme.scheme = metadata.scheme || 'bearer';
+      if (metadata.bearerFormat) {
+        scheme.bearerFormat = metadata.bearerFormat;
+      }
+      break;
+    case 'oauth2':
+      if (metadata.flows) {
+        scheme.flows = metadata.flows;
+      }
+      break;
+    case 'openIdConnect':
+      scheme.openIdConnectUrl = metadata.openIdConnectUrl;
+      break;
+  }
+
+  return scheme;
+}
+
+/**
+ * Derive a readable scheme name, e.g. `bearerAuth` or `apiKeyXApiKey`
+ */
+function deriveSchemeName(scheme: SecuritySchemeObject): string {
+  switch (scheme.type) {
+    case 'apiKey':
+      return `apiKey${toPascalCase(scheme.name || '')}`;
+    case 'http':
+      return `${toCamelCase(scheme.scheme || 'http')}Auth`;
+    default:
+      return scheme.type;
+  }
+}
+
+/**
+ * Serialize a scheme with sorted keys so equal schemes compare equal
+ */
+function identityOf(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(identityOf).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${identityOf(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+}
+
+function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
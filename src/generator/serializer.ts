@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import { OpenAPISpec } from '../types/openapi';
+import { GeneratorConfig } from '../types/config';
+
+/**
+ * Supported output formats
+ */
+export type OutputFormat = 'json' | 'yaml';
+
+/**
+ * Options for serializing a specification
+ */
+export interface SerializeOptions {
+  /** Output format (defaults to JSON) */
+  format?: OutputFormat;
+  /** Indent JSON output; YAML is always indented */
+  prettyPrint?: boolean;
+}
+
+/**
+ * Order of the top-level fields in serialized documents, as listed in the
+ * OpenAPI specification
+ */
+const TOP_LEVEL_ORDER = [
+  'openapi',
+  'info',
+  'servers',
+  'paths',
+  'components',
+  'security',
+  'tags',
+  'externalDocs',
+];
+
+/**
+ * Serialize a specification to JSON or YAML
+ *
+ * The output is byte-stable: top-level fields follow the order of the
+ * OpenAPI specification, component entries are sorted by name, YAML is
+ * emitted without anchors or line folding, and the text always ends with a
+ * single newline.
+ *
+ * @param spec - OpenAPI specification object
+ * @param options - Format and pretty printing options
+ * @returns Serialized document
+ */
+export function serializeOpenApiSpec(
+  spec: OpenAPISpec,
+  options: SerializeOptions = {}
+): string {
+  const normalized = normalizeSpec(spec);
+
+  if (options.format === 'yaml') {
+    return stringifyYaml(normalized, {
+      aliasDuplicateObjects: false,
+      lineWidth: 0,
+    });
+  }
+
+  const indent = options.prettyPrint === false ? undefined : 2;
+  return `${JSON.stringify(normalized, null, indent)}\n`;
+}
+
+/**
+ * Determine the output format of a configuration
+ *
+ * An explicit `format` wins; otherwise the format is inferred from the
+ * `outputPath` extension (`.yaml`/`.yml` or `.json`), defaulting to JSON.
+ *
+ * @param config - Generator configuration
+ * @returns Output format
+ */
+export function resolveOutputFormat(
+  config: Pick<GeneratorConfig, 'format' | 'outputPath'>
+): OutputFormat {
+  if (config.format) {
+    return config.format;
+  }
+
+  const extension = path.extname(config.outputPath || '').toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+/**
+ * Serialize a specification and write it to `config.outputPath`
+ *
+ * Missing directories are created.
+ *
+ * @param spec - OpenAPI specification object
+ * @param config - Generator configuration with an output path
+ * @returns Serialized document that was written
+ */
+export function writeOpenApiSpec(
+  spec: OpenAPISpec,
+  config: GeneratorConfig
+): string {
+  if (!config.outputPath) {
+    throw new Error('Cannot write the OpenAPI document without an outputPath');
+  }
+
+  const content = serializeOpenApiSpec(spec, {
+    format: resolveOutputFormat(config),
+    prettyPrint: config.options?.prettyPrint,
+  });
+
+  fs.mkdirSync(path.dirname(path.resolve(config.outputPath)), {
+    recursive: true,
+  });
+  fs.writeFileSync(config.outputPath, content);
+
+  return content;
+}
+
+/**
+ * Put the fields of a specification in a deterministic order
+ */
+function normalizeSpec(spec: OpenAPISpec): Record<string, unknown> {
+  const source = spec as unknown as Record<string, unknown>;
+  const keys = [
+    ...TOP_LEVEL_ORDER.filter(key => key in source),
+    ...Object.keys(source).filter(key => !TOP_LEVEL_ORDER.includes(key)),
+  ];
+
+  const normalized: Record<string, unknown> = {};
+  keys.forEach(key => {
+    if (source[key] !== undefined) {
+      normalized[key] = source[key];
+    }
+  });
+
+  if (spec.components) {
+    normalized.components = sortComponents(spec.components);
+  }
+
+  return normalized;
+}
+
+/**
+ * Sort the entries of every component map by name
+ */
+function sortComponents(
+  components: NonNullable<OpenAPISpec['components']>
+): Record<string, unknown> {
+  const sorted: Record<string, unknown> = {};
+
+  Object.entries(components).forEach(([type, entries]) => {
+    if (entries === undefined) {
+      return;
+    }
+
+    const sortedEntries: Record<string, unknown> = {};
+    Object.keys(entries)
+      .sort()
+      .forEach(name => {
+        sortedEntries[name] = (entries as Record<string, unknown>)[name];
+      });
+    sorted[type] = sortedEntries;
+  });
+
+  return sorted;
+}
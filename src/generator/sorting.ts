@@ -0,0 +1,102 @@
+import { PathItemObject } from '../types/openapi';
+import { Comparator, GeneratorConfig } from '../types/config';
+import { HTTP_METHODS, HttpMethod } from '../types/decorator-options';
+
+/**
+ * Compare two paths segment by segment
+ *
+ * Segments are compared by character code, so the order does not depend on
+ * the locale, and a path sorts before the paths nested below it.
+ *
+ * @param a - First path
+ * @param b - Second path
+ * @returns Negative, zero or positive like `Array.prototype.sort` expects
+ */
+export function comparePaths(a: string, b: string): number {
+  const left = a.split('/');
+  const right = b.split('/');
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Compare two HTTP methods by their order in the OpenAPI specification
+ * (get, put, post, delete, options, head, patch, trace)
+ *
+ * @param a - First lowercase method
+ * @param b - Second lowercase method
+ * @returns Negative, zero or positive like `Array.prototype.sort` expects
+ */
+export function compareMethods(a: string, b: string): number {
+  return (
+    HTTP_METHODS.indexOf(a as HttpMethod) -
+    HTTP_METHODS.indexOf(b as HttpMethod)
+  );
+}
+
+/**
+ * Order the paths and operations of a paths object as configured
+ *
+ * `sortPaths` and `sortOperations` accept `true` for the default order
+ * ({@link comparePaths}, {@link compareMethods}) or a custom comparator.
+ * Without either option the insertion order is kept.
+ *
+ * @param paths - Paths object
+ * @param options - Generation options
+ * @returns Paths object with its entries in order
+ */
+export function sortPathsObject(
+  paths: Record<string, PathItemObject>,
+  options: GeneratorConfig['options'] = {}
+): Record<string, PathItemObject> {
+  const pathComparator = comparatorOf(options.sortPaths, comparePaths);
+  const methodComparator = comparatorOf(options.sortOperations, compareMethods);
+
+  const keys = Object.keys(paths);
+  if (pathComparator) {
+    keys.sort(pathComparator);
+  }
+
+  const sorted: Record<string, PathItemObject> = {};
+  keys.forEach(path => {
+    sorted[path] = methodComparator
+      ? sortOperations(paths[path], methodComparator)
+      : paths[path];
+  });
+  return sorted;
+}
+
+/**
+ * Put the operations of a path item in order, after its other fields
+ */
+function sortOperations(
+  pathItem: PathItemObject,
+  comparator: Comparator
+): PathItemObject {
+  const keys = Object.keys(pathItem);
+  const methods = keys.filter(key => HTTP_METHODS.includes(key as HttpMethod));
+
+  const sorted: Record<string, unknown> = {};
+  [
+    ...keys.filter(key => !HTTP_METHODS.includes(key as HttpMethod)),
+    ...methods.sort(comparator),
+  ].forEach(key => {
+    sorted[key] = (pathItem as Record<string, unknown>)[key];
+  });
+  return sorted as PathItemObject;
+}
+
+function comparatorOf(
+  option: boolean | Comparator | undefined,
+  defaultComparator: Comparator
+): Comparator | undefined {
+  if (typeof option === 'function') {
+    return option;
+  }
+  return option ? defaultComparator : undefined;
+}
@@ -0,0 +1,523 @@
+import Ajv from 'ajv';
+import { openapiV3 } from '@apidevtools/openapi-schemas';
+import {
+  OpenAPISpec,
+  OperationObject,
+  ParameterObject,
+  PathItemObject,
+} from '../types/openapi';
+import { HTTP_METHODS, HttpMethod } from '../types/decorator-options';
+
+/**
+ * Rules checked by the specification validator
+ */
+export type SpecValidationRule =
+  | 'schema'
+  | 'operation-id'
+  | 'path-parameter'
+  | 'ref'
+  | 'response-code';
+
+/**
+ * Handler that produced an operation
+ */
+export interface OperationSource {
+  /** Handler function name */
+  functionName: string;
+  /** File the handler was loaded from */
+  filePath?: string;
+}
+
+/**
+ * Problem found in a generated specification
+ */
+export interface SpecDiagnostic {
+  /** Violated rule */
+  rule: SpecValidationRule;
+  /** Description of the problem */
+  message: string;
+  /** JSON pointer to the offending location in the document */
+  pointer: string;
+  /** Name of the handler whose operation contains the problem */
+  handler?: string;
+  /** File of that handler */
+  filePath?: string;
+  /** Decorator that declares the offending value, e.g. `@ApiParam` */
+  decorator?: string;
+}
+
+/**
+ * Specification validation result
+ */
+export interface SpecValidationResult {
+  /** Whether the document is valid */
+  isValid: boolean;
+  /** Problems found, in document order per rule */
+  diagnostics: SpecDiagnostic[];
+}
+
+const RESPONSE_CODE = /^(default|[1-5]XX|[1-5]\d\d)$/;
+
+// Decorator declaring a parameter, by parameter location
+const PARAMETER_DECORATORS: Record<string, string> = {
+  path: '@ApiParam',
+  query: '@ApiQuery',
+  header: '@ApiHeader',
+  cookie: '@ApiCookie',
+};
+
+// The official schema is compiled once, on first use
+let schemaValidator: Ajv.ValidateFunction | undefined;
+
+/**
+ * Validate a specification against the OpenAPI 3.0 JSON Schema and the rules
+ * the schema cannot express
+ *
+ * Besides the schema, operation IDs must be unique, every `{param}` of a path
+ * must be declared as a required path parameter (and vice versa), local
+ * `$ref`s must resolve and response codes must be `default`, `1XX`-`5XX` or
+ * a status between 100 and 599. Validation runs offline.
+ *
+ * @param spec - OpenAPI specification object
+ * @param sources - Handlers of the operations, used to locate diagnostics
+ * @returns Diagnostics of every problem found
+ */
+export function validateOpenApiSpec(
+  spec: OpenAPISpec,
+  sources: Map<OperationObject, OperationSource> = new Map()
+): SpecValidationResult {
+  const semantic = [
+    ...checkOperationIds(spec),
+    ...checkPathParameters(spec),
+    ...checkReferences(spec),
+    ...checkResponseCodes(spec),
+  ];
+
+  // Schema errors already explained by a semantic check are dropped
+  const explained = semantic.filter(explainsSchemaErrors);
+  const schema = checkSchema(spec).filter(
+    diagnostic =>
+      !explained.some(known => isWithin(diagnostic.pointer, known.pointer))
+  );
+
+  const diagnostics = [...semantic, ...schema].map(diagnostic =>
+    locate(diagnostic, spec, sources)
+  );
+
+  return { isValid: diagnostics.length === 0, diagnostics };
+}
+
+/**
+ * Format the diagnostics of a validation result as one message
+ *
+ * @param result - Validation result
+ * @returns Message listing every diagnostic with its location and rule
+ */
+export function formatSpecDiagnostics(result: SpecValidationResult): string {
+  return [
+    'Invalid OpenAPI document:',
+    ...result.diagnostics.map(diagnostic => {
+      const source = diagnostic.handler
+        ? ` (${[
+            diagnostic.decorator,
+            `on handler "${diagnostic.handler}"`,
+            diagnostic.filePath && `in ${diagnostic.filePath}`,
+          ]
+            .filter(Boolean)
+            .join(' ')})`
+        : '';
+      return `  - ${diagnostic.pointer || '/'}: ${
+        diagnostic.message
+      }${source} [${diagnostic.rule}]`;
+    }),
+  ].join('\n');
+}
+
+/**
+ * Validate the serialized document against the official JSON Schema
+ */
+function checkSchema(spec: OpenAPISpec): SpecDiagnostic[] {
+  if (!schemaValidator) {
+    const ajv = new Ajv({
+      schemaId: 'auto',
+      allErrors: true,
+      jsonPointers: true,
+      unknownFormats: 'ignore',
+    });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    ajv.addMetaSchema(require('ajv/lib/refs/json-schema-draft-04.json'));
+    schemaValidator = ajv.compile(openapiV3);
+  }
+
+  // Validate what is written to disk, without undefined fields
+  const document = JSON.parse(JSON.stringify(spec));
+  if (schemaValidator(document)) {
+    return [];
+  }
+
+  const diagnostics: SpecDiagnostic[] = [];
+  // Properties missing from each alternative of a oneOf, by location
+  const alternatives = new Map<
+    string,
+    { diagnostic: SpecDiagnostic; missing: string[] }
+  >();
+
+  (schemaValidator.errors || []).forEach(error => {
+    // Failed alternatives of oneOf are reported through their own errors;
+    // the Reference alternative only adds noise about a missing $ref
+    if (
+      ['oneOf', 'anyOf', 'allOf'].includes(error.keyword) ||
+      error.schemaPath.startsWith('#/definitions/Reference/')
+    ) {
+      return;
+    }
+
+    const params = error.params as Record<string, unknown>;
+    const alternative = /^(.*)\/oneOf\/\d+\/required$/.exec(error.schemaPath);
+    if (alternative) {
+      const key = `${error.dataPath} ${alternative[1]}`;
+      const entry = alternatives.get(key) || {
+        diagnostic: { rule: 'schema', message: '', pointer: error.dataPath },
+        missing: [],
+      };
+      if (!alternatives.has(key)) {
+        alternatives.set(key, entry);
+        diagnostics.push(entry.diagnostic);
+      }
+      entry.missing.push(`'${params.missingProperty}'`);
+      entry.diagnostic.message =
+        entry.missing.length > 1
+          ? `should have one of the properties ${entry.missing.join(', ')}`
+          : `should have required property ${entry.missing[0]}`;
+      return;
+    }
+
+    // Point at the unexpected property or the repeated item rather than
+    // their parent, so that the declaring decorator can be named
+    let pointer = error.dataPath;
+    if (error.keyword === 'additionalProperties') {
+      pointer = `${pointer}/${escapePointer(
+        String(params.additionalProperty)
+      )}`;
+    } else if (error.keyword === 'uniqueItems') {
+      pointer = `${pointer}/${params.i}`;
+    }
+    const message =
+      error.keyword === 'additionalProperties'
+        ? 'is not allowed here'
+        : error.message || `should pass "${error.keyword}"`;
+
+    if (
+      !diagnostics.some(
+        known => known.pointer === pointer && known.message === message
+      )
+    ) {
+      diagnostics.push({ rule: 'schema', message, pointer });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Report operation IDs used by more than one operation
+ */
+function checkOperationIds(spec: OpenAPISpec): SpecDiagnostic[] {
+  const pointersById = new Map<string, string[]>();
+
+  eachOperation(spec, (operation, pointer) => {
+    if (operation.operationId !== undefined) {
+      const pointers = pointersById.get(operation.operationId) || [];
+      pointersById.set(operation.operationId, [
+        ...pointers,
+        `${pointer}/operationId`,
+      ]);
+    }
+  });
+
+  const diagnostics: SpecDiagnostic[] = [];
+  pointersById.forEach((pointers, operationId) => {
+    if (pointers.length > 1) {
+      pointers.forEach(pointer =>
+        diagnostics.push({
+          rule: 'operation-id',
+          message: `operationId "${operationId}" is used by ${pointers.length} operations`,
+          pointer,
+        })
+      );
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Compare the `{param}` placeholders of each path with its path parameters
+ */
+function checkPathParameters(spec: OpenAPISpec): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+
+  eachOperation(spec, (operation, pointer, path, pathItem) => {
+    const placeholders = (path.match(/\{[^}]+\}/g) || []).map(match =>
+      match.slice(1, -1).replace(/\+$/, '')
+    );
+
+    const declared: Array<{ parameter: ParameterObject; pointer: string }> = [];
+    const collect = (
+      parameters: PathItemObject['parameters'],
+      base: string
+    ) => {
+      (parameters || []).forEach((parameter, index) => {
+        if (!('$ref' in parameter) && parameter.in === 'path') {
+          declared.push({ parameter, pointer: `${base}/parameters/${index}` });
+        }
+      });
+    };
+    collect(pathItem.parameters, pointer.slice(0, pointer.lastIndexOf('/')));
+    collect(operation.parameters, pointer);
+
+    placeholders
+      .filter(
+        name => !declared.some(({ parameter }) => parameter.name === name)
+      )
+      .forEach(name =>
+        diagnostics.push({
+          rule: 'path-parameter',
+          message: `Path parameter "${name}" of ${path} is not declared`,
+          pointer,
+        })
+      );
+
+    declared.forEach(({ parameter, pointer: parameterPointer }) => {
+      if (!placeholders.includes(parameter.name)) {
+        diagnostics.push({
+          rule: 'path-parameter',
+          message: `Path parameter "${parameter.name}" does not appear in ${path}`,
+          pointer: parameterPointer,
+        });
+      } else if (parameter.required !== true) {
+        diagnostics.push({
+          rule: 'path-parameter',
+          message: `Path parameter "${parameter.name}" must be required`,
+          pointer: parameterPointer,
+        });
+      }
+    });
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Report local `$ref`s that do not point to an existing value
+ */
+function checkReferences(spec: OpenAPISpec): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+
+  const visit = (value: unknown, pointer: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${pointer}/${index}`));
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const ref = (value as Record<string, unknown>).$ref;
+    if (
+      typeof ref === 'string' &&
+      ref.startsWith('#') &&
+      resolvePointer(spec, decodeFragment(ref.slice(1))) === undefined
+    ) {
+      diagnostics.push({
+        rule: 'ref',
+        message: `$ref "${ref}" does not resolve`,
+        pointer: `${pointer}/$ref`,
+      });
+    }
+
+    Object.entries(value).forEach(([key, child]) =>
+      visit(child, `${pointer}/${escapePointer(key)}`)
+    );
+  };
+  visit(spec, '');
+
+  return diagnostics;
+}
+
+/**
+ * Report response keys that are not valid HTTP status codes
+ */
+function checkResponseCodes(spec: OpenAPISpec): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+
+  eachOperation(spec, (operation, pointer) => {
+    Object.keys(operation.responses || {})
+      .filter(code => !code.startsWith('x-') && !RESPONSE_CODE.test(code))
+      .forEach(code =>
+        diagnostics.push({
+          rule: 'response-code',
+          message: `Invalid response code "${code}"; use 100-599, 1XX-5XX or default`,
+          pointer: `${pointer}/responses/${escapePointer(code)}`,
+        })
+      );
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Call a function for every operation of a specification
+ */
+function eachOperation(
+  spec: OpenAPISpec,
+  callback: (
+    operation: OperationObject,
+    pointer: string,
+    path: string,
+    pathItem: PathItemObject
+  ) => void
+): void {
+  Object.entries(spec.paths || {}).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach(method => {
+      const operation = (pathItem as any)[method] as
+        | OperationObject
+        | undefined;
+      if (operation) {
+        callback(
+          operation,
+          `/paths/${escapePointer(path)}/${method}`,
+          path,
+          pathItem
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Attach the handler and decorator responsible for a diagnostic
+ */
+function locate(
+  diagnostic: SpecDiagnostic,
+  spec: OpenAPISpec,
+  sources: Map<OperationObject, OperationSource>
+): SpecDiagnostic {
+  const segments = diagnostic.pointer.split('/').slice(1).map(unescapePointer);
+  if (
+    segments[0] !== 'paths' ||
+    !HTTP_METHODS.includes(segments[2] as HttpMethod)
+  ) {
+    return diagnostic;
+  }
+
+  const operation = (spec.paths[segments[1]] as any)?.[segments[2]] as
+    | OperationObject
+    | undefined;
+  const source = operation && sources.get(operation);
+  if (!source) {
+    return diagnostic;
+  }
+
+  const located: SpecDiagnostic = {
+    ...diagnostic,
+    handler: source.functionName,
+    decorator: decoratorFor(diagnostic, operation!, segments.slice(3)),
+  };
+  if (source.filePath) {
+    located.filePath = source.filePath;
+  }
+  return located;
+}
+
+/**
+ * Name the decorator declaring the value at a location within an operation
+ */
+function decoratorFor(
+  diagnostic: SpecDiagnostic,
+  operation: OperationObject,
+  segments: string[]
+): string {
+  switch (segments[0]) {
+    case 'parameters': {
+      const parameter = operation.parameters?.[Number(segments[1])];
+      const location = parameter && 'in' in parameter ? parameter.in : 'path';
+      return PARAMETER_DECORATORS[location] || '@ApiParam';
+    }
+    case 'requestBody':
+      return '@ApiBody';
+    case 'responses':
+      return '@ApiResponse';
+    case 'security':
+      return '@ApiSecurity';
+    case undefined:
+      // Undeclared path placeholders are fixed with an @ApiParam
+      return diagnostic.rule === 'path-parameter' ? '@ApiParam' : '@ApiRoute';
+    default:
+      return '@ApiOperation';
+  }
+}
+
+/**
+ * Resolve a JSON pointer against a document
+ */
+function resolvePointer(document: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    return document;
+  }
+  if (!pointer.startsWith('/')) {
+    return undefined;
+  }
+
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(unescapePointer)
+    .reduce<unknown>(
+      (value, segment) =>
+        value && typeof value === 'object' && segment in value
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      document
+    );
+}
+
+/**
+ * Whether the schema errors at and below a diagnostic are the same problem
+ *
+ * Invalid response codes and path parameters also fail the schema; an
+ * undeclared placeholder points at the whole operation and explains nothing.
+ */
+function explainsSchemaErrors(diagnostic: SpecDiagnostic): boolean {
+  return (
+    diagnostic.rule === 'response-code' ||
+    (diagnostic.rule === 'path-parameter' &&
+      /\/parameters\/\d+$/.test(diagnostic.pointer))
+  );
+}
+
+/**
+ * Whether a pointer equals or lies below another pointer
+ */
+function isWithin(pointer: string, ancestor: string): boolean {
+  return pointer === ancestor || pointer.startsWith(`${ancestor}/`);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Decode the percent-encoding of a URI fragment, keeping malformed input
+ */
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
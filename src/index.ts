@@ -5,7 +5,33 @@ export * from './decorators';
 export * from './types';
 
 // Core functionality
-export { generateOpenApiSpec, OpenApiGenerator } from './generator';
+export {
+  generateOpenApiSpec,
+  OpenApiGenerator,
+  serializeOpenApiSpec,
+  resolveOutputFormat,
+  writeOpenApiSpec,
+  OutputFormat,
+  SerializeOptions,
+  validateOpenApiSpec,
+  formatSpecDiagnostics,
+  OperationSource,
+  SpecDiagnostic,
+  SpecValidationResult,
+  SpecValidationRule,
+  comparePaths,
+  compareMethods,
+  sortPathsObject,
+  addApiGatewayExtensions,
+  DEFAULT_LAMBDA_ARN,
+  DEFAULT_CORS_HEADERS,
+} from './generator';
+
+// Configuration
+export * from './config';
+
+// Code analysis
+export * from './analyzer';
 
 // Utilities
 export * from './utils';
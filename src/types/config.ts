@@ -2,15 +2,29 @@
  * Configuration type definitions
  */
 
+import { SecuritySchemeObject, ServerObject } from './openapi';
+import { ApiHeaderOptions } from './decorator-options';
+
+/**
+ * Comparator ordering two values like `Array.prototype.sort` expects
+ */
+export type Comparator<T = string> = (a: T, b: T) => number;
+
 /**
  * Configuration for OpenAPI generation
  */
 export interface GeneratorConfig {
-  /** Input paths to scan for Lambda handlers */
+  /** Files, directories or glob patterns to scan for Lambda handlers */
   inputPaths: string[];
+  /** Glob patterns of handler files to load (defaults to TypeScript and JavaScript files) */
+  include?: string[];
+  /** Glob patterns of files to skip during handler discovery */
+  exclude?: string[];
+  /** TypeScript config used to resolve interface and type alias names */
+  tsConfigPath?: string;
   /** Output file path */
   outputPath?: string;
-  /** Output format */
+  /** Output format (inferred from the outputPath extension when omitted) */
   format?: 'json' | 'yaml';
   /** API information */
   info: {
@@ -34,13 +48,16 @@ export interface GeneratorConfig {
       url?: string;
     };
   };
-  /** Server information */
-  servers?: Array<{
-    url: string;
-    description?: string;
-  }>;
+  /** Server information; `{name}` placeholders in URLs are declared in `variables` */
+  servers?: ServerObject[];
   /** Base path for API routes */
   basePath?: string;
+  /** Apply basePath by prefixing every path (default) or by appending it to the server URLs */
+  basePathMode?: 'paths' | 'servers';
+  /** Named security schemes added to components.securitySchemes */
+  securitySchemes?: Record<string, SecuritySchemeObject>;
+  /** Reusable response headers added to components.headers, referenced by name from @ApiResponse */
+  headers?: Record<string, ApiHeaderOptions>;
   /** Global security definitions */
   security?: Array<{
     [key: string]: string[];
@@ -59,16 +76,22 @@ export interface GeneratorConfig {
     description?: string;
     url: string;
   };
+  /** API Gateway settings used when `options.includeLambdaExtensions` is on */
+  apiGateway?: ApiGatewayConfig;
   /** Generation options */
   options?: {
     /** Include only exported functions */
     exportedOnly?: boolean;
-    /** Include function names in operation IDs */
+    /** Read decorator arguments from the handler sources instead of loading the handler modules */
+    staticAnalysis?: boolean;
+    /** Derive missing operation IDs from handler function names */
     includeOperationIds?: boolean;
-    /** Sort paths alphabetically */
-    sortPaths?: boolean;
-    /** Sort operations by HTTP method */
-    sortOperations?: boolean;
+    /** Sort paths segment by segment, or with a custom path comparator */
+    sortPaths?: boolean | Comparator;
+    /** Sort operations by HTTP method, or with a custom method comparator */
+    sortOperations?: boolean | Comparator;
+    /** Sort top-level tags alphabetically */
+    sortTags?: boolean;
     /** Include Lambda-specific extensions */
     includeLambdaExtensions?: boolean;
     /** Validate generated schema */
@@ -78,6 +101,93 @@ export interface GeneratorConfig {
   };
 }
 
+/**
+ * API Gateway extensions emitted for an import-ready document
+ */
+export interface ApiGatewayConfig {
+  /**
+   * Lambda function ARN invoked by each operation; `{functionName}`, `{operationId}`,
+   * `{region}` and `{accountId}` are substituted (defaults to
+   * `arn:aws:lambda:{region}:{accountId}:function:{functionName}`)
+   */
+  lambdaArn?: string | ((operation: ApiGatewayOperation) => string);
+  /**
+   * AWS region of the API; required unless a complete `lambdaArn` names it
+   * or `cloudFormation` is set
+   */
+  region?: string;
+  /** AWS account ID; required by a `lambdaArn` using `{accountId}` unless `cloudFormation` is set */
+  accountId?: string;
+  /**
+   * Reference the `${AWS::Region}` and `${AWS::AccountId}` pseudo parameters
+   * for a missing region and account ID, and wrap integration URIs in
+   * `Fn::Sub`, for documents embedded in a CloudFormation template with
+   * `AWS::Include`
+   */
+  cloudFormation?: boolean;
+  /** Integration timeout in milliseconds */
+  timeoutInMillis?: number;
+  /** Request validator applied to every operation (defaults to 'all') */
+  requestValidator?: 'all' | 'body' | 'params' | 'none';
+  /** Media types API Gateway passes through as binary */
+  binaryMediaTypes?: string[];
+  /** Answer CORS preflight requests with OPTIONS mock integrations */
+  cors?: boolean | ApiGatewayCorsConfig;
+  /** Gateway responses keyed by response type, e.g. `DEFAULT_4XX` */
+  gatewayResponses?: Record<string, ApiGatewayResponse>;
+}
+
+/**
+ * Operation passed to a `lambdaArn` function
+ */
+export interface ApiGatewayOperation {
+  /** Handler function name */
+  functionName: string;
+  /** Operation ID, if any */
+  operationId?: string;
+  /** Path of the operation */
+  path: string;
+  /** Lowercase HTTP method */
+  method: string;
+}
+
+/**
+ * CORS settings for OPTIONS mock integrations
+ */
+export interface ApiGatewayCorsConfig {
+  /** Allowed origin (defaults to '*') */
+  allowOrigin?: string;
+  /** Allowed request headers */
+  allowHeaders?: string[];
+  /** Allow credentials */
+  allowCredentials?: boolean;
+  /** Seconds browsers may cache the preflight response */
+  maxAge?: number;
+}
+
+/**
+ * Gateway response of API Gateway
+ */
+export interface ApiGatewayResponse {
+  /** Status code of the response */
+  statusCode?: number | string;
+  /** Header mappings, e.g. `{ 'gatewayresponse.header.X-Request-Id': 'context.requestId' }` */
+  responseParameters?: Record<string, string>;
+  /** Body templates keyed by media type */
+  responseTemplates?: Record<string, string>;
+}
+
+/**
+ * Configuration accepted by config files and `defineConfig()`
+ *
+ * Every field is optional because missing values are filled in from
+ * `DEFAULT_CONFIG` and the command line.
+ */
+export interface UserConfig extends Omit<Partial<GeneratorConfig>, 'info'> {
+  /** API information, merged field by field with the defaults */
+  info?: Partial<GeneratorConfig['info']>;
+}
+
 /**
  * CLI configuration
  */
@@ -96,7 +206,7 @@ export interface CliConfig {
   description?: string;
   /** Base path */
   basePath?: string;
-  /** Configuration file path */
+  /** Configuration file path (found automatically when omitted) */
   config?: string;
   /** Watch for changes */
   watch?: boolean;
@@ -110,7 +220,6 @@ export interface CliConfig {
  * Default configuration values
  */
 export const DEFAULT_CONFIG: Partial<GeneratorConfig> = {
-  format: 'json',
   info: {
     title: 'Lambda API',
     version: '1.0.0',
@@ -139,10 +248,12 @@ export const DEFAULT_CONFIG: Partial<GeneratorConfig> = {
 export interface ConfigValidationRule {
   /** Rule name */
   name: string;
-  /** Validation function */
+  /** Validation function, returning false when the rule is violated */
   validate: (config: GeneratorConfig) => boolean;
-  /** Error message */
-  message: string;
+  /** Error message, optionally computed from the configuration */
+  message: string | ((config: GeneratorConfig) => string);
+  /** Whether a violation is an error (default) or a warning */
+  severity?: 'error' | 'warning';
 }
 
 /**
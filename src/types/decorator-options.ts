@@ -2,6 +2,8 @@
  * Type definitions for decorator options
  */
 
+import { OAuthFlowsObject } from './openapi';
+
 // Type constructor for class types
 export type TypeConstructor = new (...args: any[]) => any;
 
@@ -24,6 +26,35 @@ export interface ApiOperationOptions {
   deprecated?: boolean;
 }
 
+/**
+ * HTTP methods supported by OpenAPI path items, in specification order
+ */
+export const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+/**
+ * HTTP method of an OpenAPI path item
+ */
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * Options for @ApiRoute decorator
+ */
+export interface ApiRouteOptions {
+  /** HTTP method (case-insensitive) */
+  method: HttpMethod | Uppercase<HttpMethod>;
+  /** Route path with `{param}` placeholders, e.g. `/users/{userId}` */
+  path: string;
+}
+
 /**
  * Options for @ApiResponse decorator
  */
@@ -36,8 +67,8 @@ export interface ApiResponseOptions {
   type?: TypeReference;
   /** Example response */
   example?: any;
-  /** Response headers */
-  headers?: Record<string, ApiHeaderOptions>;
+  /** Response headers by name; a string refers to a header declared in the `headers` configuration */
+  headers?: Record<string, ApiHeaderOptions | string>;
   /** Content type specific schemas */
   content?: Record<string, any>;
 }
@@ -98,6 +129,28 @@ export interface ApiHeaderOptions {
   type?: TypeReference;
   /** Example value */
   example?: any;
+  /** Enum values */
+  enum?: any[];
+  /** Mark as deprecated */
+  deprecated?: boolean;
+}
+
+/**
+ * Options for @ApiCookie decorator
+ */
+export interface ApiCookieOptions {
+  /** Cookie name */
+  name: string;
+  /** Cookie description */
+  description?: string;
+  /** Whether the cookie is required */
+  required?: boolean;
+  /** Cookie type */
+  type?: TypeReference;
+  /** Example value */
+  example?: any;
+  /** Enum values */
+  enum?: any[];
   /** Mark as deprecated */
   deprecated?: boolean;
 }
@@ -138,6 +191,10 @@ export interface ApiSecurityOptions {
   openIdConnectUrl?: string;
   /** Description of the security scheme */
   description?: string;
+  /** OAuth2 flow definitions */
+  flows?: OAuthFlowsObject;
+  /** Name of the scheme in components.securitySchemes (derived when omitted) */
+  schemeName?: string;
 }
 
 /**
@@ -153,4 +210,107 @@ export interface ApiTagOptions {
     description?: string;
     url: string;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Options for @ApiController decorator, defaults for the decorated methods of a class
+ */
+export interface ApiControllerOptions {
+  /** Path prefix of the method routes, e.g. `/users` */
+  basePath?: string;
+  /** Tags of operations that declare no tags of their own */
+  tags?: string[];
+  /** Security requirements of operations that declare none and are not public */
+  security?: ApiSecurityOptions[];
+  /** Responses added to every operation, unless it declares the same status */
+  responses?: ApiResponseOptions[];
+}
+
+/**
+ * Controller default a method can opt out of with @ApiSkipControllerDefaults
+ */
+export type ApiControllerDefault = keyof ApiControllerOptions;
+
+/**
+ * Options for withOpenApi, one entry per decorator
+ */
+export interface WithOpenApiOptions {
+  /** Handler name used for derived paths and operation IDs (defaults to the function name) */
+  name?: string;
+  /** Operation metadata, as for @ApiOperation */
+  operation: ApiOperationOptions;
+  /** HTTP method and path, as for @ApiRoute */
+  route?: ApiRouteOptions;
+  /** Path parameters, as for @ApiParam */
+  params?: ApiParamOptions[];
+  /** Query parameters, as for @ApiQuery */
+  queries?: ApiQueryOptions[];
+  /** Request headers, as for @ApiHeader */
+  headers?: Array<ApiHeaderOptions & { name: string }>;
+  /** Cookies, as for @ApiCookie */
+  cookies?: ApiCookieOptions[];
+  /** Request body, as for @ApiBody */
+  body?: ApiBodyOptions;
+  /** Responses, as for @ApiResponse */
+  responses?: ApiResponseOptions[];
+  /** Security requirements, as for @ApiSecurity */
+  security?: ApiSecurityOptions[];
+  /** Mark the operation as public, as @ApiPublic does */
+  public?: boolean;
+  /** Tags with descriptions, as for @ApiTag */
+  tags?: ApiTagOptions[];
+}
+
+/**
+ * Options for @ApiSchema decorator
+ */
+export interface ApiSchemaOptions {
+  /** Name of the schema in components.schemas (defaults to the class name) */
+  name?: string;
+  /** Schema description */
+  description?: string;
+}
+
+/**
+ * Options for @ApiProperty decorator
+ */
+export interface ApiPropertyOptions {
+  /** Property description */
+  description?: string;
+  /** Property type (defaults to the reflected design type) */
+  type?: TypeReference;
+  /** Element type for array properties */
+  items?: TypeReference;
+  /** Whether the property is required */
+  required?: boolean;
+  /** Whether the property accepts null */
+  nullable?: boolean;
+  /** Value format, e.g. `date-time` or `email` */
+  format?: string;
+  /** Minimum numeric value */
+  minimum?: number;
+  /** Maximum numeric value */
+  maximum?: number;
+  /** Minimum string length */
+  minLength?: number;
+  /** Maximum string length */
+  maxLength?: number;
+  /** Minimum array length */
+  minItems?: number;
+  /** Maximum array length */
+  maxItems?: number;
+  /** Regular expression the value must match */
+  pattern?: string;
+  /** Enum values, or a TypeScript enum object */
+  enum?: any[] | Record<string, string | number>;
+  /** Example value */
+  example?: any;
+  /** Default value */
+  default?: any;
+  /** Mark as read-only */
+  readOnly?: boolean;
+  /** Mark as write-only */
+  writeOnly?: boolean;
+  /** Mark as deprecated */
+  deprecated?: boolean;
+}
@@ -2,19 +2,28 @@
  * Internal type definitions for metadata storage and processing
  */
 
-import { ApiOperationOptions, ApiResponseOptions, ApiParamOptions, ApiQueryOptions, ApiBodyOptions, ApiSecurityOptions, ApiTagOptions } from './decorator-options';
+import { HttpMethod, ApiOperationOptions, ApiRouteOptions, ApiResponseOptions, ApiParamOptions, ApiQueryOptions, ApiHeaderOptions, ApiCookieOptions, ApiBodyOptions, ApiSecurityOptions, ApiTagOptions, ApiPropertyOptions, ApiSchemaOptions, TypeConstructor } from './decorator-options';
 
 /**
  * Metadata key constants for reflect-metadata
  */
 export const METADATA_KEYS = {
   API_OPERATION: 'lambda-openapi:operation',
+  API_ROUTE: 'lambda-openapi:route',
   API_RESPONSES: 'lambda-openapi:responses',
   API_PARAMS: 'lambda-openapi:params',
   API_QUERIES: 'lambda-openapi:queries',
+  API_HEADERS: 'lambda-openapi:headers',
+  API_COOKIES: 'lambda-openapi:cookies',
   API_BODY: 'lambda-openapi:body',
   API_SECURITY: 'lambda-openapi:security',
   API_TAGS: 'lambda-openapi:tags',
+  API_PUBLIC: 'lambda-openapi:public',
+  API_PROPERTIES: 'lambda-openapi:properties',
+  API_SCHEMA: 'lambda-openapi:schema',
+  API_METHODS: 'lambda-openapi:methods',
+  API_CONTROLLER: 'lambda-openapi:controller',
+  API_SKIPPED_CONTROLLER_DEFAULTS: 'lambda-openapi:skipped-controller-defaults',
 } as const;
 
 /**
@@ -27,6 +36,14 @@ export interface ApiOperationMetadata extends ApiOperationOptions {
   filePath?: string;
 }
 
+/**
+ * Stored metadata for API routes
+ */
+export interface ApiRouteMetadata extends ApiRouteOptions {
+  /** Normalized (lowercase) HTTP method */
+  method: HttpMethod;
+}
+
 /**
  * Stored metadata for API responses
  */
@@ -53,6 +70,24 @@ export interface ApiQueryMetadata extends ApiQueryOptions {
   order: number;
 }
 
+/**
+ * Stored metadata for API request headers
+ */
+export interface ApiHeaderMetadata extends ApiHeaderOptions {
+  /** Header name */
+  name: string;
+  /** Order in which the decorator was applied */
+  order: number;
+}
+
+/**
+ * Stored metadata for API cookies
+ */
+export interface ApiCookieMetadata extends ApiCookieOptions {
+  /** Order in which the decorator was applied */
+  order: number;
+}
+
 /**
  * Stored metadata for API body
  */
@@ -77,22 +112,66 @@ export interface ApiTagMetadata extends ApiTagOptions {
   order: number;
 }
 
+/**
+ * Stored metadata for API controllers, stored on the class and its methods
+ */
+export interface ApiControllerMetadata {
+  /** Class name */
+  className: string;
+  /** Normalized path prefix of the method routes */
+  basePath?: string;
+  /** Default operation tags */
+  tags?: string[];
+  /** Default security requirements */
+  security: ApiSecurityMetadata[];
+  /** Default responses */
+  responses: ApiResponseMetadata[];
+}
+
+/**
+ * Stored metadata for schema classes
+ */
+export interface ApiSchemaMetadata extends ApiSchemaOptions {
+  /** Class name */
+  className: string;
+}
+
+/**
+ * Stored metadata for schema class properties
+ */
+export interface ApiPropertyMetadata extends ApiPropertyOptions {
+  /** Property name */
+  name: string;
+  /** Type reflected from `design:type` */
+  designType?: TypeConstructor;
+  /** Order in which the decorator was applied */
+  order: number;
+}
+
 /**
  * Complete metadata for a Lambda handler function
  */
 export interface HandlerMetadata {
   /** Operation metadata */
   operation?: ApiOperationMetadata;
+  /** Route metadata */
+  route?: ApiRouteMetadata;
   /** Response metadata */
   responses: ApiResponseMetadata[];
   /** Parameter metadata */
   params: ApiParamMetadata[];
   /** Query parameter metadata */
   queries: ApiQueryMetadata[];
+  /** Request header metadata */
+  headers: ApiHeaderMetadata[];
+  /** Cookie metadata */
+  cookies: ApiCookieMetadata[];
   /** Body metadata */
   body?: ApiBodyMetadata;
   /** Security metadata */
   security: ApiSecurityMetadata[];
+  /** Whether the operation is explicitly public */
+  isPublic: boolean;
   /** Tag metadata */
   tags: ApiTagMetadata[];
 }
@@ -138,9 +217,13 @@ export interface TypeInfo {
   /** Type name */
   name: string;
   /** Type kind */
-  kind: 'primitive' | 'object' | 'array' | 'union' | 'intersection' | 'generic' | 'unknown';
+  kind: 'primitive' | 'literal' | 'object' | 'array' | 'union' | 'intersection' | 'generic' | 'unknown';
+  /** Value of literal types */
+  literal?: string | number | boolean;
   /** Properties for object types */
   properties?: PropertyInfo[];
+  /** Value type of index signatures, e.g. `Record<string, T>` */
+  additionalProperties?: TypeInfo;
   /** Element type for array types */
   elementType?: TypeInfo;
   /** Union/intersection members */
@@ -149,6 +232,8 @@ export interface TypeInfo {
   genericArgs?: TypeInfo[];
   /** Whether the type is nullable */
   nullable?: boolean;
+  /** File declaring named types */
+  filePath?: string;
 }
 
 /**
@@ -3,7 +3,14 @@
  * Based on https://swagger.io/specification/
  */
 
-export interface OpenAPISpec {
+/**
+ * Vendor extensions such as `x-amazon-apigateway-integration`
+ */
+export interface SpecificationExtensions {
+  [extension: `x-${string}`]: any;
+}
+
+export interface OpenAPISpec extends SpecificationExtensions {
   openapi: string;
   info: InfoObject;
   servers?: ServerObject[];
@@ -66,7 +73,7 @@ export interface PathItemObject {
   parameters?: (ParameterObject | ReferenceObject)[];
 }
 
-export interface OperationObject {
+export interface OperationObject extends SpecificationExtensions {
   tags?: string[];
   summary?: string;
   description?: string;
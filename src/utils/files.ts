@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Options for finding files
+ */
+export interface FindFilesOptions {
+  /** Glob patterns a file must match (any of them) */
+  include?: string[];
+  /** Glob patterns excluding a file (any of them) */
+  exclude?: string[];
+}
+
+/**
+ * Find files under the given files, directories or glob patterns
+ *
+ * Glob patterns support `**`, `*`, `?` and `{a,b}` and are matched against
+ * paths relative to the current working directory as well as absolute
+ * paths. `node_modules` directories are never entered. A glob pattern may
+ * match no file, but a file or directory has to exist.
+ *
+ * @param paths - Files, directories or glob patterns
+ * @param options - Include and exclude patterns
+ * @returns Absolute, sorted and unique file paths
+ * @throws When a file or directory does not exist
+ */
+export function findFiles(
+  paths: string[],
+  options: FindFilesOptions = {}
+): string[] {
+  const include = (options.include || []).map(globToRegExp);
+  const exclude = (options.exclude || []).map(globToRegExp);
+  const files = new Set<string>();
+
+  const accept = (file: string, patterns: RegExp[]) => {
+    const candidates = [toPosix(path.relative(process.cwd(), file)), file];
+    const matches = (pattern: RegExp) =>
+      candidates.some(candidate => pattern.test(candidate));
+
+    if (patterns.length > 0 && !patterns.every(matches)) {
+      return;
+    }
+    if (include.length > 0 && !include.some(matches)) {
+      return;
+    }
+    if (exclude.some(matches)) {
+      return;
+    }
+    files.add(file);
+  };
+
+  paths.forEach(entry => {
+    if (isGlob(entry)) {
+      const pattern = globToRegExp(toPosix(entry));
+      walk(globBase(entry)).forEach(file => accept(file, [pattern]));
+    } else if (fs.existsSync(entry)) {
+      walk(entry).forEach(file => accept(file, []));
+    } else {
+      throw new Error(`Input path not found: ${entry}`);
+    }
+  });
+
+  return Array.from(files).sort();
+}
+
+/**
+ * Check whether a path matches a glob pattern
+ *
+ * @param filePath - Path to test, with `/` or platform separators
+ * @param pattern - Glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(toPosix(filePath));
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` anything
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^(?:.*/)?${source}$`);
+}
+
+function isGlob(entry: string): boolean {
+  return /[*?{]/.test(entry);
+}
+
+/**
+ * Get the directory part of a glob pattern before its first wildcard
+ */
+function globBase(pattern: string): string {
+  const segments = toPosix(pattern).split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  return segments.slice(0, firstGlob).join('/') || '.';
+}
+
+/**
+ * List the files of a file or directory, recursively
+ */
+function walk(entry: string): string[] {
+  if (!fs.existsSync(entry)) {
+    return [];
+  }
+
+  if (!fs.statSync(entry).isDirectory()) {
+    return [path.resolve(entry)];
+  }
+
+  return fs
+    .readdirSync(entry)
+    .filter(child => child !== 'node_modules')
+    .sort()
+    .reduce<string[]>(
+      (files, child) => [...files, ...walk(path.join(entry, child))],
+      []
+    );
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
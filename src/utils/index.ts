@@ -1,2 +1,6 @@
 // Metadata management utilities
 export * from './metadata';
+export * from './metadata-registry';
+
+// File system utilities
+export * from './files';
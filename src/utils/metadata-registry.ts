@@ -0,0 +1,198 @@
+/**
+ * State of a metadata registry, as captured by `MetadataRegistry#snapshot`
+ */
+export interface MetadataRegistrySnapshot {
+  /** Metadata values by target and key */
+  readonly metadata: ReadonlyMap<object, ReadonlyMap<string, unknown>>;
+  /** Handlers in registration order */
+  readonly handlers: readonly any[];
+  /** Order the next decorator receives */
+  readonly order: number;
+}
+
+/**
+ * Storage for the metadata of decorated handlers and schema classes, and
+ * for the order in which decorators were applied
+ *
+ * Decorators store their metadata in the active registry: the default one,
+ * or the registry running a function with `run`. Generating several APIs in
+ * one process with a registry each keeps their handlers apart.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetadataRegistry();
+ * const spec = generateOpenApiSpec(config, undefined, registry);
+ * registry.getHandlers(); // handlers discovered for this API only
+ * ```
+ */
+export class MetadataRegistry {
+  /** Registry active unless another one runs */
+  static readonly default = new MetadataRegistry();
+
+  private static active: MetadataRegistry = MetadataRegistry.default;
+
+  private metadata = new Map<object, Map<string, unknown>>();
+  private handlers = new Set<any>();
+  private order = 0;
+
+  /**
+   * Get the registry decorators currently store their metadata in
+   */
+  static current(): MetadataRegistry {
+    return this.active;
+  }
+
+  /**
+   * Make this the active registry while running a function
+   *
+   * Modules loaded by the function store the metadata of their decorators
+   * here. A module is evaluated only once, so modules loaded before keep
+   * their metadata in the registry active back then.
+   *
+   * @param fn - Function to run
+   * @returns Result of the function
+   */
+  run<T>(fn: () => T): T {
+    const previous = MetadataRegistry.active;
+    MetadataRegistry.active = this;
+    try {
+      return fn();
+    } finally {
+      MetadataRegistry.active = previous;
+    }
+  }
+
+  /**
+   * Get the order of the next decorator applied, increasing across all
+   * decorators of this registry
+   */
+  nextOrder(): number {
+    return this.order++;
+  }
+
+  /**
+   * Restart decorator ordering at zero (useful for testing)
+   */
+  resetOrder(): void {
+    this.order = 0;
+  }
+
+  /**
+   * Store a metadata value on a target
+   */
+  define(key: string, value: unknown, target: object): void {
+    let values = this.metadata.get(target);
+    if (!values) {
+      values = new Map();
+      this.metadata.set(target, values);
+    }
+    values.set(key, value);
+  }
+
+  /**
+   * Get a metadata value of a target or, failing that, of its prototypes,
+   * so that subclasses inherit the metadata of their parent class
+   */
+  get(key: string, target: unknown): any {
+    for (
+      let current = target;
+      isObject(current);
+      current = Object.getPrototypeOf(current)
+    ) {
+      const values = this.metadata.get(current);
+      if (values?.has(key)) {
+        return values.get(key);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get a metadata value declared on the target itself
+   */
+  getOwn(key: string, target: unknown): any {
+    return isObject(target) ? this.metadata.get(target)?.get(key) : undefined;
+  }
+
+  /**
+   * Record a target as a decorated handler
+   */
+  addHandler(target: any): void {
+    this.handlers.add(target);
+  }
+
+  /**
+   * Get all decorated handlers, in decoration order
+   */
+  getHandlers(): any[] {
+    return Array.from(this.handlers);
+  }
+
+  /**
+   * Remove all metadata of a target
+   */
+  clear(target: any): void {
+    this.handlers.delete(target);
+    this.metadata.delete(target);
+  }
+
+  /**
+   * Capture the current state, to be restored later
+   *
+   * @returns Snapshot of the metadata, handlers and ordering
+   */
+  snapshot(): MetadataRegistrySnapshot {
+    return {
+      metadata: copyMetadata(this.metadata),
+      handlers: this.getHandlers(),
+      order: this.order,
+    };
+  }
+
+  /**
+   * Return to a captured state, dropping everything registered since
+   *
+   * @param snapshot - Snapshot taken from this or another registry
+   */
+  restore(snapshot: MetadataRegistrySnapshot): void {
+    this.metadata = copyMetadata(snapshot.metadata);
+    this.handlers = new Set(snapshot.handlers);
+    this.order = snapshot.order;
+  }
+
+  /**
+   * Remove all metadata and handlers, and restart ordering
+   */
+  reset(): void {
+    this.metadata = new Map();
+    this.handlers = new Set();
+    this.order = 0;
+  }
+
+  /**
+   * Create an isolated registry starting from the current state, so that
+   * schema classes and handlers already registered stay available while
+   * new registrations do not affect this registry
+   *
+   * @returns New registry
+   */
+  fork(): MetadataRegistry {
+    const registry = new MetadataRegistry();
+    registry.restore(this.snapshot());
+    return registry;
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return (
+    (typeof value === 'object' && value !== null) || typeof value === 'function'
+  );
+}
+
+function copyMetadata(
+  metadata: ReadonlyMap<object, ReadonlyMap<string, unknown>>
+): Map<object, Map<string, unknown>> {
+  return new Map(
+    Array.from(metadata, ([target, values]) => [target, new Map(values)])
+  );
+}
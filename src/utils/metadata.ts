@@ -1,32 +1,86 @@
-import 'reflect-metadata';
 import {
   METADATA_KEYS,
   ApiOperationMetadata,
+  ApiRouteMetadata,
   ApiResponseMetadata,
   ApiParamMetadata,
   ApiQueryMetadata,
+  ApiHeaderMetadata,
+  ApiCookieMetadata,
   ApiBodyMetadata,
   ApiSecurityMetadata,
   ApiTagMetadata,
+  ApiPropertyMetadata,
+  ApiSchemaMetadata,
+  ApiControllerMetadata,
   HandlerMetadata,
 } from '../types/internal';
+import { ApiControllerDefault } from '../types/decorator-options';
+import { MetadataRegistry } from './metadata-registry';
 
 /**
  * Utility functions for managing metadata storage and retrieval
+ *
+ * Metadata is stored in the active `MetadataRegistry`.
  */
 export class MetadataManager {
+  /**
+   * Registry the metadata is stored in, the active one
+   */
+  private static get registry(): MetadataRegistry {
+    return MetadataRegistry.current();
+  }
+
+  /**
+   * Get the order of the next decorator applied
+   */
+  static nextOrder(): number {
+    return this.registry.nextOrder();
+  }
+
+  /**
+   * Add metadata to a list kept in decorator order, and record the target
+   * as a handler
+   */
+  private static addOrdered<T extends { order: number }>(
+    key: string,
+    target: any,
+    existing: T[],
+    metadata: T
+  ): void {
+    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
+    this.registry.define(key, updated, target);
+    this.registry.addHandler(target);
+  }
+
   /**
    * Store API operation metadata
    */
   static setOperation(target: any, metadata: ApiOperationMetadata): void {
-    Reflect.defineMetadata(METADATA_KEYS.API_OPERATION, metadata, target);
+    this.registry.define(METADATA_KEYS.API_OPERATION, metadata, target);
+    this.registry.addHandler(target);
   }
 
   /**
    * Get API operation metadata
    */
   static getOperation(target: any): ApiOperationMetadata | undefined {
-    return Reflect.getMetadata(METADATA_KEYS.API_OPERATION, target);
+    return this.registry.get(METADATA_KEYS.API_OPERATION, target);
+  }
+
+  /**
+   * Store API route metadata
+   */
+  static setRoute(target: any, metadata: ApiRouteMetadata): void {
+    this.registry.define(METADATA_KEYS.API_ROUTE, metadata, target);
+    this.registry.addHandler(target);
+  }
+
+  /**
+   * Get API route metadata
+   */
+  static getRoute(target: any): ApiRouteMetadata | undefined {
+    return this.registry.get(METADATA_KEYS.API_ROUTE, target);
   }
 
   /**
@@ -34,15 +88,14 @@ export class MetadataManager {
    */
   static addResponse(target: any, metadata: ApiResponseMetadata): void {
     const existing = this.getResponses(target);
-    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
-    Reflect.defineMetadata(METADATA_KEYS.API_RESPONSES, updated, target);
+    this.addOrdered(METADATA_KEYS.API_RESPONSES, target, existing, metadata);
   }
 
   /**
    * Get all API response metadata
    */
   static getResponses(target: any): ApiResponseMetadata[] {
-    return Reflect.getMetadata(METADATA_KEYS.API_RESPONSES, target) || [];
+    return this.registry.get(METADATA_KEYS.API_RESPONSES, target) || [];
   }
 
   /**
@@ -50,15 +103,14 @@ export class MetadataManager {
    */
   static addParam(target: any, metadata: ApiParamMetadata): void {
     const existing = this.getParams(target);
-    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
-    Reflect.defineMetadata(METADATA_KEYS.API_PARAMS, updated, target);
+    this.addOrdered(METADATA_KEYS.API_PARAMS, target, existing, metadata);
   }
 
   /**
    * Get all API parameter metadata
    */
   static getParams(target: any): ApiParamMetadata[] {
-    return Reflect.getMetadata(METADATA_KEYS.API_PARAMS, target) || [];
+    return this.registry.get(METADATA_KEYS.API_PARAMS, target) || [];
   }
 
   /**
@@ -66,29 +118,75 @@ export class MetadataManager {
    */
   static addQuery(target: any, metadata: ApiQueryMetadata): void {
     const existing = this.getQueries(target);
-    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
-    Reflect.defineMetadata(METADATA_KEYS.API_QUERIES, updated, target);
+    this.addOrdered(METADATA_KEYS.API_QUERIES, target, existing, metadata);
   }
 
   /**
    * Get all API query parameter metadata
    */
   static getQueries(target: any): ApiQueryMetadata[] {
-    return Reflect.getMetadata(METADATA_KEYS.API_QUERIES, target) || [];
+    return this.registry.get(METADATA_KEYS.API_QUERIES, target) || [];
+  }
+
+  /**
+   * Add API request header metadata
+   *
+   * Header names are case-insensitive, so a header differing only in case
+   * from one already declared is rejected.
+   */
+  static addHeader(target: any, metadata: ApiHeaderMetadata): void {
+    const existing = this.getHeaders(target);
+    const duplicate = existing.find(
+      header => header.name.toLowerCase() === metadata.name.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error(
+        `Duplicate @ApiHeader "${metadata.name}" on handler "${target.name}" (already declared as "${duplicate.name}")`
+      );
+    }
+    this.addOrdered(METADATA_KEYS.API_HEADERS, target, existing, metadata);
+  }
+
+  /**
+   * Get all API request header metadata
+   */
+  static getHeaders(target: any): ApiHeaderMetadata[] {
+    return this.registry.get(METADATA_KEYS.API_HEADERS, target) || [];
+  }
+
+  /**
+   * Add API cookie metadata
+   */
+  static addCookie(target: any, metadata: ApiCookieMetadata): void {
+    const existing = this.getCookies(target);
+    if (existing.some(cookie => cookie.name === metadata.name)) {
+      throw new Error(
+        `Duplicate @ApiCookie "${metadata.name}" on handler "${target.name}"`
+      );
+    }
+    this.addOrdered(METADATA_KEYS.API_COOKIES, target, existing, metadata);
+  }
+
+  /**
+   * Get all API cookie metadata
+   */
+  static getCookies(target: any): ApiCookieMetadata[] {
+    return this.registry.get(METADATA_KEYS.API_COOKIES, target) || [];
   }
 
   /**
    * Set API body metadata
    */
   static setBody(target: any, metadata: ApiBodyMetadata): void {
-    Reflect.defineMetadata(METADATA_KEYS.API_BODY, metadata, target);
+    this.registry.define(METADATA_KEYS.API_BODY, metadata, target);
+    this.registry.addHandler(target);
   }
 
   /**
    * Get API body metadata
    */
   static getBody(target: any): ApiBodyMetadata | undefined {
-    return Reflect.getMetadata(METADATA_KEYS.API_BODY, target);
+    return this.registry.get(METADATA_KEYS.API_BODY, target);
   }
 
   /**
@@ -96,15 +194,29 @@ export class MetadataManager {
    */
   static addSecurity(target: any, metadata: ApiSecurityMetadata): void {
     const existing = this.getSecurity(target);
-    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
-    Reflect.defineMetadata(METADATA_KEYS.API_SECURITY, updated, target);
+    this.addOrdered(METADATA_KEYS.API_SECURITY, target, existing, metadata);
   }
 
   /**
    * Get all API security metadata
    */
   static getSecurity(target: any): ApiSecurityMetadata[] {
-    return Reflect.getMetadata(METADATA_KEYS.API_SECURITY, target) || [];
+    return this.registry.get(METADATA_KEYS.API_SECURITY, target) || [];
+  }
+
+  /**
+   * Mark target as an explicitly public operation
+   */
+  static setPublic(target: any): void {
+    this.registry.define(METADATA_KEYS.API_PUBLIC, true, target);
+    this.registry.addHandler(target);
+  }
+
+  /**
+   * Check whether target is an explicitly public operation
+   */
+  static isPublic(target: any): boolean {
+    return this.registry.get(METADATA_KEYS.API_PUBLIC, target) === true;
   }
 
   /**
@@ -112,30 +224,175 @@ export class MetadataManager {
    */
   static addTag(target: any, metadata: ApiTagMetadata): void {
     const existing = this.getTags(target);
-    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
-    Reflect.defineMetadata(METADATA_KEYS.API_TAGS, updated, target);
+    this.addOrdered(METADATA_KEYS.API_TAGS, target, existing, metadata);
   }
 
   /**
    * Get all API tag metadata
    */
   static getTags(target: any): ApiTagMetadata[] {
-    return Reflect.getMetadata(METADATA_KEYS.API_TAGS, target) || [];
+    return this.registry.get(METADATA_KEYS.API_TAGS, target) || [];
+  }
+
+  /**
+   * Add schema property metadata to a class, or to its class metadata
+   * under standard decorators
+   *
+   * A property redeclared in a subclass replaces the inherited one.
+   */
+  static addProperty(target: any, metadata: ApiPropertyMetadata): void {
+    const existing = this.getProperties(target).filter(
+      property => property.name !== metadata.name
+    );
+    const updated = [...existing, metadata].sort((a, b) => a.order - b.order);
+    this.registry.define(METADATA_KEYS.API_PROPERTIES, updated, target);
+  }
+
+  /**
+   * Get all schema property metadata of a class, including inherited ones,
+   * falling back to the class metadata of standard decorators
+   */
+  static getProperties(target: any): ApiPropertyMetadata[] {
+    const classMetadata = this.getClassMetadata(target);
+    return (
+      this.registry.get(METADATA_KEYS.API_PROPERTIES, target) ||
+      (classMetadata &&
+        this.registry.get(METADATA_KEYS.API_PROPERTIES, classMetadata)) ||
+      []
+    );
+  }
+
+  /**
+   * Store API controller metadata on a class or one of its methods
+   */
+  static setController(target: any, metadata: ApiControllerMetadata): void {
+    this.registry.define(METADATA_KEYS.API_CONTROLLER, metadata, target);
+  }
+
+  /**
+   * Get API controller metadata of a class or one of its methods
+   */
+  static getController(target: any): ApiControllerMetadata | undefined {
+    return this.registry.get(METADATA_KEYS.API_CONTROLLER, target);
+  }
+
+  /**
+   * Record controller defaults a method does not take
+   */
+  static skipControllerDefaults(
+    target: any,
+    defaults: ApiControllerDefault[]
+  ): void {
+    const updated = Array.from(
+      new Set([...this.getSkippedControllerDefaults(target), ...defaults])
+    );
+    this.registry.define(
+      METADATA_KEYS.API_SKIPPED_CONTROLLER_DEFAULTS,
+      updated,
+      target
+    );
+  }
+
+  /**
+   * Get controller defaults a method does not take
+   */
+  static getSkippedControllerDefaults(target: any): ApiControllerDefault[] {
+    return (
+      this.registry.get(
+        METADATA_KEYS.API_SKIPPED_CONTROLLER_DEFAULTS,
+        target
+      ) || []
+    );
+  }
+
+  /**
+   * Record a decorated method in the metadata standard decorators share per
+   * class (`context.metadata`)
+   */
+  static addMethod(classMetadata: object, name: string, handler: any): void {
+    const existing = this.registry.get(
+      METADATA_KEYS.API_METHODS,
+      classMetadata
+    );
+    this.registry.define(
+      METADATA_KEYS.API_METHODS,
+      { ...existing, [name]: handler },
+      classMetadata
+    );
+  }
+
+  /**
+   * Get the decorated methods recorded in the class metadata of a class,
+   * including inherited ones
+   *
+   * Class decorators pass the metadata they receive, as the class holds it
+   * only once it is defined.
+   */
+  static getMethods(
+    target: any,
+    classMetadata = this.getClassMetadata(target)
+  ): any[] {
+    const methods =
+      classMetadata &&
+      this.registry.get(METADATA_KEYS.API_METHODS, classMetadata);
+    return methods ? Object.values(methods) : [];
+  }
+
+  /**
+   * Get the metadata standard decorators stored for a class, which it holds
+   * as `Symbol.metadata` (a registered symbol where the runtime lacks it)
+   */
+  static getClassMetadata(target: any): object | undefined {
+    if (typeof target !== 'function') {
+      return undefined;
+    }
+    const key = (Symbol as any).metadata ?? Symbol.for('Symbol.metadata');
+    return target[key] ?? undefined;
+  }
+
+  /**
+   * Store schema class metadata
+   */
+  static setSchema(target: any, metadata: ApiSchemaMetadata): void {
+    this.registry.define(METADATA_KEYS.API_SCHEMA, metadata, target);
+  }
+
+  /**
+   * Get schema class metadata declared on the class itself
+   */
+  static getSchema(target: any): ApiSchemaMetadata | undefined {
+    return this.registry.getOwn(METADATA_KEYS.API_SCHEMA, target);
   }
 
   /**
    * Get complete handler metadata
+   *
+   * The defaults of the @ApiController of a method are merged in, except
+   * for those the method skips; its own metadata takes precedence.
    */
   static getHandlerMetadata(target: any): HandlerMetadata {
-    return {
+    const metadata: HandlerMetadata = {
       operation: this.getOperation(target),
+      route: this.getRoute(target),
       responses: this.getResponses(target),
       params: this.getParams(target),
       queries: this.getQueries(target),
+      headers: this.getHeaders(target),
+      cookies: this.getCookies(target),
       body: this.getBody(target),
       security: this.getSecurity(target),
+      isPublic: this.isPublic(target),
       tags: this.getTags(target),
     };
+
+    const controller = this.getController(target);
+    return controller
+      ? applyControllerDefaults(
+          metadata,
+          controller,
+          this.getSkippedControllerDefaults(target)
+        )
+      : metadata;
   }
 
   /**
@@ -144,26 +401,31 @@ export class MetadataManager {
   static hasMetadata(target: any): boolean {
     return (
       this.getOperation(target) !== undefined ||
+      this.getRoute(target) !== undefined ||
       this.getResponses(target).length > 0 ||
       this.getParams(target).length > 0 ||
       this.getQueries(target).length > 0 ||
+      this.getHeaders(target).length > 0 ||
+      this.getCookies(target).length > 0 ||
       this.getBody(target) !== undefined ||
       this.getSecurity(target).length > 0 ||
+      this.isPublic(target) ||
       this.getTags(target).length > 0
     );
   }
 
+  /**
+   * Get all targets that received handler metadata, in decoration order
+   */
+  static getDecoratedHandlers(): any[] {
+    return this.registry.getHandlers();
+  }
+
   /**
    * Clear all metadata from target
    */
   static clearMetadata(target: any): void {
-    Reflect.deleteMetadata(METADATA_KEYS.API_OPERATION, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_RESPONSES, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_PARAMS, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_QUERIES, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_BODY, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_SECURITY, target);
-    Reflect.deleteMetadata(METADATA_KEYS.API_TAGS, target);
+    this.registry.clear(target);
   }
 
   /**
@@ -173,16 +435,78 @@ export class MetadataManager {
     const keys: string[] = [];
 
     if (this.getOperation(target)) keys.push(METADATA_KEYS.API_OPERATION);
+    if (this.getRoute(target)) keys.push(METADATA_KEYS.API_ROUTE);
     if (this.getResponses(target).length > 0)
       keys.push(METADATA_KEYS.API_RESPONSES);
     if (this.getParams(target).length > 0) keys.push(METADATA_KEYS.API_PARAMS);
     if (this.getQueries(target).length > 0)
       keys.push(METADATA_KEYS.API_QUERIES);
+    if (this.getHeaders(target).length > 0)
+      keys.push(METADATA_KEYS.API_HEADERS);
+    if (this.getCookies(target).length > 0)
+      keys.push(METADATA_KEYS.API_COOKIES);
     if (this.getBody(target)) keys.push(METADATA_KEYS.API_BODY);
     if (this.getSecurity(target).length > 0)
       keys.push(METADATA_KEYS.API_SECURITY);
     if (this.getTags(target).length > 0) keys.push(METADATA_KEYS.API_TAGS);
+    if (this.isPublic(target)) keys.push(METADATA_KEYS.API_PUBLIC);
 
     return keys;
   }
 }
+
+/**
+ * Merge controller defaults into the metadata of one of its methods
+ */
+function applyControllerDefaults(
+  metadata: HandlerMetadata,
+  controller: ApiControllerMetadata,
+  skipped: ApiControllerDefault[]
+): HandlerMetadata {
+  const applies = (key: ApiControllerDefault) => !skipped.includes(key);
+  const merged = { ...metadata };
+
+  if (applies('basePath') && controller.basePath && metadata.route) {
+    merged.route = {
+      ...metadata.route,
+      path:
+        metadata.route.path === '/'
+          ? controller.basePath
+          : `${controller.basePath}${metadata.route.path}`,
+    };
+  }
+
+  // Tags of @ApiOperation or @ApiTag replace the controller tags; without
+  // @ApiOperation the controller tags become tag metadata
+  const ownTags =
+    metadata.operation?.tags !== undefined || metadata.tags.length > 0;
+  if (applies('tags') && controller.tags && !ownTags) {
+    if (metadata.operation) {
+      merged.operation = { ...metadata.operation, tags: controller.tags };
+    } else {
+      merged.tags = controller.tags.map((name, order) => ({ name, order }));
+    }
+  }
+
+  if (
+    applies('security') &&
+    metadata.security.length === 0 &&
+    !metadata.isPublic
+  ) {
+    merged.security = controller.security;
+  }
+
+  if (applies('responses')) {
+    const declared = new Set(
+      metadata.responses.map(response => response.status)
+    );
+    merged.responses = [
+      ...metadata.responses,
+      ...controller.responses.filter(
+        response => !declared.has(response.status)
+      ),
+    ];
+  }
+
+  return merged;
+}
@@ -0,0 +1,26 @@
+/**
+ * Register ts-node when TypeScript modules are about to be loaded
+ *
+ * Nothing happens when no TypeScript files are given or a `.ts` loader is
+ * already registered (for example when running under ts-node).
+ *
+ * @param files - Modules that will be loaded
+ */
+export function registerTypeScript(files: string[]): void {
+  const typeScriptFile = files.find(file => /\.tsx?$/.test(file));
+  if (!typeScriptFile || require.extensions['.ts']) {
+    return;
+  }
+
+  let tsNodePath: string;
+  try {
+    tsNodePath = require.resolve('ts-node', { paths: [process.cwd()] });
+  } catch {
+    throw new Error(
+      `Loading ${typeScriptFile} requires ts-node; install it or use compiled JavaScript`
+    );
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require(tsNodePath).register({ transpileOnly: true });
+}
@@ -0,0 +1 @@
+throw new Error('Missing environment variable TABLE_NAME');
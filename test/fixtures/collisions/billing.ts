@@ -0,0 +1,8 @@
+interface Contact {
+  email: string;
+}
+
+export interface Invoice {
+  total: number;
+  contact: Contact;
+}
@@ -0,0 +1,8 @@
+interface Contact {
+  phone: string;
+}
+
+export interface Shipment {
+  trackingNumber: string;
+  contact: Contact;
+}
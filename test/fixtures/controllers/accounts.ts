@@ -0,0 +1,42 @@
+import {
+  ApiController,
+  ApiOperation,
+  ApiParam,
+  ApiPublic,
+  ApiResponse,
+  ApiRoute,
+  ApiSkipControllerDefaults,
+} from '../../../src/decorators';
+
+@ApiController({
+  basePath: '/accounts',
+  tags: ['accounts'],
+  security: [{ type: 'http', scheme: 'bearer' }],
+  responses: [{ status: 500, description: 'Internal error' }],
+})
+export class AccountHandlers {
+  @ApiOperation({ summary: 'List accounts' })
+  @ApiRoute({ method: 'GET', path: '/' })
+  @ApiResponse({ status: 200, description: 'Accounts' })
+  static async list() {
+    return { statusCode: 200, body: '[]' };
+  }
+
+  @ApiOperation({ summary: 'Get account', tags: ['admin'] })
+  @ApiRoute({ method: 'GET', path: '/{accountId}' })
+  @ApiParam({ name: 'accountId' })
+  @ApiResponse({ status: 200, description: 'Account' })
+  @ApiResponse({ status: 500, description: 'Account store unavailable' })
+  static async get() {
+    return { statusCode: 200, body: '{}' };
+  }
+
+  @ApiOperation({ summary: 'Health check' })
+  @ApiRoute({ method: 'GET', path: '/health' })
+  @ApiResponse({ status: 200, description: 'Healthy' })
+  @ApiPublic()
+  @ApiSkipControllerDefaults(['basePath'])
+  static async health() {
+    return { statusCode: 200, body: 'ok' };
+  }
+}
@@ -0,0 +1 @@
+export { getUserHandler, listUsersHandler } from './users';
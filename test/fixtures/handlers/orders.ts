@@ -0,0 +1,14 @@
+import { ApiOperation, ApiResponse, ApiRoute } from '../../../src/decorators';
+
+export class OrderController {
+  @ApiOperation({ summary: 'Create order' })
+  @ApiRoute({ method: 'post', path: '/orders' })
+  @ApiResponse({ status: 201, description: 'Order created' })
+  async createOrder() {
+    return { statusCode: 201, body: '{}' };
+  }
+
+  toString() {
+    return 'OrderController';
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiRoute,
+} from '../../../src/decorators';
+
+export async function listUsersHandler() {
+  return { statusCode: 200, body: '[]' };
+}
+
+ApiOperation({ summary: 'List users' })(listUsersHandler);
+ApiRoute({ method: 'get', path: '/users' })(listUsersHandler);
+ApiResponse({ status: 200, description: 'Users' })(listUsersHandler);
+
+export async function getUserHandler() {
+  return { statusCode: 200, body: '{}' };
+}
+
+ApiOperation({ summary: 'Get user' })(getUserHandler);
+ApiRoute({ method: 'get', path: '/users/{userId}' })(getUserHandler);
+ApiParam({ name: 'userId', type: 'string' })(getUserHandler);
+ApiResponse({ status: 200, description: 'User' })(getUserHandler);
+
+export function formatUser(name: string) {
+  return name.trim();
+}
@@ -0,0 +1,15 @@
+import { ApiOperation, ApiRoute } from '../../../src/decorators';
+
+async function internalHealthHandler() {
+  return { statusCode: 200, body: 'ok' };
+}
+
+ApiOperation({ summary: 'Internal health check' })(internalHealthHandler);
+ApiRoute({ method: 'get', path: '/internal/health' })(internalHealthHandler);
+
+export async function healthHandler() {
+  return internalHealthHandler();
+}
+
+ApiOperation({ summary: 'Health check' })(healthHandler);
+ApiRoute({ method: 'get', path: '/health' })(healthHandler);
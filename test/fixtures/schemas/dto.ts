@@ -0,0 +1,57 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiSchema,
+} from '../../../src/decorators';
+
+enum InvoiceStatus {
+  Draft = 'draft',
+  Sent = 'sent',
+}
+
+export class Money {
+  @ApiProperty({ minimum: 0 })
+  amount!: number;
+
+  @ApiProperty({ pattern: '^[A-Z]{3}$' })
+  currency!: string;
+}
+
+export class Resource {
+  @ApiProperty({ format: 'uuid', readOnly: true })
+  id!: string;
+}
+
+export class InvoiceLine {
+  @ApiProperty()
+  description!: string;
+
+  @ApiProperty()
+  price!: Money;
+}
+
+@ApiSchema({ name: 'Invoice', description: 'Invoice sent to a customer' })
+export class InvoiceDto extends Resource {
+  @ApiProperty({ enum: ['draft', 'sent'] })
+  status!: InvoiceStatus;
+
+  @ApiProperty({ items: InvoiceLine })
+  lines!: InvoiceLine[];
+
+  @ApiProperty()
+  total!: Money;
+
+  @ApiPropertyOptional()
+  dueDate?: Date;
+
+  @ApiPropertyOptional({ description: 'Invoice this one corrects' })
+  corrects?: InvoiceDto;
+}
+
+export class CreateInvoiceDto {
+  @ApiProperty({ items: InvoiceLine, minItems: 1 })
+  lines!: InvoiceLine[];
+
+  @ApiPropertyOptional({ format: 'date' })
+  dueDate?: string;
+}
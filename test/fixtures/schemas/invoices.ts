@@ -0,0 +1,21 @@
+import {
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiRoute,
+} from '../../../src/decorators';
+import { CreateInvoiceDto, InvoiceDto } from './dto';
+
+export class InvoiceHandlers {
+  @ApiOperation({ summary: 'Create invoice' })
+  @ApiRoute({ method: 'post', path: '/invoices' })
+  @ApiBody({ type: CreateInvoiceDto, required: true })
+  @ApiResponse({
+    status: 201,
+    description: 'Invoice created',
+    type: InvoiceDto,
+  })
+  static async create() {
+    return { statusCode: 201, body: '{}' };
+  }
+}
@@ -0,0 +1,28 @@
+// Standard decorators applied to a private method, the way TypeScript 5.2
+// emits them: the method is only reachable through the class metadata
+const { ApiOperation, ApiRoute } = require('../../../src/decorators');
+
+const metadata = Object.create(null);
+const context = {
+  kind: 'method',
+  name: '#audit',
+  static: true,
+  private: true,
+  metadata,
+  addInitializer: () => undefined,
+};
+
+function audit() {
+  return { statusCode: 204 };
+}
+ApiRoute({ method: 'post', path: '/audit' })(audit, context);
+ApiOperation({ summary: 'Audit payments' })(audit, context);
+
+class AuditController {}
+Object.defineProperty(
+  AuditController,
+  Symbol.metadata ?? Symbol.for('Symbol.metadata'),
+  { value: metadata }
+);
+
+exports.AuditController = AuditController;
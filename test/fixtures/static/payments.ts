@@ -0,0 +1,65 @@
+import {
+  ApiBody,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiRoute,
+  ApiSecurity,
+} from '../../../src/decorators';
+
+// Loading this module fails, so metadata can only be read statically
+if (!process.env.PAYMENTS_TABLE) {
+  throw new Error('Missing environment variable PAYMENTS_TABLE');
+}
+
+export interface Payment {
+  id: string;
+  amount: number;
+}
+
+const PAYMENT_TAGS = ['payments'] as const;
+
+export const createPaymentHandler = (() => {
+  const handler = async () => ({ statusCode: 201, body: '{}' });
+
+  ApiOperation({
+    summary: 'Create payment',
+    tags: PAYMENT_TAGS as unknown as string[],
+  })(handler);
+  ApiRoute({ method: 'POST', path: '/payments' })(handler);
+  ApiHeader({ name: 'Idempotency-Key', type: String, required: true })(handler);
+  ApiBody({ type: 'Payment', required: true })(handler);
+  ApiResponse({ status: 201, description: 'Payment created', type: 'Payment' })(
+    handler
+  );
+  ApiResponse({ status: 400, description: 'Invalid payment' })(handler);
+  ApiSecurity({ type: 'http', scheme: 'bearer' })(handler);
+
+  return handler;
+})();
+
+export class RefundController {
+  @ApiOperation({ summary: 'Refund payment', deprecated: false })
+  @ApiRoute({ method: 'post', path: '/payments/{paymentId}/refunds' })
+  @ApiParam({ name: 'paymentId', type: 'string' })
+  @ApiResponse({ status: 202, description: 'Refund accepted' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async refund() {
+    return { statusCode: 202, body: '' };
+  }
+}
+
+const listPaymentsHandler = ApiRoute({ method: 'get', path: '/payments' })(
+  ApiOperation({ summary: 'List payments' })(async function listPayments() {
+    return { statusCode: 200, body: '[]' };
+  })
+);
+
+async function auditPaymentsHandler() {
+  return { statusCode: 200, body: '[]' };
+}
+
+ApiOperation({ summary: 'Audit payments' })(auditPaymentsHandler);
+
+export { listPaymentsHandler };
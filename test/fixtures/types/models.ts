@@ -0,0 +1,51 @@
+export type Role = 'admin' | 'member';
+
+export enum Priority {
+  Low,
+  High,
+}
+
+export interface Address {
+  city: string;
+  postalCode?: string;
+}
+
+export interface User {
+  /** Unique identifier */
+  id: string;
+  name: string;
+  age?: number;
+  active: boolean;
+  createdAt: Date;
+  role: Role;
+  priority: Priority;
+  tags: string[];
+  address: Address;
+  manager: User | null;
+  metadata: Record<string, number>;
+  coordinates: [number, number];
+  greet(): string;
+}
+
+export type Timestamped = {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type AuditedUser = User & Timestamped;
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export type UserPage = Page<User>;
+
+export type SearchResult = User | Address;
+
+export type UserId = string;
+
+export interface UserSearch {
+  query: string;
+  results: Page<User>;
+}
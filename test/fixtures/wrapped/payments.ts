@@ -0,0 +1,27 @@
+import { openApi, withOpenApi } from '../../../src/decorators';
+
+export const getPaymentHandler = withOpenApi(
+  async (paymentId: string) => ({ statusCode: 200, body: paymentId }),
+  {
+    operation: { summary: 'Get payment', tags: ['payments'] },
+    route: { method: 'get', path: '/payments/{paymentId}' },
+    params: [{ name: 'paymentId', type: 'string' }],
+    headers: [{ name: 'X-Tenant-Id', type: 'string' }],
+    responses: [
+      { status: 200, description: 'Payment' },
+      { status: 404, description: 'Payment not found' },
+    ],
+    security: [{ type: 'http', scheme: 'bearer' }],
+  }
+);
+
+export const listPaymentsHandler = openApi(
+  async () => ({ statusCode: 200, body: '[]' }),
+  'listPayments'
+)
+  .operation({ summary: 'List payments' })
+  .route({ method: 'get', path: '/payments' })
+  .query({ name: 'limit', type: 'integer' })
+  .response({ status: 200, description: 'Payments' })
+  .public()
+  .build();
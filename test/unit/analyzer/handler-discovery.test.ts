@@ -0,0 +1,156 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import {
+  discoverHandlers,
+  findHandlerFiles,
+} from '../../../src/analyzer/handler-discovery';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { GeneratorConfig } from '../../../src/types/config';
+
+const fixtures = path.join(__dirname, '../../fixtures');
+
+describe('Handler Discovery', () => {
+  const config: GeneratorConfig = {
+    inputPaths: [path.join(fixtures, 'handlers')],
+    info: {
+      title: 'Test API',
+      version: '1.0.0',
+    },
+  };
+
+  describe('findHandlerFiles', () => {
+    it('should find handler modules with index modules last', () => {
+      // Act
+      const files = findHandlerFiles(config);
+
+      // Assert
+      expect(files.map(file => path.basename(file))).toEqual([
+        'orders.ts',
+        'users.ts',
+        'index.ts',
+      ]);
+    });
+
+    it('should apply include and exclude patterns', () => {
+      // Act
+      const included = findHandlerFiles({ ...config, include: ['**/u*.ts'] });
+      const excluded = findHandlerFiles({
+        ...config,
+        exclude: ['**/orders.ts'],
+      });
+
+      // Assert
+      expect(included.map(file => path.basename(file))).toEqual(['users.ts']);
+      expect(excluded.map(file => path.basename(file))).toEqual([
+        'users.ts',
+        'index.ts',
+      ]);
+    });
+
+    it('should expand glob input paths', () => {
+      // Act
+      const files = findHandlerFiles({
+        ...config,
+        inputPaths: [path.join(fixtures, '*-handlers/**/*.ts')],
+      });
+
+      // Assert
+      expect(files.map(file => path.basename(file))).toEqual([
+        'broken.ts',
+        'health.ts',
+      ]);
+    });
+  });
+
+  describe('discoverHandlers', () => {
+    it('should collect exported functions and class methods with metadata', () => {
+      // Act
+      const handlers = discoverHandlers(config);
+
+      // Assert
+      expect(
+        handlers.map(handler => MetadataManager.getOperation(handler)!.summary)
+      ).toEqual(['Create order', 'List users', 'Get user']);
+    });
+
+    it('should record the defining module as filePath', () => {
+      // Act
+      const handlers = discoverHandlers(config);
+
+      // Assert
+      expect(
+        handlers.map(handler =>
+          path.basename(MetadataManager.getOperation(handler)!.filePath!)
+        )
+      ).toEqual(['orders.ts', 'users.ts', 'users.ts']);
+    });
+
+    it('should collect decorated functions that are not exported when exportedOnly is false', () => {
+      // Arrange
+      const internalConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'internal-handlers')],
+        options: { exportedOnly: false },
+      };
+
+      // Act
+      const handlers = discoverHandlers(internalConfig);
+      const exportedHandlers = discoverHandlers({
+        ...internalConfig,
+        options: { exportedOnly: true },
+      });
+
+      // Assert
+      expect(
+        handlers.map(handler => MetadataManager.getOperation(handler)!.summary)
+      ).toEqual(['Health check', 'Internal health check']);
+      expect(
+        exportedHandlers.map(
+          handler => MetadataManager.getOperation(handler)!.summary
+        )
+      ).toEqual(['Health check']);
+    });
+
+    it('should collect methods recorded in the class metadata of standard decorators', () => {
+      // Act
+      const handlers = discoverHandlers({
+        ...config,
+        inputPaths: [path.join(fixtures, 'standard')],
+      });
+
+      // Assert
+      expect(
+        handlers.map(handler => MetadataManager.getOperation(handler))
+      ).toMatchObject([{ functionName: '#audit', summary: 'Audit payments' }]);
+    });
+
+    it('should report modules that fail to load', () => {
+      // Arrange
+      const brokenConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'broken-handlers')],
+      };
+
+      // Act & Assert
+      expect(() => discoverHandlers(brokenConfig)).toThrow(
+        /Failed to load handler module .*broken\.ts: Missing environment variable TABLE_NAME/
+      );
+    });
+  });
+
+  describe('generateOpenApiSpec', () => {
+    it('should discover handlers when none are passed', () => {
+      // Act
+      const spec = generateOpenApiSpec(config);
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+      ]);
+      expect(spec.paths['/orders'].post!.summary).toBe('Create order');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  extractHandlerMetadata,
+  extractHandlerMetadataFromFiles,
+} from '../../../src/analyzer/static-extractor';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { GeneratorConfig } from '../../../src/types/config';
+
+const fixtures = path.join(__dirname, '../../fixtures');
+
+describe('Static Extractor', () => {
+  const config: GeneratorConfig = {
+    inputPaths: [path.join(fixtures, 'static')],
+    info: {
+      title: 'Test API',
+      version: '1.0.0',
+    },
+  };
+
+  describe('extractHandlerMetadata', () => {
+    it('should read handler metadata without loading the modules', () => {
+      // Act
+      const metadata = extractHandlerMetadata(config);
+
+      // Assert
+      expect(metadata.map(handler => handler.operation!.functionName)).toEqual([
+        'handler',
+        'refund',
+        'listPayments',
+      ]);
+      expect(metadata[0]).toMatchObject({
+        operation: {
+          functionName: 'handler',
+          summary: 'Create payment',
+          tags: ['payments'],
+          filePath: path.join(fixtures, 'static/payments.ts'),
+        },
+        route: { method: 'post', path: '/payments' },
+        headers: [{ name: 'Idempotency-Key', type: String, required: true }],
+        body: { type: 'Payment', required: true },
+        responses: [
+          { status: 201, description: 'Payment created', type: 'Payment' },
+          { status: 400, description: 'Invalid payment' },
+        ],
+        security: [{ type: 'http', scheme: 'bearer' }],
+        isPublic: false,
+      });
+    });
+
+    it('should apply method decorators bottom-up like TypeScript', () => {
+      // Act
+      const refund = extractHandlerMetadata(config)[1];
+
+      // Assert
+      expect(refund.route).toEqual({
+        method: 'post',
+        path: '/payments/{paymentId}/refunds',
+      });
+      expect(refund.params.map(param => param.name)).toEqual(['paymentId']);
+      expect(refund.responses.map(response => response.status)).toEqual([
+        404, 202,
+      ]);
+    });
+
+    it('should collect handlers that are not exported when configured', () => {
+      // Act
+      const metadata = extractHandlerMetadata({
+        ...config,
+        options: { exportedOnly: false },
+      });
+
+      // Assert
+      expect(metadata.map(handler => handler.operation!.functionName)).toEqual([
+        'handler',
+        'refund',
+        'listPayments',
+        'auditPaymentsHandler',
+      ]);
+    });
+
+    it('should leave no metadata behind in the registry', () => {
+      // Arrange
+      const before = MetadataManager.getDecoratedHandlers();
+
+      // Act
+      extractHandlerMetadata(config);
+
+      // Assert
+      expect(MetadataManager.getDecoratedHandlers()).toEqual(before);
+    });
+  });
+
+  describe('Equivalence with runtime discovery', () => {
+    it('should generate the same document as loading the modules', () => {
+      // Arrange
+      const handlersConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'handlers')],
+      };
+
+      // Act
+      const loaded = generateOpenApiSpec(handlersConfig);
+      const extracted = generateOpenApiSpec({
+        ...handlersConfig,
+        options: { staticAnalysis: true },
+      });
+
+      // Assert
+      expect(Object.keys(extracted.paths)).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+      ]);
+      expect(extracted).toEqual(loaded);
+    });
+
+    it('should read withOpenApi calls and openApi chains', () => {
+      // Arrange
+      const wrappedConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'wrapped')],
+        options: { includeOperationIds: true },
+      };
+
+      // Act
+      const loaded = generateOpenApiSpec(wrappedConfig);
+      const extracted = generateOpenApiSpec({
+        ...wrappedConfig,
+        options: { ...wrappedConfig.options, staticAnalysis: true },
+      });
+
+      // Assert
+      expect(
+        Object.values(extracted.paths).map(item => item.get!.operationId)
+      ).toEqual(['getPayment', 'listPayments']);
+      expect(extracted).toEqual(loaded);
+    });
+
+    it('should apply @ApiController defaults to the methods of its class', () => {
+      // Arrange
+      const controllersConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'controllers')],
+      };
+
+      // Act
+      const loaded = generateOpenApiSpec(controllersConfig);
+      const extracted = generateOpenApiSpec({
+        ...controllersConfig,
+        options: { staticAnalysis: true },
+      });
+
+      // Assert
+      expect(Object.keys(extracted.paths)).toEqual([
+        '/accounts',
+        '/accounts/{accountId}',
+        '/health',
+      ]);
+      expect(extracted).toEqual(loaded);
+    });
+
+    it('should read schema classes passed as types', () => {
+      // Arrange
+      const schemasConfig: GeneratorConfig = {
+        ...config,
+        inputPaths: [path.join(fixtures, 'schemas')],
+      };
+
+      // Act
+      const loaded = generateOpenApiSpec(schemasConfig);
+      const extracted = generateOpenApiSpec({
+        ...schemasConfig,
+        options: { staticAnalysis: true },
+      });
+
+      // Assert
+      expect(Object.keys(extracted.components!.schemas!)).toEqual([
+        'CreateInvoiceDto',
+        'Invoice',
+        'InvoiceLine',
+        'Money',
+      ]);
+      expect(extracted).toEqual(loaded);
+    });
+  });
+
+  describe('Unsupported Arguments', () => {
+    let inputDir: string;
+
+    const writeHandler = (content: string[]): string => {
+      const file = path.join(inputDir, 'handler.ts');
+      fs.writeFileSync(file, content.join('\n'));
+      return file;
+    };
+
+    beforeEach(() => {
+      inputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(inputDir, { recursive: true, force: true });
+    });
+
+    it('should reject arguments that are not literals', () => {
+      // Arrange
+      const file = writeHandler([
+        "import { ApiOperation } from 'lambda-openapi';",
+        'export function getUserHandler() {}',
+        'ApiOperation({ summary: buildSummary() })(getUserHandler);',
+      ]);
+
+      // Act & Assert
+      expect(() => extractHandlerMetadataFromFiles([file])).toThrow(
+        `Cannot read @ApiOperation argument statically at ${file}:3:25: "buildSummary()" is not a literal`
+      );
+    });
+
+    it('should reject identifiers other than constants and types', () => {
+      // Arrange
+      const file = writeHandler([
+        "import { ApiOperation } from 'lambda-openapi';",
+        "import { SUMMARY } from './constants';",
+        'export function getUserHandler() {}',
+        'ApiOperation({ summary: SUMMARY })(getUserHandler);',
+      ]);
+
+      // Act & Assert
+      expect(() => extractHandlerMetadataFromFiles([file])).toThrow(
+        `Cannot read @ApiOperation argument statically at ${file}:4:25: "SUMMARY" is not a literal`
+      );
+    });
+
+    it('should reject decorators applied to unknown targets', () => {
+      // Arrange
+      const file = writeHandler([
+        "import { ApiOperation } from 'lambda-openapi';",
+        'export const handlers = [() => {}];',
+        "ApiOperation({ summary: 'First' })(handlers[0]);",
+      ]);
+
+      // Act & Assert
+      expect(() => extractHandlerMetadataFromFiles([file])).toThrow(
+        `Cannot resolve the handler of ApiOperation at ${file}:3:36`
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import * as path from 'path';
+import {
+  TypeAnalyzer,
+  collectSourceFiles,
+} from '../../../src/analyzer/type-analyzer';
+
+const fixturesDir = path.join(__dirname, '../../fixtures/types');
+
+describe('TypeAnalyzer', () => {
+  let analyzer: TypeAnalyzer;
+
+  beforeAll(() => {
+    analyzer = new TypeAnalyzer({ files: [fixturesDir] });
+  });
+
+  describe('Declarations', () => {
+    it('should list interfaces and type aliases', () => {
+      // Assert
+      expect(analyzer.getTypeNames()).toEqual([
+        'Address',
+        'AuditedUser',
+        'Page',
+        'Role',
+        'SearchResult',
+        'Timestamped',
+        'User',
+        'UserId',
+        'UserPage',
+        'UserSearch',
+      ]);
+    });
+
+    it('should return undefined for unknown names', () => {
+      // Assert
+      expect(analyzer.resolveType('Missing')).toBeUndefined();
+    });
+  });
+
+  describe('Interfaces', () => {
+    it('should resolve properties, optionality and descriptions', () => {
+      // Act
+      const info = analyzer.resolveType('User')!;
+      const property = (name: string) =>
+        info.properties!.find(item => item.name === name)!;
+
+      // Assert
+      expect(info.name).toBe('User');
+      expect(info.kind).toBe('object');
+      expect(info.properties!.map(item => item.name)).not.toContain('greet');
+      expect(property('id')).toEqual({
+        name: 'id',
+        type: { name: 'string', kind: 'primitive' },
+        optional: false,
+        description: 'Unique identifier',
+      });
+      expect(property('age').optional).toBe(true);
+      expect(property('age').type).toEqual({
+        name: 'number',
+        kind: 'primitive',
+      });
+      expect(property('createdAt').type).toEqual({
+        name: 'Date',
+        kind: 'primitive',
+      });
+    });
+
+    it('should resolve literal unions, enums and arrays', () => {
+      // Act
+      const info = analyzer.resolveType('User')!;
+      const typeOf = (name: string) =>
+        info.properties!.find(item => item.name === name)!.type;
+
+      // Assert
+      expect(typeOf('role').kind).toBe('union');
+      expect(typeOf('role').members!.map(member => member.literal)).toEqual([
+        'admin',
+        'member',
+      ]);
+      expect(typeOf('priority').members!.map(member => member.literal)).toEqual(
+        [0, 1]
+      );
+      expect(typeOf('tags').kind).toBe('array');
+      expect(typeOf('tags').elementType).toEqual({
+        name: 'string',
+        kind: 'primitive',
+      });
+    });
+
+    it('should reference recursive types by name', () => {
+      // Act
+      const manager = analyzer
+        .resolveType('User')!
+        .properties!.find(item => item.name === 'manager')!.type;
+
+      // Assert
+      expect(manager).toEqual({ name: 'User', kind: 'object', nullable: true });
+    });
+
+    it('should resolve records and tuples', () => {
+      // Act
+      const info = analyzer.resolveType('User')!;
+      const typeOf = (name: string) =>
+        info.properties!.find(item => item.name === name)!.type;
+
+      // Assert
+      expect(typeOf('metadata').additionalProperties).toEqual({
+        name: 'number',
+        kind: 'primitive',
+      });
+      expect(typeOf('coordinates').kind).toBe('array');
+      expect(typeOf('coordinates').elementType).toEqual({
+        name: 'number',
+        kind: 'primitive',
+      });
+    });
+  });
+
+  describe('Type Aliases', () => {
+    it('should resolve intersections', () => {
+      // Act
+      const info = analyzer.resolveType('AuditedUser')!;
+
+      // Assert
+      expect(info.name).toBe('AuditedUser');
+      expect(info.kind).toBe('intersection');
+      expect(info.members!.map(member => member.name)).toEqual([
+        'User',
+        'Timestamped',
+      ]);
+    });
+
+    it('should resolve generic instantiations', () => {
+      // Act
+      const results = analyzer
+        .resolveType('UserSearch')!
+        .properties!.find(item => item.name === 'results')!.type;
+
+      // Assert
+      expect(results.kind).toBe('generic');
+      expect(results.name).toBe('Page');
+      expect(results.genericArgs!.map(arg => arg.name)).toEqual(['User']);
+      expect(results.properties!.map(item => item.name)).toEqual([
+        'items',
+        'total',
+      ]);
+      expect(results.properties![0].type.elementType!.name).toBe('User');
+    });
+
+    it('should name aliases of generic instantiations after the alias', () => {
+      // Act
+      const info = analyzer.resolveType('UserPage')!;
+
+      // Assert
+      expect(info.kind).toBe('object');
+      expect(info.name).toBe('UserPage');
+      expect(info.properties!.map(item => item.name)).toEqual([
+        'items',
+        'total',
+      ]);
+    });
+
+    it('should resolve object unions and primitive aliases', () => {
+      // Act
+      const union = analyzer.resolveType('SearchResult')!;
+      const alias = analyzer.resolveType('UserId')!;
+
+      // Assert
+      expect(union.kind).toBe('union');
+      expect(union.name).toBe('SearchResult');
+      expect(union.members!.map(member => member.name)).toEqual([
+        'User',
+        'Address',
+      ]);
+      expect(alias).toEqual({ name: 'string', kind: 'primitive' });
+    });
+  });
+
+  describe('collectSourceFiles', () => {
+    it('should collect TypeScript files from directories', () => {
+      // Act
+      const files = collectSourceFiles([fixturesDir]);
+
+      // Assert
+      expect(files).toEqual([path.join(fixturesDir, 'models.ts')]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import { main } from '../../src/cli';
+import { CliIo } from '../../src/commands/generate';
+
+const handlersDir = path.join(__dirname, '../fixtures/handlers');
+const configFile = path.join(
+  __dirname,
+  '../fixtures/config/lambda-openapi.config.json'
+);
+
+describe('CLI', () => {
+  let stdout: string[];
+  let stderr: string[];
+  let io: CliIo;
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+    };
+  });
+
+  it('should run the generate command with aliased options', async () => {
+    // Act
+    const exitCode = await main(
+      [
+        'generate',
+        '-i',
+        handlersDir,
+        '-t',
+        'CLI API',
+        '-v',
+        '9.9.9',
+        '-b',
+        '/v1',
+        '-c',
+        configFile,
+      ],
+      io
+    );
+    const spec = JSON.parse(stdout[0]);
+
+    // Assert
+    expect(exitCode).toBe(0);
+    expect(spec.info).toMatchObject({ title: 'CLI API', version: '9.9.9' });
+  });
+
+  it('should fail on unknown options without generating', async () => {
+    // Act
+    const exitCode = await main(['generate', '-i', handlersDir, '--bogus'], io);
+
+    // Assert
+    expect(exitCode).toBe(1);
+    expect(stderr).toEqual(['Error: Unknown argument: bogus']);
+    expect(stdout).toEqual([]);
+  });
+
+  it('should fail on unsupported formats', async () => {
+    // Act
+    const exitCode = await main(
+      ['generate', '-i', handlersDir, '--format', 'xml'],
+      io
+    );
+
+    // Assert
+    expect(exitCode).toBe(1);
+    expect(stderr[0]).toMatch(/Invalid values/);
+  });
+
+  it('should require an output path in watch mode', async () => {
+    // Act
+    const exitCode = await main(
+      ['generate', '-i', handlersDir, '-c', configFile, '--watch'],
+      io
+    );
+
+    // Assert
+    expect(exitCode).toBe(1);
+    expect(stderr).toEqual(['Error: --watch requires --output']);
+  });
+
+  it('should require a command', async () => {
+    // Act
+    const exitCode = await main([], io);
+
+    // Assert
+    expect(exitCode).toBe(1);
+    expect(stderr).toEqual([
+      'Error: Specify a command, e.g. lambda-openapi generate',
+    ]);
+  });
+});
@@ -0,0 +1,283 @@
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CliIo,
+  runGenerate,
+  toGeneratorConfig,
+} from '../../../src/commands/generate';
+import { DEFAULT_CONFIG } from '../../../src/types/config';
+
+const handlersDir = path.join(__dirname, '../../fixtures/handlers');
+const configFile = path.join(
+  __dirname,
+  '../../fixtures/config/lambda-openapi.config.json'
+);
+const apiGateway = { region: 'us-east-1', accountId: '123456789012' };
+
+describe('generate command', () => {
+  let outputDir: string;
+  let stdout: string[];
+  let stderr: string[];
+  let io: CliIo;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-'));
+    stdout = [];
+    stderr = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('toGeneratorConfig', () => {
+    it('should map command line options onto the generator configuration', () => {
+      // Act
+      const config = toGeneratorConfig({
+        input: 'src/handlers',
+        output: 'openapi.yaml',
+        format: 'yaml',
+        title: 'Orders API',
+        version: '2.0.0',
+        description: 'Order management',
+        basePath: '/v2',
+      });
+
+      // Assert
+      expect(config).toMatchObject({
+        inputPaths: ['src/handlers'],
+        outputPath: 'openapi.yaml',
+        format: 'yaml',
+        basePath: '/v2',
+        info: {
+          title: 'Orders API',
+          version: '2.0.0',
+          description: 'Order management',
+        },
+        options: DEFAULT_CONFIG.options,
+      });
+    });
+
+    it('should let command line options override the config file', () => {
+      // Act
+      const config = toGeneratorConfig(
+        { input: ['a', 'b'], title: 'From CLI' },
+        {
+          inputPaths: ['from-file'],
+          info: { title: 'From file', version: '3.0.0' },
+          options: { sortPaths: false },
+        }
+      );
+
+      // Assert
+      expect(config.inputPaths).toEqual(['a', 'b']);
+      expect(config.info).toMatchObject({
+        title: 'From CLI',
+        version: '3.0.0',
+      });
+      expect(config.options).toMatchObject({
+        sortPaths: false,
+        prettyPrint: true,
+      });
+    });
+
+    it('should use the input paths of the config file', () => {
+      // Act
+      const config = toGeneratorConfig(
+        { input: undefined as any },
+        { inputPaths: ['from-file'] }
+      );
+
+      // Assert
+      expect(config.inputPaths).toEqual(['from-file']);
+    });
+
+    it('should throw when no input paths are given', () => {
+      // Act & Assert
+      expect(() => toGeneratorConfig({ input: [] })).toThrow(
+        'No input paths given'
+      );
+    });
+  });
+
+  describe('runGenerate', () => {
+    it('should write the document to the output path', () => {
+      // Arrange
+      const output = path.join(outputDir, 'docs/openapi.json');
+
+      // Act
+      const exitCode = runGenerate(
+        { input: handlersDir, output, title: 'Orders API', config: configFile },
+        io
+      );
+      const spec = JSON.parse(fs.readFileSync(output, 'utf8'));
+
+      // Assert
+      expect(exitCode).toBe(0);
+      expect(spec.info.title).toBe('Orders API');
+      expect(Object.keys(spec.paths)).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+      ]);
+      expect(stdout).toEqual([]);
+    });
+
+    it('should print the document without writing it in dry-run mode', () => {
+      // Arrange
+      const output = path.join(outputDir, 'openapi.yaml');
+
+      // Act
+      const exitCode = runGenerate(
+        {
+          input: handlersDir,
+          output,
+          format: 'yaml',
+          dryRun: true,
+          config: configFile,
+        },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(0);
+      expect(fs.existsSync(output)).toBe(false);
+      expect(stdout[0]).toMatch(/^openapi: 3\.0\.0\n/);
+      expect(stderr).toEqual([`Dry run: ${output} was not written`]);
+    });
+
+    it('should report discovered modules and operations when verbose', () => {
+      // Act
+      runGenerate(
+        { input: handlersDir, verbose: true, config: configFile },
+        io
+      );
+
+      // Assert
+      expect(stderr.slice(0, 2)).toEqual([
+        `Using config file ${path.relative(process.cwd(), configFile)}`,
+        'Found 3 handler module(s)',
+      ]);
+      expect(stderr).toContain('Generated 3 operation(s) on 3 path(s)');
+    });
+
+    it('should load options from the config file', () => {
+      // Arrange
+      const configPath = path.join(outputDir, 'lambda-openapi.json');
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          inputPaths: [handlersDir],
+          info: { title: 'Configured API', version: '4.0.0' },
+          apiGateway,
+        })
+      );
+
+      // Act
+      const exitCode = runGenerate(
+        { input: undefined as any, config: configPath },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout[0]).info).toMatchObject({
+        title: 'Configured API',
+        version: '4.0.0',
+      });
+    });
+
+    it('should read handler sources without loading them with staticAnalysis', () => {
+      // Arrange
+      const configPath = path.join(outputDir, 'lambda-openapi.json');
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          inputPaths: [path.join(__dirname, '../../fixtures/static')],
+          options: { staticAnalysis: true },
+          apiGateway,
+        })
+      );
+
+      // Act
+      const exitCode = runGenerate(
+        { input: undefined as any, config: configPath },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(0);
+      expect(Object.keys(JSON.parse(stdout[0]).paths)).toEqual([
+        '/payments',
+        '/payments/{paymentId}/refunds',
+      ]);
+    });
+
+    it('should print validation warnings', () => {
+      // Arrange
+      const configPath = path.join(outputDir, 'lambda-openapi.json');
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({ security: [{ cognito: [] }], apiGateway })
+      );
+
+      // Act
+      const exitCode = runGenerate(
+        { input: handlersDir, config: configPath },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(0);
+      expect(stderr).toEqual([
+        'Warning: Global security refers to undeclared scheme "cognito"; declare it in the securitySchemes of the configuration [security-schemes]',
+      ]);
+    });
+
+    it('should fail fast on validation errors', () => {
+      // Act
+      const exitCode = runGenerate(
+        { input: handlersDir, basePath: 'v1', config: configFile },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(1);
+      expect(stderr).toEqual([
+        'Error: Invalid configuration:\n  - basePath "v1" must start with a slash, e.g. "/v1" [base-path]',
+      ]);
+      expect(stdout).toEqual([]);
+    });
+
+    it('should require the region and account ID of API Gateway integrations', () => {
+      // Act
+      const exitCode = runGenerate({ input: handlersDir }, io);
+
+      // Assert
+      expect(exitCode).toBe(1);
+      expect(stderr[0]).toMatch(
+        /apiGateway\.region and apiGateway\.accountId .* \[api-gateway-integration\]$/
+      );
+    });
+
+    it('should exit non-zero and report errors', () => {
+      // Act
+      const exitCode = runGenerate(
+        { input: handlersDir, config: path.join(outputDir, 'missing.json') },
+        io
+      );
+
+      // Assert
+      expect(exitCode).toBe(1);
+      expect(stderr).toEqual([
+        `Error: Config file not found: ${path.join(outputDir, 'missing.json')}`,
+      ]);
+    });
+  });
+});
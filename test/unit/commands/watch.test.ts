@@ -0,0 +1,227 @@
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliIo } from '../../../src/commands/generate';
+import {
+  Watcher,
+  diffOperations,
+  watchGenerate,
+} from '../../../src/commands/watch';
+import { OpenAPISpec } from '../../../src/types/openapi';
+
+const decoratorsPath = path.join(__dirname, '../../../src/decorators');
+const configFile = path.join(
+  __dirname,
+  '../../fixtures/config/lambda-openapi.config.json'
+);
+
+/**
+ * Write a JavaScript handler module with a single decorated operation
+ */
+function writeHandler(
+  dir: string,
+  file: string,
+  method: string,
+  routePath: string,
+  summary: string
+): void {
+  // Name handlers after their file so that derived operation IDs differ
+  const name = `${path.basename(file, '.js')}Handler`;
+  fs.writeFileSync(
+    path.join(dir, file),
+    [
+      `const { ApiOperation, ApiRoute } = require(${JSON.stringify(
+        decoratorsPath
+      )});`,
+      `function ${name}() {}`,
+      `ApiOperation({ summary: ${JSON.stringify(summary)} })(${name});`,
+      `ApiRoute({ method: '${method}', path: '${routePath}' })(${name});`,
+      `exports.handler = ${name};`,
+    ].join('\n')
+  );
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  if (!condition()) {
+    throw new Error('Timed out waiting for watch output');
+  }
+}
+
+describe('watch mode', () => {
+  describe('diffOperations', () => {
+    const spec = (paths: OpenAPISpec['paths']): OpenAPISpec => ({
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths,
+    });
+
+    it('should report added, removed and changed operations', () => {
+      // Arrange
+      const previous = spec({
+        '/users': {
+          get: { summary: 'List users', responses: {} },
+          post: { summary: 'Create user', responses: {} },
+        },
+      });
+      const next = spec({
+        '/users': { get: { summary: 'List all users', responses: {} } },
+        '/orders': { post: { summary: 'Create order', responses: {} } },
+      });
+
+      // Act
+      const diff = diffOperations(previous, next);
+
+      // Assert
+      expect(diff).toEqual({
+        added: ['POST /orders'],
+        removed: ['POST /users'],
+        changed: ['GET /users'],
+      });
+    });
+
+    it('should treat every operation as added without a previous spec', () => {
+      // Act
+      const diff = diffOperations(
+        undefined,
+        spec({ '/users': { get: { responses: {} } } })
+      );
+
+      // Assert
+      expect(diff).toEqual({ added: ['GET /users'], removed: [], changed: [] });
+    });
+  });
+
+  describe('watchGenerate', () => {
+    let inputDir: string;
+    let outputPath: string;
+    let stderr: string[];
+    let io: CliIo;
+    let watcher: Watcher | undefined;
+
+    beforeEach(() => {
+      inputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-'));
+      outputPath = path.join(inputDir, 'out/openapi.json');
+      stderr = [];
+      io = { stdout: () => undefined, stderr: text => stderr.push(text) };
+    });
+
+    afterEach(() => {
+      watcher?.close();
+      watcher = undefined;
+      fs.rmSync(inputDir, { recursive: true, force: true });
+    });
+
+    it('should regenerate and summarize operations when handler files change', async () => {
+      // Arrange
+      writeHandler(inputDir, 'users.js', 'get', '/users', 'List users');
+
+      // Act
+      watcher = watchGenerate(
+        { input: inputDir, output: outputPath, config: configFile },
+        io,
+        {
+          interval: 20,
+        }
+      );
+      await waitFor(() => fs.existsSync(outputPath));
+      writeHandler(inputDir, 'orders.js', 'post', '/orders', 'Create order');
+      await waitFor(() => stderr.includes('  + POST /orders'));
+      fs.unlinkSync(path.join(inputDir, 'orders.js'));
+      await waitFor(() => stderr.includes('  - POST /orders'));
+
+      // Assert
+      expect(stderr).toEqual([
+        `Watching ${inputDir} for changes`,
+        `${outputPath} updated: 1 added, 0 removed, 0 changed`,
+        '  + GET /users',
+        `${outputPath} updated: 1 added, 0 removed, 0 changed`,
+        '  + POST /orders',
+        `${outputPath} updated: 0 added, 1 removed, 0 changed`,
+        '  - POST /orders',
+      ]);
+      expect(
+        Object.keys(JSON.parse(fs.readFileSync(outputPath, 'utf8')).paths)
+      ).toEqual(['/users']);
+    });
+
+    it('should leave an up-to-date output untouched', async () => {
+      // Arrange
+      writeHandler(inputDir, 'users.js', 'get', '/users', 'List users');
+      watcher = watchGenerate(
+        { input: inputDir, output: outputPath, config: configFile },
+        io,
+        {
+          interval: 20,
+        }
+      );
+      await waitFor(() => fs.existsSync(outputPath));
+      watcher.close();
+      const writtenAt = fs.statSync(outputPath).mtimeMs;
+      stderr = [];
+
+      // Act
+      watcher = watchGenerate(
+        { input: inputDir, output: outputPath, config: configFile },
+        io,
+        {
+          interval: 20,
+        }
+      );
+
+      // Assert
+      expect(stderr).toEqual([
+        `Watching ${inputDir} for changes`,
+        `No changes; ${outputPath} is up to date`,
+      ]);
+      expect(fs.statSync(outputPath).mtimeMs).toBe(writtenAt);
+    });
+
+    it('should reload a changed config file', async () => {
+      // Arrange
+      writeHandler(inputDir, 'users.js', 'get', '/users', 'List users');
+      const configPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-config-')),
+        'lambda-openapi.config.json'
+      );
+      const writeConfig = (title: string) =>
+        fs.writeFileSync(
+          configPath,
+          JSON.stringify({
+            info: { title, version: '1.0.0' },
+            apiGateway: { region: 'us-east-1', accountId: '123456789012' },
+          })
+        );
+      writeConfig('Users API');
+      const title = () =>
+        fs.existsSync(outputPath) &&
+        JSON.parse(fs.readFileSync(outputPath, 'utf8')).info.title;
+
+      // Act
+      watcher = watchGenerate(
+        { input: inputDir, output: outputPath, config: configPath },
+        io,
+        { interval: 20 }
+      );
+      await waitFor(() => title() === 'Users API');
+      writeConfig('Accounts API');
+      await waitFor(() => title() === 'Accounts API');
+
+      // Assert
+      expect(stderr.slice(-1)).toEqual([
+        `${outputPath} updated: 0 added, 0 removed, 0 changed`,
+      ]);
+      fs.rmSync(path.dirname(configPath), { recursive: true, force: true });
+    });
+
+    it('should require an output path', () => {
+      // Act & Assert
+      expect(() =>
+        watchGenerate({ input: inputDir, config: configFile }, io)
+      ).toThrow('--watch requires --output');
+    });
+  });
+});
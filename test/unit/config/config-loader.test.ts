@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+  mergeConfig,
+} from '../../../src/config/config-loader';
+import { toGeneratorConfig } from '../../../src/commands/generate';
+import { DEFAULT_CONFIG } from '../../../src/types/config';
+
+const configModulePath = path.join(__dirname, '../../../src/config');
+
+describe('Config Loader', () => {
+  let cwd: string;
+
+  const write = (file: string, content: string) => {
+    fs.writeFileSync(path.join(cwd, file), content);
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('defineConfig', () => {
+    it('should return the configuration unchanged', () => {
+      // Arrange
+      const config = { info: { title: 'Users API' } };
+
+      // Act & Assert
+      expect(defineConfig(config)).toBe(config);
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should load lambda-openapi.config.ts with a default export', () => {
+      // Arrange
+      write(
+        'lambda-openapi.config.ts',
+        [
+          `import { defineConfig } from ${JSON.stringify(configModulePath)};`,
+          '',
+          'export default defineConfig({',
+          "  inputPaths: ['src/handlers'],",
+          "  outputPath: 'docs/openapi.yaml',",
+          "  info: { title: 'Users API' },",
+          '});',
+        ].join('\n')
+      );
+
+      // Act
+      const { config, filePath } = loadConfig({ cwd });
+
+      // Assert
+      expect(filePath).toBe(path.join(cwd, 'lambda-openapi.config.ts'));
+      expect(config).toEqual({
+        inputPaths: [path.join(cwd, 'src/handlers')],
+        outputPath: path.join(cwd, 'docs/openapi.yaml'),
+        info: { title: 'Users API' },
+      });
+    });
+
+    it('should load lambda-openapi.config.js', () => {
+      // Arrange
+      write(
+        'lambda-openapi.config.js',
+        "module.exports = { info: { title: 'From JS' } };"
+      );
+
+      // Act
+      const { config } = loadConfig({ cwd });
+
+      // Assert
+      expect(config).toEqual({ info: { title: 'From JS' } });
+    });
+
+    it('should prefer config files in the documented order', () => {
+      // Arrange
+      write('lambda-openapi.config.json', '{ "info": { "title": "JSON" } }');
+      write(
+        'lambda-openapi.config.js',
+        "module.exports = { info: { title: 'JS' } };"
+      );
+
+      // Act
+      const file = findConfigFile(cwd);
+
+      // Assert
+      expect(path.basename(file!)).toBe('lambda-openapi.config.js');
+    });
+
+    it('should fall back to the lambdaOpenapi key of package.json', () => {
+      // Arrange
+      write(
+        'package.json',
+        JSON.stringify({
+          name: 'users-api',
+          lambdaOpenapi: { inputPaths: ['handlers'], format: 'yaml' },
+        })
+      );
+
+      // Act
+      const { config, filePath } = loadConfig({ cwd });
+
+      // Assert
+      expect(filePath).toBe(path.join(cwd, 'package.json'));
+      expect(config).toEqual({
+        inputPaths: [path.join(cwd, 'handlers')],
+        format: 'yaml',
+      });
+    });
+
+    it('should return an empty configuration when nothing is found', () => {
+      // Arrange
+      write('package.json', JSON.stringify({ name: 'users-api' }));
+
+      // Act & Assert
+      expect(loadConfig({ cwd })).toEqual({ config: {} });
+    });
+
+    it('should load an explicit config path', () => {
+      // Arrange
+      fs.mkdirSync(path.join(cwd, 'config'));
+      write('config/api.json', '{ "inputPaths": ["../handlers"] }');
+
+      // Act
+      const { config } = loadConfig({ cwd, configPath: 'config/api.json' });
+
+      // Assert
+      expect(config.inputPaths).toEqual([path.join(cwd, 'handlers')]);
+    });
+
+    it('should report missing, invalid and non-object config files', () => {
+      // Arrange
+      write('invalid.json', '{ inputPaths: }');
+      write('array.json', '[]');
+
+      // Act & Assert
+      expect(() => loadConfig({ cwd, configPath: 'missing.json' })).toThrow(
+        'Config file not found: missing.json'
+      );
+      expect(() => loadConfig({ cwd, configPath: 'invalid.json' })).toThrow(
+        /^Invalid config file .*invalid\.json: /
+      );
+      expect(() => loadConfig({ cwd, configPath: 'array.json' })).toThrow(
+        /array\.json must export a configuration object/
+      );
+    });
+  });
+
+  describe('mergeConfig', () => {
+    it('should merge info and options field by field', () => {
+      // Act
+      const merged = mergeConfig(
+        {
+          info: { title: 'Default', version: '1.0.0' },
+          options: { sortPaths: true },
+        },
+        { info: { title: 'File' }, options: { prettyPrint: false } },
+        { info: { title: undefined, version: '2.0.0' }, format: undefined }
+      );
+
+      // Assert
+      expect(merged).toEqual({
+        info: { title: 'File', version: '2.0.0' },
+        options: { sortPaths: true, prettyPrint: false },
+      });
+    });
+  });
+
+  describe('precedence', () => {
+    it('should apply defaults, then the config file, then CLI flags', () => {
+      // Arrange
+      write(
+        'lambda-openapi.config.json',
+        JSON.stringify({
+          inputPaths: ['handlers'],
+          outputPath: 'openapi.json',
+          info: { title: 'From file', version: '2.0.0' },
+          options: { sortPaths: false },
+        })
+      );
+      const { config: fileConfig } = loadConfig({ cwd });
+
+      // Act
+      const config = toGeneratorConfig(
+        { input: undefined as any, title: 'From CLI' },
+        fileConfig
+      );
+
+      // Assert
+      expect(config.inputPaths).toEqual([path.join(cwd, 'handlers')]);
+      expect(config.outputPath).toBe(path.join(cwd, 'openapi.json'));
+      expect(config.info).toEqual({
+        title: 'From CLI',
+        version: '2.0.0',
+        description: DEFAULT_CONFIG.info!.description,
+      });
+      expect(config.options).toEqual({
+        ...DEFAULT_CONFIG.options,
+        sortPaths: false,
+      });
+      expect(config.servers).toEqual(DEFAULT_CONFIG.servers);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { apiGatewayServer } from '../../../src/config/servers';
+import { validateConfig } from '../../../src/config/validation';
+
+describe('apiGatewayServer', () => {
+  it('should describe the stages of an API Gateway deployment', () => {
+    // Act
+    const server = apiGatewayServer({
+      apiId: 'a1b2c3d4e5',
+      region: 'ap-northeast-1',
+      stages: ['dev', 'stg', 'prod'],
+      description: 'API Gateway',
+    });
+
+    // Assert
+    expect(server).toEqual({
+      url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}',
+      description: 'API Gateway',
+      variables: {
+        apiId: { default: 'a1b2c3d4e5', description: 'REST API ID' },
+        region: { default: 'ap-northeast-1', description: 'AWS region' },
+        stage: {
+          default: 'dev',
+          enum: ['dev', 'stg', 'prod'],
+          description: 'API Gateway stage',
+        },
+      },
+    });
+  });
+
+  it('should offer other regions and a default stage', () => {
+    // Act
+    const server = apiGatewayServer({
+      apiId: 'a1b2c3d4e5',
+      region: 'us-east-1',
+      regions: ['eu-west-1', 'us-east-1'],
+      stages: ['dev', 'prod'],
+      defaultStage: 'prod',
+    });
+
+    // Assert
+    expect(server.variables?.region.enum).toEqual(['us-east-1', 'eu-west-1']);
+    expect(server.variables?.stage.default).toBe('prod');
+    expect(
+      validateConfig({
+        inputPaths: ['src'],
+        info: { title: 'API', version: '1.0.0' },
+        servers: [server],
+      }).isValid
+    ).toBe(true);
+  });
+
+  it('should throw without stages', () => {
+    // Act & Assert
+    expect(() =>
+      apiGatewayServer({ apiId: 'a1b2c3d4e5', region: 'us-east-1', stages: [] })
+    ).toThrow('apiGatewayServer requires at least one stage');
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  formatValidationErrors,
+  registerValidationRule,
+  resetValidationRules,
+  validateConfig,
+} from '../../../src/config/validation';
+import { GeneratorConfig } from '../../../src/types/config';
+
+describe('Config Validation', () => {
+  const config: GeneratorConfig = {
+    inputPaths: ['src/handlers'],
+    info: { title: 'Users API', version: '1.0.0' },
+    servers: [
+      { url: 'https://api.example.com' },
+      {
+        url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}',
+        variables: {
+          apiId: { default: 'a1b2c3d4e5' },
+          region: { default: 'us-east-1' },
+          stage: { default: 'dev', enum: ['dev', 'stg', 'prod'] },
+        },
+      },
+      { url: '/v1' },
+    ],
+    basePath: '/users',
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+    },
+    security: [{ bearerAuth: [] }],
+  };
+
+  afterEach(() => {
+    resetValidationRules();
+  });
+
+  it('should accept a valid configuration', () => {
+    // Act
+    const result = validateConfig(config);
+
+    // Assert
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('should report missing title, version and input paths', () => {
+    // Act
+    const result = validateConfig({
+      ...config,
+      inputPaths: [],
+      info: { title: ' ', version: '' },
+    });
+
+    // Assert
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(error => error.rule)).toEqual([
+      'input-paths',
+      'info-title',
+      'info-version',
+    ]);
+  });
+
+  it('should report invalid server URLs', () => {
+    // Act
+    const result = validateConfig({
+      ...config,
+      servers: [
+        { url: 'api.example.com' },
+        { url: 'ftp://files.example.com' },
+        { url: 'https://api.example.com' },
+      ],
+    });
+
+    // Assert
+    expect(result.errors).toEqual([
+      {
+        rule: 'server-url',
+        message:
+          'Invalid server URL "api.example.com", "ftp://files.example.com"; use an absolute http(s) URL or a path starting with /',
+      },
+    ]);
+  });
+
+  it('should report undeclared server variables and invalid defaults', () => {
+    // Act
+    const result = validateConfig({
+      ...config,
+      servers: [
+        {
+          url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}',
+          variables: {
+            region: { default: 'us-east-1' },
+            stage: { default: 'qa', enum: ['dev', 'prod'] },
+          },
+        },
+        {
+          url: 'https://api.example.com/{version}',
+          variables: { version: { enum: ['v1'] } as any },
+        },
+      ],
+    });
+
+    // Assert
+    expect(result.errors).toEqual([
+      {
+        rule: 'server-variables',
+        message: [
+          'Server "https://{apiId}.execute-api.{region}.amazonaws.com/{stage}" uses undeclared variable "apiId"; add it to variables',
+          'Server variable "stage" of "https://{apiId}.execute-api.{region}.amazonaws.com/{stage}" has default "qa", which is not one of "dev", "prod"',
+          'Server variable "version" of "https://api.example.com/{version}" needs a default value',
+        ].join('; '),
+      },
+    ]);
+  });
+
+  it('should report a basePath without a leading slash', () => {
+    // Act
+    const result = validateConfig({ ...config, basePath: 'v1' });
+
+    // Assert
+    expect(result.errors).toEqual([
+      {
+        rule: 'base-path',
+        message: 'basePath "v1" must start with a slash, e.g. "/v1"',
+      },
+    ]);
+  });
+
+  it('should require the region and account ID of API Gateway extensions', () => {
+    // Arrange
+    const extended: GeneratorConfig = {
+      ...config,
+      options: { includeLambdaExtensions: true },
+    };
+
+    // Act
+    const result = validateConfig(extended);
+
+    // Assert
+    expect(result.errors).toEqual([
+      {
+        rule: 'api-gateway-integration',
+        message:
+          'API Gateway extensions need apiGateway.region and apiGateway.accountId to build integration URIs; set them, or set apiGateway.cloudFormation to reference ${AWS::Region} and ${AWS::AccountId} from a CloudFormation template',
+      },
+    ]);
+    expect(
+      validateConfig({ ...extended, apiGateway: { cloudFormation: true } })
+        .isValid
+    ).toBe(true);
+    expect(
+      validateConfig({
+        ...extended,
+        apiGateway: {
+          lambdaArn: 'arn:aws:lambda:us-east-1:123456789012:function:users',
+        },
+      }).isValid
+    ).toBe(true);
+  });
+
+  it('should warn about security requirements with undeclared schemes', () => {
+    // Act
+    const result = validateConfig({
+      ...config,
+      security: [{ bearerAuth: [] }, { cognito: ['users/read'] }],
+    });
+
+    // Assert
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        rule: 'security-schemes',
+        message:
+          'Global security refers to undeclared scheme "cognito"; declare it in the securitySchemes of the configuration',
+      },
+    ]);
+  });
+
+  it('should apply registered and extra custom rules', () => {
+    // Arrange
+    registerValidationRule({
+      name: 'description',
+      severity: 'warning',
+      validate: candidate => !!candidate.info.description,
+      message: 'info.description is recommended',
+    });
+
+    // Act
+    const result = validateConfig(config, [
+      {
+        name: 'versioned-base-path',
+        validate: candidate => /^\/v\d+/.test(candidate.basePath || ''),
+        message: candidate =>
+          `basePath "${candidate.basePath}" must start with a version`,
+      },
+    ]);
+
+    // Assert
+    expect(result.warnings).toEqual([
+      { rule: 'description', message: 'info.description is recommended' },
+    ]);
+    expect(result.errors).toEqual([
+      {
+        rule: 'versioned-base-path',
+        message: 'basePath "/users" must start with a version',
+      },
+    ]);
+  });
+
+  it('should replace a registered rule with the same name', () => {
+    // Arrange
+    registerValidationRule({
+      name: 'custom',
+      validate: () => false,
+      message: 'first',
+    });
+    registerValidationRule({
+      name: 'custom',
+      validate: () => false,
+      message: 'second',
+    });
+
+    // Act
+    const result = validateConfig(config);
+
+    // Assert
+    expect(result.errors).toEqual([{ rule: 'custom', message: 'second' }]);
+  });
+
+  it('should format errors as one message', () => {
+    // Act
+    const message = formatValidationErrors(
+      validateConfig({ ...config, info: { title: '', version: '' } })
+    );
+
+    // Assert
+    expect(message).toBe(
+      [
+        'Invalid configuration:',
+        '  - info.title is required [info-title]',
+        '  - info.version is required [info-version]',
+      ].join('\n')
+    );
+  });
+});
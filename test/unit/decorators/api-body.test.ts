@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import {
+  ApiBody,
+  hasApiBody,
+  getApiBody,
+} from '../../../src/decorators/api-body';
+import { MetadataManager } from '../../../src/utils/metadata';
+
+describe('@ApiBody', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Function Decorator', () => {
+    it('should apply body metadata to a function', () => {
+      // Arrange
+      const options = {
+        description: 'User to create',
+        type: 'object',
+        required: false,
+        example: { name: 'John' },
+        content: { 'text/plain': { schema: { type: 'string' } } },
+      };
+
+      // Act
+      const decoratedFunction = ApiBody(options)(testFunction);
+      const body = getApiBody(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(body).toBeDefined();
+      expect(body!.description).toBe(options.description);
+      expect(body!.type).toBe(options.type);
+      expect(body!.required).toBe(false);
+      expect(body!.example).toEqual(options.example);
+      expect(body!.content).toEqual(options.content);
+    });
+
+    it('should default required to true', () => {
+      // Act
+      ApiBody({ type: 'object' })(testFunction);
+
+      // Assert
+      expect(getApiBody(testFunction)!.required).toBe(true);
+    });
+
+    it('should overwrite an existing body', () => {
+      // Act
+      ApiBody({ description: 'First' })(testFunction);
+      ApiBody({ description: 'Second' })(testFunction);
+
+      // Assert
+      expect(getApiBody(testFunction)!.description).toBe('Second');
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply body metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiBody({ description: 'Method body' })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(getApiBody(instance.testMethod)!.description).toBe('Method body');
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiBody metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiBody(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiBody({ type: 'object' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiBody(testFunction)).toBe(true);
+    });
+
+    it('should return undefined for functions without metadata', () => {
+      // Assert
+      expect(getApiBody(testFunction)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import {
+  ApiController,
+  ApiSkipControllerDefaults,
+  hasApiController,
+  getApiController,
+} from '../../../src/decorators/api-controller';
+import { ApiOperation } from '../../../src/decorators/api-operation';
+import { ApiRoute } from '../../../src/decorators/api-route';
+import { ApiSecurity } from '../../../src/decorators/api-security';
+import { ApiTag } from '../../../src/decorators/api-tag';
+import { AccountHandlers } from '../../fixtures/controllers/accounts';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import { MetadataManager } from '../../../src/utils/metadata';
+
+describe('@ApiController', () => {
+  describe('Class Decorator', () => {
+    it('should store controller metadata on the class and its methods', () => {
+      // Act
+      const controller = getApiController(AccountHandlers);
+
+      // Assert
+      expect(controller).toMatchObject({
+        className: 'AccountHandlers',
+        basePath: '/accounts',
+        tags: ['accounts'],
+        security: [{ type: 'http', scheme: 'bearer', order: 0 }],
+        responses: [{ status: 500, description: 'Internal error', order: 0 }],
+      });
+      expect(getApiController(AccountHandlers.list)).toBe(controller);
+      expect(hasApiController(AccountHandlers.health)).toBe(true);
+    });
+
+    it('should link instance methods and ignore undecorated ones', () => {
+      // Act
+      @ApiController({ basePath: 'orders/' })
+      class OrderHandlers {
+        @ApiOperation({ summary: 'Create order' })
+        @ApiRoute({ method: 'post', path: '/' })
+        create() {
+          return undefined;
+        }
+
+        helper() {
+          return undefined;
+        }
+      }
+
+      // Assert
+      expect(getApiController(OrderHandlers.prototype.create)?.basePath).toBe(
+        '/orders'
+      );
+      expect(hasApiController(OrderHandlers.prototype.helper)).toBe(false);
+    });
+
+    it('should add no prefix for a base path of "/"', () => {
+      // Act
+      @ApiController({ basePath: '/' })
+      class RootHandlers {
+        @ApiRoute({ method: 'get', path: '/status' })
+        static status() {
+          return undefined;
+        }
+      }
+
+      // Assert
+      expect(
+        MetadataManager.getHandlerMetadata(RootHandlers.status).route
+      ).toEqual({ method: 'get', path: '/status' });
+    });
+  });
+
+  describe('Merged Handler Metadata', () => {
+    it('should prefix routes and apply default tags, security and responses', () => {
+      // Act
+      const metadata = MetadataManager.getHandlerMetadata(AccountHandlers.list);
+
+      // Assert
+      expect(metadata.route).toEqual({ method: 'get', path: '/accounts' });
+      expect(metadata.operation!.tags).toEqual(['accounts']);
+      expect(metadata.security).toMatchObject([
+        { type: 'http', scheme: 'bearer' },
+      ]);
+      expect(metadata.responses.map(response => response.status)).toEqual([
+        200, 500,
+      ]);
+    });
+
+    it('should let method metadata override the defaults', () => {
+      // Act
+      const metadata = MetadataManager.getHandlerMetadata(AccountHandlers.get);
+
+      // Assert
+      expect(metadata.route!.path).toBe('/accounts/{accountId}');
+      expect(metadata.operation!.tags).toEqual(['admin']);
+      expect(
+        metadata.responses.map(response => [
+          response.status,
+          response.description,
+        ])
+      ).toEqual([
+        [500, 'Account store unavailable'],
+        [200, 'Account'],
+      ]);
+    });
+
+    it('should let @ApiTag tags replace the default tags', () => {
+      // Arrange
+      @ApiController({ tags: ['reports'] })
+      class ReportHandlers {
+        @ApiOperation({ summary: 'Export report' })
+        @ApiRoute({ method: 'get', path: '/reports/export' })
+        @ApiTag({ name: 'exports' })
+        static export() {
+          return undefined;
+        }
+      }
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          inputPaths: ['./test'],
+          info: { title: 'Reports API', version: '1.0.0' },
+        },
+        [ReportHandlers.export]
+      );
+
+      // Assert
+      expect(spec.paths['/reports/export'].get!.tags).toEqual(['exports']);
+    });
+
+    it('should apply the default tags without @ApiOperation', () => {
+      // Arrange
+      @ApiController({ tags: ['reports'] })
+      class ReportHandlers {
+        @ApiRoute({ method: 'get', path: '/reports' })
+        static list() {
+          return undefined;
+        }
+      }
+
+      // Act
+      const metadata = MetadataManager.getHandlerMetadata(ReportHandlers.list);
+
+      // Assert
+      expect(metadata.operation).toBeUndefined();
+      expect(metadata.tags).toEqual([{ name: 'reports', order: 0 }]);
+    });
+
+    it('should keep method security and public methods public', () => {
+      // Arrange
+      @ApiController({ security: [{ type: 'http', scheme: 'bearer' }] })
+      class KeyHandlers {
+        @ApiSecurity({ type: 'apiKey', name: 'x-api-key', in: 'header' })
+        static rotate() {
+          return undefined;
+        }
+      }
+
+      // Act
+      const rotate = MetadataManager.getHandlerMetadata(KeyHandlers.rotate);
+      const health = MetadataManager.getHandlerMetadata(AccountHandlers.health);
+
+      // Assert
+      expect(rotate.security.map(security => security.type)).toEqual([
+        'apiKey',
+      ]);
+      expect(health.isPublic).toBe(true);
+      expect(health.security).toEqual([]);
+    });
+
+    it('should skip the defaults a method opts out of', () => {
+      // Act
+      const metadata = MetadataManager.getHandlerMetadata(
+        AccountHandlers.health
+      );
+
+      // Assert
+      expect(metadata.route!.path).toBe('/health');
+      expect(metadata.operation!.tags).toEqual(['accounts']);
+      expect(metadata.responses.map(response => response.status)).toEqual([
+        200, 500,
+      ]);
+    });
+
+    it('should skip every default when none are named', () => {
+      // Arrange
+      @ApiController({ basePath: '/jobs', tags: ['jobs'] })
+      class JobHandlers {
+        @ApiOperation({ summary: 'Run job' })
+        @ApiRoute({ method: 'post', path: '/run' })
+        @ApiSkipControllerDefaults()
+        static run() {
+          return undefined;
+        }
+      }
+
+      // Act
+      const metadata = MetadataManager.getHandlerMetadata(JobHandlers.run);
+
+      // Assert
+      expect(metadata.route!.path).toBe('/run');
+      expect(metadata.operation!.tags).toBeUndefined();
+    });
+  });
+
+  describe('Generation', () => {
+    it('should generate operations with the controller defaults', () => {
+      // Act
+      const spec = generateOpenApiSpec({
+        inputPaths: [path.join(__dirname, '../../fixtures/controllers')],
+        info: { title: 'Accounts API', version: '1.0.0' },
+      });
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual([
+        '/accounts',
+        '/accounts/{accountId}',
+        '/health',
+      ]);
+      expect(spec.paths['/accounts'].get).toMatchObject({
+        tags: ['accounts'],
+        security: [{ bearerAuth: [] }],
+      });
+      expect(Object.keys(spec.paths['/accounts'].get!.responses)).toEqual([
+        '200',
+        '500',
+      ]);
+      expect(spec.paths['/health'].get!.security).toEqual([]);
+    });
+  });
+});
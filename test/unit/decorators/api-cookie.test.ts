@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import {
+  ApiCookie,
+  hasApiCookie,
+  getApiCookies,
+  getApiCookie,
+} from '../../../src/decorators/api-cookie';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiCookie', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Single Cookie', () => {
+    it('should apply cookie metadata to a function', () => {
+      // Arrange
+      const options = {
+        name: 'session',
+        description: 'Session identifier',
+        required: true,
+        type: 'string',
+        example: 'abc123',
+        enum: undefined,
+        deprecated: false,
+      };
+
+      // Act
+      const decoratedFunction = ApiCookie(options)(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(getApiCookie(testFunction, 'session')).toEqual({
+        ...options,
+        order: 0,
+      });
+    });
+
+    it('should default required to false', () => {
+      // Act
+      ApiCookie({ name: 'theme', enum: ['light', 'dark'] })(testFunction);
+
+      // Assert
+      expect(getApiCookie(testFunction, 'theme')!.required).toBe(false);
+    });
+  });
+
+  describe('Multiple Cookies', () => {
+    it('should maintain application order', () => {
+      // Act
+      ApiCookie({ name: 'session' })(testFunction);
+      ApiCookie({ name: 'theme' })(testFunction);
+      const cookies = getApiCookies(testFunction);
+
+      // Assert
+      expect(cookies.map(cookie => cookie.name)).toEqual(['session', 'theme']);
+      expect(cookies.map(cookie => cookie.order)).toEqual([0, 1]);
+    });
+
+    it('should reject a cookie declared twice', () => {
+      // Arrange
+      ApiCookie({ name: 'session' })(testFunction);
+
+      // Act & Assert
+      expect(() => ApiCookie({ name: 'session' })(testFunction)).toThrow(
+        'Duplicate @ApiCookie "session" on handler "testHandler"'
+      );
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiCookie metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiCookie(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiCookie({ name: 'session' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiCookie(testFunction)).toBe(true);
+    });
+
+    it('should return empty array for functions without cookie metadata', () => {
+      // Assert
+      expect(getApiCookies(testFunction)).toEqual([]);
+      expect(getApiCookie(testFunction, 'session')).toBeUndefined();
+    });
+  });
+});
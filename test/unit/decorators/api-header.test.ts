@@ -0,0 +1,147 @@
+import 'reflect-metadata';
+import {
+  ApiHeader,
+  hasApiHeader,
+  getApiHeaders,
+  getApiHeader,
+} from '../../../src/decorators/api-header';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiHeader', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Single Header', () => {
+    it('should apply header metadata to a function', () => {
+      // Arrange
+      const options = {
+        name: 'Idempotency-Key',
+        description: 'Key making retried requests safe',
+        required: true,
+        type: 'string',
+        example: '8e03978e-40d5-43e8-bc93-6894a57f9324',
+        deprecated: false,
+      };
+
+      // Act
+      const decoratedFunction = ApiHeader(options)(testFunction);
+      const header = getApiHeader(testFunction, 'Idempotency-Key');
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(getApiHeaders(testFunction)).toHaveLength(1);
+      expect(header).toEqual({ ...options, enum: undefined, order: 0 });
+    });
+
+    it('should default required to false', () => {
+      // Act
+      ApiHeader({ name: 'X-Correlation-Id' })(testFunction);
+
+      // Assert
+      expect(getApiHeader(testFunction, 'X-Correlation-Id')!.required).toBe(
+        false
+      );
+    });
+
+    it('should look up header names case-insensitively', () => {
+      // Act
+      ApiHeader({ name: 'X-Correlation-Id' })(testFunction);
+
+      // Assert
+      expect(getApiHeader(testFunction, 'x-correlation-id')!.name).toBe(
+        'X-Correlation-Id'
+      );
+    });
+  });
+
+  describe('Multiple Headers', () => {
+    it('should maintain application order', () => {
+      // Act
+      ApiHeader({ name: 'X-Tenant-Id' })(testFunction);
+      ApiHeader({ name: 'X-Correlation-Id' })(testFunction);
+      const headers = getApiHeaders(testFunction);
+
+      // Assert
+      expect(headers.map(header => header.name)).toEqual([
+        'X-Tenant-Id',
+        'X-Correlation-Id',
+      ]);
+      expect(headers.map(header => header.order)).toEqual([0, 1]);
+    });
+
+    it('should reject the same header declared in another case', () => {
+      // Arrange
+      ApiHeader({ name: 'X-Correlation-Id' })(testFunction);
+
+      // Act & Assert
+      expect(() =>
+        ApiHeader({ name: 'X-CORRELATION-ID' })(testFunction)
+      ).toThrow(
+        'Duplicate @ApiHeader "X-CORRELATION-ID" on handler "testHandler" (already declared as "X-Correlation-Id")'
+      );
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply header metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiHeader({ name: 'X-Tenant-Id', enum: ['a', 'b'] })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(getApiHeader(instance.testMethod, 'X-Tenant-Id')!.enum).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiHeader metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiHeader(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiHeader({ name: 'X-Tenant-Id' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiHeader(testFunction)).toBe(true);
+    });
+
+    it('should return empty array for functions without header metadata', () => {
+      // Assert
+      expect(getApiHeaders(testFunction)).toEqual([]);
+      expect(getApiHeader(testFunction, 'X-Tenant-Id')).toBeUndefined();
+    });
+  });
+});
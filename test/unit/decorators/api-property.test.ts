@@ -0,0 +1,132 @@
+import 'reflect-metadata';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  hasApiProperties,
+  getApiProperties,
+} from '../../../src/decorators/api-property';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiProperty', () => {
+  beforeEach(() => {
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  describe('Property Decorator', () => {
+    it('should store property metadata on the class', () => {
+      // Arrange
+      class User {
+        @ApiProperty({ description: 'User ID', format: 'uuid' })
+        id!: string;
+
+        @ApiProperty({ minimum: 0, maximum: 150 })
+        age!: number;
+      }
+
+      // Act
+      const properties = getApiProperties(User);
+
+      // Assert
+      expect(properties).toHaveLength(2);
+      expect(properties[0].name).toBe('id');
+      expect(properties[0].description).toBe('User ID');
+      expect(properties[0].format).toBe('uuid');
+      expect(properties[0].required).toBe(true);
+      expect(properties[0].designType).toBe(String);
+      expect(properties[1].name).toBe('age');
+      expect(properties[1].minimum).toBe(0);
+      expect(properties[1].maximum).toBe(150);
+      expect(properties[1].designType).toBe(Number);
+    });
+
+    it('should maintain declaration order', () => {
+      // Arrange
+      class Item {
+        @ApiProperty()
+        zeta!: string;
+
+        @ApiProperty()
+        alpha!: string;
+      }
+
+      // Act
+      const properties = getApiProperties(Item);
+
+      // Assert
+      expect(properties.map(property => property.name)).toEqual([
+        'zeta',
+        'alpha',
+      ]);
+      expect(properties.map(property => property.order)).toEqual([0, 1]);
+    });
+
+    it('should include inherited properties and allow overrides', () => {
+      // Arrange
+      class Base {
+        @ApiProperty()
+        id!: string;
+
+        @ApiProperty({ description: 'Base name' })
+        name!: string;
+      }
+      class Derived extends Base {
+        @ApiProperty({ description: 'Derived name' })
+        name!: string;
+
+        @ApiProperty()
+        email!: string;
+      }
+
+      // Act
+      const baseProperties = getApiProperties(Base);
+      const derivedProperties = getApiProperties(Derived);
+
+      // Assert
+      expect(baseProperties.map(property => property.name)).toEqual([
+        'id',
+        'name',
+      ]);
+      expect(derivedProperties.map(property => property.name)).toEqual([
+        'id',
+        'name',
+        'email',
+      ]);
+      expect(derivedProperties[1].description).toBe('Derived name');
+    });
+  });
+
+  describe('@ApiPropertyOptional', () => {
+    it('should mark the property as not required', () => {
+      // Arrange
+      class Profile {
+        @ApiPropertyOptional({ description: 'Nickname' })
+        nickname?: string;
+      }
+
+      // Act
+      const [property] = getApiProperties(Profile);
+
+      // Assert
+      expect(property.name).toBe('nickname');
+      expect(property.required).toBe(false);
+      expect(property.description).toBe('Nickname');
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if class has ApiProperty metadata', () => {
+      // Arrange
+      class Empty {}
+      class WithProperty {
+        @ApiProperty()
+        id!: string;
+      }
+
+      // Assert
+      expect(hasApiProperties(Empty)).toBe(false);
+      expect(hasApiProperties(WithProperty)).toBe(true);
+      expect(getApiProperties(Empty)).toEqual([]);
+    });
+  });
+});
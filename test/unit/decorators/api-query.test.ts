@@ -0,0 +1,154 @@
+import 'reflect-metadata';
+import {
+  ApiQuery,
+  hasApiQuery,
+  getApiQueries,
+  getApiQuery,
+} from '../../../src/decorators/api-query';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiQuery', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Single Query Parameter', () => {
+    it('should apply query metadata to a function', () => {
+      // Arrange
+      const options = {
+        name: 'status',
+        description: 'Filter by status',
+        required: true,
+        type: 'string',
+        example: 'active',
+        enum: ['active', 'inactive'],
+        deprecated: false,
+        allowEmptyValue: true,
+      };
+
+      // Act
+      const decoratedFunction = ApiQuery(options)(testFunction);
+      const queries = getApiQueries(testFunction);
+      const query = getApiQuery(testFunction, 'status');
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(queries).toHaveLength(1);
+      expect(query).toBeDefined();
+      expect(query!.name).toBe(options.name);
+      expect(query!.description).toBe(options.description);
+      expect(query!.required).toBe(true);
+      expect(query!.type).toBe(options.type);
+      expect(query!.example).toBe(options.example);
+      expect(query!.enum).toEqual(options.enum);
+      expect(query!.deprecated).toBe(false);
+      expect(query!.allowEmptyValue).toBe(true);
+      expect(query!.order).toBe(0);
+    });
+
+    it('should default required to false', () => {
+      // Act
+      ApiQuery({ name: 'limit' })(testFunction);
+      const query = getApiQuery(testFunction, 'limit');
+
+      // Assert
+      expect(query).toBeDefined();
+      expect(query!.required).toBe(false);
+      expect(query!.allowEmptyValue).toBeUndefined();
+    });
+  });
+
+  describe('Multiple Query Parameters', () => {
+    it('should maintain application order', () => {
+      // Act
+      ApiQuery({ name: 'zQuery' })(testFunction);
+      ApiQuery({ name: 'aQuery' })(testFunction);
+      ApiQuery({ name: 'mQuery' })(testFunction);
+      const queries = getApiQueries(testFunction);
+
+      // Assert
+      expect(queries.map(query => query.name)).toEqual([
+        'zQuery',
+        'aQuery',
+        'mQuery',
+      ]);
+      expect(queries.map(query => query.order)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply query metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiQuery({ name: 'page', type: 'integer' })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(getApiQuery(instance.testMethod, 'page')!.type).toBe('integer');
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiQuery metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiQuery(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiQuery({ name: 'limit' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiQuery(testFunction)).toBe(true);
+    });
+
+    it('should return empty array for functions without query metadata', () => {
+      // Assert
+      expect(getApiQueries(testFunction)).toEqual([]);
+      expect(getApiQuery(testFunction, 'limit')).toBeUndefined();
+    });
+
+    it('should reset query order counter', () => {
+      // Arrange
+      ApiQuery({ name: 'first' })(testFunction);
+      const anotherFunction = function anotherHandler() {};
+
+      // Act
+      MetadataRegistry.current().resetOrder();
+      ApiQuery({ name: 'reset' })(anotherFunction);
+
+      // Assert
+      expect(getApiQuery(testFunction, 'first')!.order).toBe(0);
+      expect(getApiQuery(anotherFunction, 'reset')!.order).toBe(0);
+
+      // Cleanup
+      MetadataManager.clearMetadata(anotherFunction);
+    });
+  });
+});
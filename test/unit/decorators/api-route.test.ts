@@ -0,0 +1,122 @@
+import 'reflect-metadata';
+import {
+  ApiRoute,
+  hasApiRoute,
+  getApiRoute,
+} from '../../../src/decorators/api-route';
+import { MetadataManager } from '../../../src/utils/metadata';
+
+describe('@ApiRoute', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Function Decorator', () => {
+    it('should apply route metadata to a function', () => {
+      // Act
+      const decoratedFunction = ApiRoute({
+        method: 'post',
+        path: '/users/{userId}/groups',
+      })(testFunction);
+      const route = getApiRoute(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(route).toEqual({ method: 'post', path: '/users/{userId}/groups' });
+    });
+
+    it('should normalize uppercase methods', () => {
+      // Act
+      ApiRoute({ method: 'DELETE', path: '/users/{userId}' })(testFunction);
+
+      // Assert
+      expect(getApiRoute(testFunction)!.method).toBe('delete');
+    });
+
+    it('should add a leading slash and strip trailing slashes', () => {
+      // Act
+      ApiRoute({ method: 'get', path: 'users/' })(testFunction);
+
+      // Assert
+      expect(getApiRoute(testFunction)!.path).toBe('/users');
+    });
+
+    it('should keep the root path', () => {
+      // Act
+      ApiRoute({ method: 'get', path: '/' })(testFunction);
+
+      // Assert
+      expect(getApiRoute(testFunction)!.path).toBe('/');
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply route metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiRoute({ method: 'put', path: '/items/{id}' })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(getApiRoute(instance.testMethod)).toEqual({
+        method: 'put',
+        path: '/items/{id}',
+      });
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiRoute metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiRoute(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiRoute({ method: 'get', path: '/health' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiRoute(testFunction)).toBe(true);
+    });
+
+    it('should return undefined for functions without metadata', () => {
+      // Assert
+      expect(getApiRoute(testFunction)).toBeUndefined();
+    });
+
+    it('should be reported by MetadataManager.hasMetadata', () => {
+      // Act
+      ApiRoute({ method: 'get', path: '/health' })(testFunction);
+
+      // Assert
+      expect(MetadataManager.hasMetadata(testFunction)).toBe(true);
+      expect(MetadataManager.getHandlerMetadata(testFunction).route).toEqual({
+        method: 'get',
+        path: '/health',
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import { ApiSchema, getApiSchema } from '../../../src/decorators/api-schema';
+
+describe('@ApiSchema', () => {
+  it('should store schema metadata on the class', () => {
+    // Arrange
+    @ApiSchema({ name: 'Customer', description: 'A paying customer' })
+    class CustomerDto {}
+
+    // Act
+    const metadata = getApiSchema(CustomerDto);
+
+    // Assert
+    expect(metadata).toEqual({
+      className: 'CustomerDto',
+      name: 'Customer',
+      description: 'A paying customer',
+    });
+  });
+
+  it('should return the decorated class', () => {
+    // Arrange
+    class PlainDto {}
+
+    // Act
+    const result = ApiSchema()(PlainDto);
+
+    // Assert
+    expect(result).toBe(PlainDto);
+    expect(getApiSchema(PlainDto)!.name).toBeUndefined();
+  });
+
+  it('should not inherit schema metadata from a parent class', () => {
+    // Arrange
+    @ApiSchema({ name: 'Base' })
+    class BaseDto {}
+    class ChildDto extends BaseDto {}
+
+    // Assert
+    expect(getApiSchema(ChildDto)).toBeUndefined();
+  });
+
+  it('should return undefined for classes without metadata', () => {
+    // Arrange
+    class PlainDto {}
+
+    // Assert
+    expect(getApiSchema(PlainDto)).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import 'reflect-metadata';
+import {
+  ApiSecurity,
+  ApiPublic,
+  hasApiSecurity,
+  getApiSecurity,
+  isApiPublic,
+} from '../../../src/decorators/api-security';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiSecurity', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Function Decorator', () => {
+    it('should apply security metadata to a function', () => {
+      // Arrange
+      const options = {
+        type: 'apiKey' as const,
+        name: 'x-api-key',
+        in: 'header' as const,
+        description: 'API key',
+      };
+
+      // Act
+      const decoratedFunction = ApiSecurity(options)(testFunction);
+      const security = getApiSecurity(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(security).toHaveLength(1);
+      expect(security[0].type).toBe('apiKey');
+      expect(security[0].name).toBe('x-api-key');
+      expect(security[0].in).toBe('header');
+      expect(security[0].description).toBe('API key');
+      expect(security[0].order).toBe(0);
+    });
+
+    it('should keep OAuth2 scopes, flows and scheme name', () => {
+      // Arrange
+      const flows = {
+        clientCredentials: {
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { 'users/read': 'Read users' },
+        },
+      };
+
+      // Act
+      ApiSecurity({
+        type: 'oauth2',
+        schemeName: 'cognito',
+        scopes: ['users/read'],
+        flows,
+      })(testFunction);
+      const [security] = getApiSecurity(testFunction);
+
+      // Assert
+      expect(security.schemeName).toBe('cognito');
+      expect(security.scopes).toEqual(['users/read']);
+      expect(security.flows).toEqual(flows);
+    });
+
+    it('should maintain application order', () => {
+      // Act
+      ApiSecurity({ type: 'http', scheme: 'bearer' })(testFunction);
+      ApiSecurity({ type: 'apiKey', name: 'key' })(testFunction);
+      const security = getApiSecurity(testFunction);
+
+      // Assert
+      expect(security.map(item => item.type)).toEqual(['http', 'apiKey']);
+      expect(security.map(item => item.order)).toEqual([0, 1]);
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply security metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiSecurity({ type: 'http', scheme: 'basic' })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(hasApiSecurity(instance.testMethod)).toBe(true);
+    });
+  });
+
+  describe('@ApiPublic', () => {
+    it('should mark a function as public', () => {
+      // Act & Assert - not public initially
+      expect(isApiPublic(testFunction)).toBe(false);
+
+      // Apply decorator
+      const decoratedFunction = ApiPublic()(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(isApiPublic(testFunction)).toBe(true);
+      expect(MetadataManager.hasMetadata(testFunction)).toBe(true);
+      expect(MetadataManager.getHandlerMetadata(testFunction).isPublic).toBe(
+        true
+      );
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiSecurity metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiSecurity(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiSecurity({ type: 'http', scheme: 'bearer' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiSecurity(testFunction)).toBe(true);
+    });
+
+    it('should return empty array for functions without security metadata', () => {
+      // Assert
+      expect(getApiSecurity(testFunction)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import { ApiTag, hasApiTag, getApiTags } from '../../../src/decorators/api-tag';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+
+describe('@ApiTag', () => {
+  // Test targets
+  let testFunction: any;
+
+  beforeEach(() => {
+    // Create fresh test target
+    testFunction = function testHandler() {};
+    // Reset order counter for consistent testing
+    MetadataRegistry.current().resetOrder();
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    MetadataManager.clearMetadata(testFunction);
+  });
+
+  describe('Function Decorator', () => {
+    it('should apply tag metadata to a function', () => {
+      // Arrange
+      const options = {
+        name: 'users',
+        description: 'User management operations',
+        externalDocs: { url: 'https://docs.example.com/users' },
+      };
+
+      // Act
+      const decoratedFunction = ApiTag(options)(testFunction);
+      const tags = getApiTags(testFunction);
+
+      // Assert
+      expect(decoratedFunction).toBe(testFunction);
+      expect(tags).toHaveLength(1);
+      expect(tags[0].name).toBe(options.name);
+      expect(tags[0].description).toBe(options.description);
+      expect(tags[0].externalDocs).toEqual(options.externalDocs);
+      expect(tags[0].order).toBe(0);
+    });
+
+    it('should maintain application order', () => {
+      // Act
+      ApiTag({ name: 'users' })(testFunction);
+      ApiTag({ name: 'admin' })(testFunction);
+      const tags = getApiTags(testFunction);
+
+      // Assert
+      expect(tags.map(tag => tag.name)).toEqual(['users', 'admin']);
+      expect(tags.map(tag => tag.order)).toEqual([0, 1]);
+    });
+  });
+
+  describe('Method Decorator', () => {
+    it('should apply tag metadata to a class method', () => {
+      // Arrange
+      class TestClass {
+        testMethod() {
+          return 'test result';
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(
+        TestClass.prototype,
+        'testMethod'
+      );
+
+      // Act
+      const result = ApiTag({ name: 'users' })(
+        TestClass.prototype,
+        'testMethod',
+        descriptor
+      );
+      const instance = new TestClass();
+
+      // Assert
+      expect(result).toBe(descriptor);
+      expect(instance.testMethod()).toBe('test result');
+      expect(getApiTags(instance.testMethod)[0].name).toBe('users');
+    });
+  });
+
+  describe('Utility Functions', () => {
+    it('should check if function has ApiTag metadata', () => {
+      // Act & Assert - no metadata initially
+      expect(hasApiTag(testFunction)).toBe(false);
+
+      // Apply decorator
+      ApiTag({ name: 'users' })(testFunction);
+
+      // Assert - has metadata now
+      expect(hasApiTag(testFunction)).toBe(true);
+    });
+
+    it('should return empty array for functions without tag metadata', () => {
+      // Assert
+      expect(getApiTags(testFunction)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import 'reflect-metadata';
+import * as ts from 'typescript';
+import * as decorators from '../../../src/decorators';
+import {
+  ApiOperation,
+  ApiProperty,
+  ApiRoute,
+  getApiProperties,
+  resetParamOrder,
+  resetResponseOrder,
+} from '../../../src/decorators';
+import { MetadataManager } from '../../../src/utils/metadata';
+
+const SYMBOL_METADATA = Symbol.for('Symbol.metadata');
+
+/**
+ * Compile a module with legacy or standard decorators and run it against
+ * the decorators under test
+ */
+function compile(
+  source: string[],
+  experimentalDecorators: boolean
+): Record<string, any> {
+  const { outputText } = ts.transpileModule(source.join('\n'), {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.CommonJS,
+      experimentalDecorators,
+      emitDecoratorMetadata: experimentalDecorators,
+    },
+  });
+
+  const moduleExports: Record<string, any> = {};
+  new Function('exports', 'require', outputText)(moduleExports, (id: string) =>
+    id === 'lambda-openapi' ? decorators : require(id)
+  );
+  return moduleExports;
+}
+
+/**
+ * Apply standard decorators to class members the way TypeScript 5.2 does,
+ * with a `context.metadata` object that becomes the class's metadata
+ */
+function defineClass(
+  members: Array<{
+    kind: 'method' | 'field';
+    name: string;
+    value?: any;
+    decorators: any[];
+  }>,
+  parent?: any
+): any {
+  const metadata = Object.create(parent?.[SYMBOL_METADATA] ?? null);
+  members.forEach(member =>
+    [...member.decorators].reverse().forEach(decorator =>
+      decorator(member.value, {
+        kind: member.kind,
+        name: member.name,
+        static: false,
+        private: member.name.startsWith('#'),
+        metadata,
+        addInitializer: () => undefined,
+      })
+    )
+  );
+
+  const target = parent ? class extends parent {} : class {};
+  Object.defineProperty(target, SYMBOL_METADATA, { value: metadata });
+  return target;
+}
+
+describe('Standard Decorators', () => {
+  const controller = [
+    "import { ApiOperation, ApiParam, ApiResponse, ApiRoute } from 'lambda-openapi';",
+    'export class UserController {',
+    "  @ApiOperation({ summary: 'Get user' })",
+    "  @ApiRoute({ method: 'GET', path: '/users/{userId}' })",
+    "  @ApiParam({ name: 'userId' })",
+    "  @ApiResponse({ status: 200, description: 'User found' })",
+    "  @ApiResponse({ status: 404, description: 'User not found' })",
+    '  static getUser(event: unknown) {',
+    '    return event;',
+    '  }',
+    '}',
+  ];
+
+  beforeEach(() => {
+    resetParamOrder();
+    resetResponseOrder();
+  });
+
+  describe('Compilation Modes', () => {
+    it('should record the same handler metadata under both semantics', () => {
+      // Arrange
+      const legacy = compile(controller, true).UserController.getUser;
+      resetParamOrder();
+      resetResponseOrder();
+
+      // Act
+      const standard = compile(controller, false).UserController.getUser;
+
+      // Assert
+      expect(MetadataManager.getHandlerMetadata(standard)).toEqual(
+        MetadataManager.getHandlerMetadata(legacy)
+      );
+      expect(MetadataManager.getHandlerMetadata(standard)).toMatchObject({
+        operation: { functionName: 'getUser', summary: 'Get user' },
+        route: { method: 'get', path: '/users/{userId}' },
+        params: [{ name: 'userId', in: 'path' }],
+        responses: [{ status: 404 }, { status: 200 }],
+      });
+    });
+
+    it('should leave decorated methods callable', () => {
+      // Act
+      const { UserController } = compile(controller, false);
+
+      // Assert
+      expect(UserController.getUser('event')).toBe('event');
+    });
+
+    it('should reject handler decorators on fields', () => {
+      // Arrange
+      const source = [
+        "import { ApiOperation } from 'lambda-openapi';",
+        'export class UserController {',
+        "  @ApiOperation({ summary: 'Get user' })",
+        '  getUser = () => undefined;',
+        '}',
+      ];
+
+      // Act & Assert
+      expect(() => compile(source, false)).toThrow(
+        'API handler decorators apply to functions and methods, not to the field "getUser"'
+      );
+    });
+
+    it('should require decorator metadata for properties', () => {
+      // Arrange
+      const source = [
+        "import { ApiProperty } from 'lambda-openapi';",
+        'export class User {',
+        "  @ApiProperty({ type: 'string' })",
+        '  id!: string;',
+        '}',
+      ];
+
+      // Act & Assert
+      expect(() => compile(source, false)).toThrow(
+        '@ApiProperty on "id" needs decorator metadata (context.metadata)'
+      );
+    });
+  });
+
+  describe('Class Metadata', () => {
+    it('should record decorated methods in the class metadata', () => {
+      // Arrange
+      const audit = () => undefined;
+
+      // Act
+      const AuditController = defineClass([
+        {
+          kind: 'method',
+          name: '#audit',
+          value: audit,
+          decorators: [
+            ApiOperation({ summary: 'Audit' }),
+            ApiRoute({ method: 'post', path: '/audit' }),
+          ],
+        },
+      ]);
+
+      // Assert
+      expect(MetadataManager.getMethods(AuditController)).toEqual([audit]);
+      expect(MetadataManager.getOperation(audit)).toMatchObject({
+        functionName: '#audit',
+        summary: 'Audit',
+      });
+    });
+
+    it('should store schema properties in the class metadata', () => {
+      // Act
+      const User = defineClass([
+        {
+          kind: 'field',
+          name: 'id',
+          decorators: [ApiProperty({ type: 'string', format: 'uuid' })],
+        },
+        {
+          kind: 'field',
+          name: 'age',
+          decorators: [ApiProperty({ type: 'integer' })],
+        },
+      ]);
+
+      // Assert
+      expect(
+        getApiProperties(User).map(property => [property.name, property.type])
+      ).toEqual([
+        ['id', 'string'],
+        ['age', 'integer'],
+      ]);
+      expect(getApiProperties(User)[0].designType).toBeUndefined();
+    });
+
+    it('should inherit methods and properties of the parent class', () => {
+      // Arrange
+      const list = () => undefined;
+      const create = () => undefined;
+      const Base = defineClass([
+        {
+          kind: 'field',
+          name: 'id',
+          decorators: [ApiProperty({ type: 'string' })],
+        },
+        {
+          kind: 'method',
+          name: 'list',
+          value: list,
+          decorators: [ApiRoute({ method: 'get', path: '/items' })],
+        },
+      ]);
+
+      // Act
+      const Derived = defineClass(
+        [
+          {
+            kind: 'field',
+            name: 'name',
+            decorators: [ApiProperty({ type: 'string' })],
+          },
+          {
+            kind: 'method',
+            name: 'create',
+            value: create,
+            decorators: [ApiRoute({ method: 'post', path: '/items' })],
+          },
+        ],
+        Base
+      );
+
+      // Assert
+      expect(MetadataManager.getMethods(Derived)).toEqual([list, create]);
+      expect(MetadataManager.getMethods(Base)).toEqual([list]);
+      expect(getApiProperties(Derived).map(property => property.name)).toEqual([
+        'id',
+        'name',
+      ]);
+      expect(getApiProperties(Base).map(property => property.name)).toEqual([
+        'id',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiPublic,
+  ApiResponse,
+  ApiRoute,
+  ApiSecurity,
+  getApiOperation,
+  openApi,
+  withOpenApi,
+} from '../../../src/decorators';
+import { discoverHandlers } from '../../../src/analyzer/handler-discovery';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { GeneratorConfig } from '../../../src/types/config';
+
+describe('withOpenApi', () => {
+  const config: GeneratorConfig = {
+    inputPaths: [path.join(__dirname, '../../fixtures/wrapped')],
+    info: {
+      title: 'Test API',
+      version: '1.0.0',
+    },
+  };
+
+  let handlers: any[];
+
+  beforeEach(() => {
+    handlers = [];
+  });
+
+  afterEach(() => {
+    // Clean up metadata
+    handlers.forEach(handler => MetadataManager.clearMetadata(handler));
+  });
+
+  const track = <T>(handler: T): T => {
+    handlers.push(handler);
+    return handler;
+  };
+
+  describe('Wrapping', () => {
+    it('should return the handler with its type preserved', async () => {
+      // Arrange
+      const handler = async (userId: string) => ({ statusCode: 200, userId });
+
+      // Act
+      const wrapped = track(
+        withOpenApi(handler, { operation: { summary: 'Get user' } })
+      );
+      const result: { statusCode: number; userId: string } = await wrapped(
+        'u1'
+      );
+
+      // Assert
+      expect(wrapped).toBe(handler);
+      expect(result).toEqual({ statusCode: 200, userId: 'u1' });
+    });
+
+    it('should generate the same document as the decorators', () => {
+      // Arrange
+      function decoratedHandler() {}
+      track(decoratedHandler);
+      ApiOperation({ summary: 'Get user' })(decoratedHandler);
+      ApiRoute({ method: 'get', path: '/users/{userId}' })(decoratedHandler);
+      ApiParam({ name: 'userId', type: 'string' })(decoratedHandler);
+      ApiResponse({ status: 200, description: 'User' })(decoratedHandler);
+      ApiResponse({ status: 404, description: 'Not found' })(decoratedHandler);
+      ApiSecurity({ type: 'apiKey', name: 'x-api-key', in: 'header' })(
+        decoratedHandler
+      );
+
+      const options = {
+        name: 'decoratedHandler',
+        operation: { summary: 'Get user' },
+        route: { method: 'get' as const, path: '/users/{userId}' },
+        params: [{ name: 'userId', type: 'string' }],
+        responses: [
+          { status: 200, description: 'User' },
+          { status: 404, description: 'Not found' },
+        ],
+        security: [
+          { type: 'apiKey' as const, name: 'x-api-key', in: 'header' as const },
+        ],
+      };
+
+      // Act
+      const wrapped = track(withOpenApi(() => undefined, options));
+      const built = track(
+        openApi(() => undefined, 'decoratedHandler')
+          .operation(options.operation)
+          .route(options.route)
+          .param(options.params[0])
+          .response(options.responses[0])
+          .response(options.responses[1])
+          .security(options.security[0])
+          .build()
+      );
+
+      // Assert
+      const expected = generateOpenApiSpec(config, [decoratedHandler]);
+      expect(generateOpenApiSpec(config, [wrapped])).toEqual(expected);
+      expect(generateOpenApiSpec(config, [built])).toEqual(expected);
+    });
+
+    it('should mark public operations', () => {
+      // Arrange
+      function healthHandler() {}
+      track(healthHandler);
+      ApiOperation({ summary: 'Health' })(healthHandler);
+      ApiPublic()(healthHandler);
+
+      // Act
+      const wrapped = track(
+        withOpenApi(function healthHandler() {}, {
+          operation: { summary: 'Health' },
+          public: true,
+        })
+      );
+
+      // Assert
+      expect(MetadataManager.getHandlerMetadata(wrapped)).toEqual(
+        MetadataManager.getHandlerMetadata(healthHandler)
+      );
+    });
+
+    it('should use the function name unless a name is given', () => {
+      // Act
+      const named = track(
+        withOpenApi(function getUserHandler() {}, {
+          operation: { summary: 'Get user' },
+        })
+      );
+      const renamed = track(
+        withOpenApi(function getUserHandler() {}, {
+          name: 'fetchUser',
+          operation: { summary: 'Fetch user' },
+        })
+      );
+
+      // Assert
+      expect(getApiOperation(named)!.functionName).toBe('getUserHandler');
+      expect(getApiOperation(renamed)!.functionName).toBe('fetchUser');
+    });
+  });
+
+  describe('Discovery', () => {
+    it('should name anonymous handlers after their export', () => {
+      // Act
+      const discovered = discoverHandlers(config);
+
+      // Assert
+      expect(
+        discovered.map(handler => getApiOperation(handler)!.functionName)
+      ).toEqual(['getPaymentHandler', 'listPayments']);
+    });
+  });
+});
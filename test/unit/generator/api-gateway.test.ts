@@ -0,0 +1,252 @@
+import {
+  DEFAULT_CORS_HEADERS,
+  addApiGatewayExtensions,
+} from '../../../src/generator/api-gateway';
+import { validateOpenApiSpec } from '../../../src/generator/spec-validator';
+import { OpenAPISpec, OperationObject } from '../../../src/types/openapi';
+
+describe('API Gateway Extensions', () => {
+  let listUsers: OperationObject;
+  let getUser: OperationObject;
+  let deleteUser: OperationObject;
+  let spec: OpenAPISpec;
+  let sources: Map<OperationObject, { functionName: string }>;
+  const account = { region: 'us-east-1', accountId: '123456789012' };
+
+  beforeEach(() => {
+    listUsers = {
+      operationId: 'listUsers',
+      responses: { '200': { description: 'Users' } },
+    };
+    const userIdParam = {
+      name: 'userId',
+      in: 'path' as const,
+      required: true,
+      schema: { type: 'string' as const, format: 'uuid' },
+    };
+    getUser = {
+      parameters: [userIdParam],
+      responses: { '200': { description: 'User' } },
+    };
+    deleteUser = {
+      parameters: [userIdParam],
+      responses: { '204': { description: 'Deleted' } },
+    };
+    spec = {
+      openapi: '3.0.0',
+      info: { title: 'Users API', version: '1.0.0' },
+      paths: {
+        '/users': { get: listUsers },
+        '/users/{userId}': { get: getUser, delete: deleteUser },
+      },
+    };
+    sources = new Map([
+      [listUsers, { functionName: 'listUsersHandler' }],
+      [getUser, { functionName: 'getUserHandler' }],
+      [deleteUser, { functionName: 'deleteUserHandler' }],
+    ]);
+  });
+
+  it('should add Lambda proxy integrations and request validators', () => {
+    // Act
+    addApiGatewayExtensions(spec, account, sources);
+
+    // Assert
+    expect(listUsers['x-amazon-apigateway-integration']).toEqual({
+      type: 'aws_proxy',
+      httpMethod: 'POST',
+      uri: 'arn:aws:apigateway:us-east-1:lambda:path/2015-03-31/functions/arn:aws:lambda:us-east-1:123456789012:function:listUsersHandler/invocations',
+      passthroughBehavior: 'when_no_match',
+    });
+    expect(spec['x-amazon-apigateway-request-validator']).toBe('all');
+    expect(spec['x-amazon-apigateway-request-validators']).toEqual({
+      all: { validateRequestBody: true, validateRequestParameters: true },
+      body: { validateRequestBody: true, validateRequestParameters: false },
+      params: { validateRequestBody: false, validateRequestParameters: true },
+    });
+    expect(spec['x-amazon-apigateway-binary-media-types']).toBeUndefined();
+    expect(spec['x-amazon-apigateway-gateway-responses']).toBeUndefined();
+    expect(spec.paths['/users'].options).toBeUndefined();
+  });
+
+  it('should substitute the Lambda ARN template per handler', () => {
+    // Act
+    addApiGatewayExtensions(
+      spec,
+      {
+        lambdaArn:
+          'arn:aws:lambda:{region}:{accountId}:function:users-{operationId}:live',
+        region: 'ap-northeast-1',
+        accountId: '123456789012',
+        timeoutInMillis: 10000,
+        requestValidator: 'none',
+      },
+      sources
+    );
+
+    // Assert
+    expect(listUsers['x-amazon-apigateway-integration']).toMatchObject({
+      uri: 'arn:aws:apigateway:ap-northeast-1:lambda:path/2015-03-31/functions/arn:aws:lambda:ap-northeast-1:123456789012:function:users-listUsers:live/invocations',
+      timeoutInMillis: 10000,
+    });
+    expect(getUser['x-amazon-apigateway-integration'].uri).toContain(
+      'function:users-getUserHandler:live/'
+    );
+    expect(spec['x-amazon-apigateway-request-validator']).toBeUndefined();
+  });
+
+  it('should accept a Lambda ARN function', () => {
+    // Act
+    addApiGatewayExtensions(
+      spec,
+      {
+        lambdaArn: ({ method, path }) =>
+          `arn:aws:lambda:us-east-1:123456789012:function:${method}${path.replace(
+            /[^a-z]/gi,
+            '-'
+          )}`,
+      },
+      sources
+    );
+
+    // Assert
+    expect(deleteUser['x-amazon-apigateway-integration'].uri).toBe(
+      'arn:aws:apigateway:us-east-1:lambda:path/2015-03-31/functions/arn:aws:lambda:us-east-1:123456789012:function:delete-users--userId-/invocations'
+    );
+  });
+
+  it('should reference CloudFormation pseudo parameters in CloudFormation mode', () => {
+    // Act
+    addApiGatewayExtensions(spec, { cloudFormation: true }, sources);
+
+    // Assert
+    expect(listUsers['x-amazon-apigateway-integration'].uri).toEqual({
+      'Fn::Sub':
+        'arn:aws:apigateway:${AWS::Region}:lambda:path/2015-03-31/functions/arn:aws:lambda:${AWS::Region}:${AWS::AccountId}:function:listUsersHandler/invocations',
+    });
+  });
+
+  it('should require the region and account ID outside CloudFormation mode', () => {
+    // Act & Assert
+    expect(() =>
+      addApiGatewayExtensions(spec, { region: 'us-east-1' }, sources)
+    ).toThrow(
+      'API Gateway integration of handler "listUsersHandler" needs apiGateway.accountId; set it, or set apiGateway.cloudFormation to reference the CloudFormation pseudo parameters'
+    );
+  });
+
+  it('should add binary media types and gateway responses', () => {
+    // Act
+    addApiGatewayExtensions(
+      spec,
+      {
+        ...account,
+        binaryMediaTypes: ['image/png', 'application/octet-stream'],
+        gatewayResponses: {
+          UNAUTHORIZED: {
+            statusCode: 401,
+            responseTemplates: {
+              'application/json': '{"message": "Unauthorized"}',
+            },
+          },
+        },
+      },
+      sources
+    );
+
+    // Assert
+    expect(spec['x-amazon-apigateway-binary-media-types']).toEqual([
+      'image/png',
+      'application/octet-stream',
+    ]);
+    expect(spec['x-amazon-apigateway-gateway-responses']).toEqual({
+      UNAUTHORIZED: {
+        statusCode: 401,
+        responseTemplates: {
+          'application/json': '{"message": "Unauthorized"}',
+        },
+      },
+    });
+  });
+
+  it('should answer CORS preflight requests with mock integrations', () => {
+    // Act
+    addApiGatewayExtensions(
+      spec,
+      {
+        ...account,
+        cors: { allowOrigin: 'https://app.example.com', maxAge: 600 },
+      },
+      sources
+    );
+
+    // Assert
+    const preflight = spec.paths['/users/{userId}'].options!;
+    expect(preflight.security).toEqual([]);
+    expect(preflight.parameters).toEqual([
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string', format: 'uuid' },
+      },
+    ]);
+    expect(preflight['x-amazon-apigateway-integration']).toEqual({
+      type: 'mock',
+      requestTemplates: { 'application/json': '{"statusCode": 200}' },
+      passthroughBehavior: 'when_no_match',
+      responses: {
+        default: {
+          statusCode: '200',
+          responseParameters: {
+            'method.response.header.Access-Control-Allow-Origin':
+              "'https://app.example.com'",
+            'method.response.header.Access-Control-Allow-Methods':
+              "'GET,DELETE,OPTIONS'",
+            'method.response.header.Access-Control-Allow-Headers': `'${DEFAULT_CORS_HEADERS.join(
+              ','
+            )}'`,
+            'method.response.header.Access-Control-Max-Age': "'600'",
+          },
+        },
+      },
+    });
+    expect(Object.keys((preflight.responses['200'] as any).headers)).toEqual([
+      'Access-Control-Allow-Origin',
+      'Access-Control-Allow-Methods',
+      'Access-Control-Allow-Headers',
+      'Access-Control-Max-Age',
+    ]);
+    expect(spec['x-amazon-apigateway-gateway-responses']).toEqual({
+      DEFAULT_4XX: {
+        responseParameters: {
+          'gatewayresponse.header.Access-Control-Allow-Origin':
+            "'https://app.example.com'",
+        },
+      },
+      DEFAULT_5XX: {
+        responseParameters: {
+          'gatewayresponse.header.Access-Control-Allow-Origin':
+            "'https://app.example.com'",
+        },
+      },
+    });
+    expect(validateOpenApiSpec(spec).isValid).toBe(true);
+  });
+
+  it('should keep declared OPTIONS operations', () => {
+    // Arrange
+    const options: OperationObject = {
+      responses: { '204': { description: 'Allowed methods' } },
+    };
+    spec.paths['/users'].options = options;
+    sources.set(options, { functionName: 'optionsHandler' });
+
+    // Act
+    addApiGatewayExtensions(spec, { ...account, cors: true }, sources);
+
+    // Assert
+    expect(spec.paths['/users'].options).toBe(options);
+    expect(options['x-amazon-apigateway-integration'].type).toBe('aws_proxy');
+  });
+});
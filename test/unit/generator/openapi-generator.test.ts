@@ -0,0 +1,1173 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import {
+  ApiBody,
+  ApiCookie,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiProperty,
+  ApiPublic,
+  ApiQuery,
+  ApiResponse,
+  ApiRoute,
+  ApiSecurity,
+  ApiTag,
+} from '../../../src/decorators';
+import { GeneratorConfig } from '../../../src/types/config';
+
+describe('OpenApiGenerator', () => {
+  const config: GeneratorConfig = {
+    inputPaths: ['./test'],
+    info: {
+      title: 'Test API',
+      version: '1.0.0',
+    },
+  };
+
+  describe('Configuration Validation', () => {
+    it('should fail fast on an invalid configuration', () => {
+      // Arrange
+      function listUsersHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+
+      // Act & Assert
+      expect(() =>
+        generateOpenApiSpec(
+          {
+            ...config,
+            info: { title: 'Test API', version: '' },
+            servers: [{ url: 'api.example.com' }],
+          },
+          [listUsersHandler]
+        )
+      ).toThrow(
+        [
+          'Invalid configuration:',
+          '  - info.version is required [info-version]',
+          '  - Invalid server URL "api.example.com"; use an absolute http(s) URL or a path starting with / [server-url]',
+        ].join('\n')
+      );
+    });
+
+    it('should not require input paths when handlers are given', () => {
+      // Arrange
+      function listUsersHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+      ApiRoute({ method: 'get', path: '/users' })(listUsersHandler);
+
+      // Act
+      const spec = generateOpenApiSpec({ ...config, inputPaths: [] }, [
+        listUsersHandler,
+      ]);
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual(['/users']);
+      expect(() => generateOpenApiSpec({ ...config, inputPaths: [] })).toThrow(
+        'inputPaths must contain at least one file, directory or glob [input-paths]'
+      );
+    });
+  });
+
+  describe('Document Validation', () => {
+    const validating: GeneratorConfig = {
+      ...config,
+      options: { validateSchema: true },
+    };
+
+    it('should return a valid document', () => {
+      // Arrange
+      function getOrderHandler() {}
+      ApiOperation({ summary: 'Get order', operationId: 'getOrder' })(
+        getOrderHandler
+      );
+      ApiResponse({ status: 200, description: 'Order' })(getOrderHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(validating, [getOrderHandler]);
+
+      // Assert
+      expect(spec.paths['/get-order'].get?.operationId).toBe('getOrder');
+    });
+
+    it('should reject an invalid document with the responsible handlers', () => {
+      // Arrange
+      function listOrdersHandler() {}
+      ApiOperation({ summary: 'List orders', operationId: 'orders' })(
+        listOrdersHandler
+      );
+      ApiResponse({ status: 700, description: 'Unknown' })(listOrdersHandler);
+      function createOrderHandler() {}
+      ApiOperation({ summary: 'Create order', operationId: 'orders' })(
+        createOrderHandler
+      );
+
+      // Act & Assert
+      expect(() =>
+        generateOpenApiSpec(validating, [listOrdersHandler, createOrderHandler])
+      ).toThrow(
+        [
+          'Invalid OpenAPI document:',
+          '  - /paths/~1list-orders/get/operationId: operationId "orders" is used by 2 operations (@ApiOperation on handler "listOrdersHandler") [operation-id]',
+          '  - /paths/~1create-order/post/operationId: operationId "orders" is used by 2 operations (@ApiOperation on handler "createOrderHandler") [operation-id]',
+          '  - /paths/~1list-orders/get/responses/700: Invalid response code "700"; use 100-599, 1XX-5XX or default (@ApiResponse on handler "listOrdersHandler") [response-code]',
+        ].join('\n')
+      );
+    });
+
+    it('should skip validation unless validateSchema is set', () => {
+      // Arrange
+      function listItemsHandler() {}
+      ApiOperation({ summary: 'List items' })(listItemsHandler);
+      ApiResponse({ status: 700, description: 'Unknown' })(listItemsHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { validateSchema: false } },
+        [listItemsHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/list-items'].get?.responses['700']).toBeDefined();
+    });
+  });
+
+  describe('Ordering and Operation IDs', () => {
+    it('should sort paths and operations when configured', () => {
+      // Arrange
+      function createUserHandler() {}
+      ApiOperation({ summary: 'Create user' })(createUserHandler);
+      ApiRoute({ method: 'post', path: '/users' })(createUserHandler);
+      function listUsersHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+      ApiRoute({ method: 'get', path: '/users' })(listUsersHandler);
+      function listAccountsHandler() {}
+      ApiOperation({ summary: 'List accounts' })(listAccountsHandler);
+      ApiRoute({ method: 'get', path: '/accounts' })(listAccountsHandler);
+      const handlers = [
+        createUserHandler,
+        listUsersHandler,
+        listAccountsHandler,
+      ];
+
+      // Act
+      const unsorted = generateOpenApiSpec(config, handlers);
+      const sorted = generateOpenApiSpec(
+        { ...config, options: { sortPaths: true, sortOperations: true } },
+        handlers
+      );
+
+      // Assert
+      expect(Object.keys(unsorted.paths)).toEqual(['/users', '/accounts']);
+      expect(Object.keys(unsorted.paths['/users'])).toEqual(['post', 'get']);
+      expect(Object.keys(sorted.paths)).toEqual(['/accounts', '/users']);
+      expect(Object.keys(sorted.paths['/users'])).toEqual(['get', 'post']);
+    });
+
+    it('should derive operation IDs from function names when configured', () => {
+      // Arrange
+      function getInvoiceHandler() {}
+      ApiOperation({ summary: 'Get invoice' })(getInvoiceHandler);
+      function listInvoicesHandler() {}
+      ApiOperation({ summary: 'List invoices', operationId: 'invoices' })(
+        listInvoicesHandler
+      );
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { includeOperationIds: true } },
+        [getInvoiceHandler, listInvoicesHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/get-invoice'].get?.operationId).toBe('getInvoice');
+      expect(spec.paths['/list-invoices'].get?.operationId).toBe('invoices');
+    });
+
+    it('should suffix derived operation IDs that are already taken', () => {
+      // Arrange
+      const v1 = { getUserHandler() {} }.getUserHandler;
+      ApiOperation({ summary: 'Get user (v1)' })(v1);
+      ApiRoute({ method: 'get', path: '/v1/user' })(v1);
+      const v2 = { getUserHandler() {} }.getUserHandler;
+      ApiOperation({ summary: 'Get user (v2)' })(v2);
+      ApiRoute({ method: 'get', path: '/v2/user' })(v2);
+      function fetchUserHandler() {}
+      ApiOperation({ summary: 'Fetch user', operationId: 'getUser' })(
+        fetchUserHandler
+      );
+      ApiRoute({ method: 'get', path: '/user' })(fetchUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { includeOperationIds: true } },
+        [v1, v2, fetchUserHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/user'].get?.operationId).toBe('getUser');
+      expect(spec.paths['/v1/user'].get?.operationId).toBe('getUser2');
+      expect(spec.paths['/v2/user'].get?.operationId).toBe('getUser3');
+    });
+
+    it('should leave operation IDs unset unless configured', () => {
+      // Arrange
+      function getReceiptHandler() {}
+      ApiOperation({ summary: 'Get receipt' })(getReceiptHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getReceiptHandler]);
+
+      // Assert
+      expect(spec.paths['/get-receipt'].get?.operationId).toBeUndefined();
+    });
+  });
+
+  describe('Base Path and Servers', () => {
+    const stageServer = {
+      url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}/',
+      variables: {
+        apiId: { default: 'a1b2c3d4e5' },
+        region: { default: 'us-east-1' },
+        stage: { default: 'dev', enum: ['dev', 'stg', 'prod'] },
+      },
+    };
+
+    function createHandlers() {
+      function listUsersHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+      ApiRoute({ method: 'get', path: '/users' })(listUsersHandler);
+      function rootHandler() {}
+      ApiOperation({ summary: 'Root' })(rootHandler);
+      ApiRoute({ method: 'get', path: '/' })(rootHandler);
+      return [listUsersHandler, rootHandler];
+    }
+
+    it('should prefix paths with the base path', () => {
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, basePath: '/v1/', servers: [stageServer] },
+        createHandlers()
+      );
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual(['/v1/users', '/v1']);
+      expect(spec.servers).toEqual([stageServer]);
+    });
+
+    it('should append the base path to server URLs when configured', () => {
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          basePath: '/v1',
+          basePathMode: 'servers',
+          servers: [stageServer, { url: 'https://api.example.com' }],
+        },
+        createHandlers()
+      );
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual(['/users', '/']);
+      expect(spec.servers).toEqual([
+        {
+          url: 'https://{apiId}.execute-api.{region}.amazonaws.com/{stage}/v1',
+          variables: stageServer.variables,
+        },
+        { url: 'https://api.example.com/v1' },
+      ]);
+    });
+
+    it('should use the base path as a relative server without servers', () => {
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, basePath: '/v1', basePathMode: 'servers' },
+        createHandlers()
+      );
+
+      // Assert
+      expect(spec.servers).toEqual([{ url: '/v1' }]);
+    });
+  });
+
+  describe('API Gateway Extensions', () => {
+    it('should emit extensions only with includeLambdaExtensions', () => {
+      // Arrange
+      function listPetsHandler() {}
+      ApiOperation({ summary: 'List pets' })(listPetsHandler);
+      ApiRoute({ method: 'get', path: '/pets' })(listPetsHandler);
+
+      // Act
+      const plain = generateOpenApiSpec(config, [listPetsHandler]);
+      const extended = generateOpenApiSpec(
+        {
+          ...config,
+          apiGateway: {
+            region: 'us-east-1',
+            accountId: '123456789012',
+            cors: true,
+          },
+          options: {
+            includeLambdaExtensions: true,
+            sortOperations: true,
+            validateSchema: true,
+          },
+        },
+        [listPetsHandler]
+      );
+
+      // Assert
+      expect(plain.paths['/pets'].get).not.toHaveProperty(
+        'x-amazon-apigateway-integration'
+      );
+      expect(plain).not.toHaveProperty('x-amazon-apigateway-request-validator');
+      expect(
+        extended.paths['/pets'].get?.['x-amazon-apigateway-integration'].uri
+      ).toBe(
+        'arn:aws:apigateway:us-east-1:lambda:path/2015-03-31/functions/arn:aws:lambda:us-east-1:123456789012:function:listPetsHandler/invocations'
+      );
+      expect(Object.keys(extended.paths['/pets'])).toEqual(['get', 'options']);
+    });
+  });
+
+  describe('Response Headers', () => {
+    it('should render inline and referenced response headers', () => {
+      // Arrange
+      function createPetHandler() {}
+      ApiOperation({ summary: 'Create pet' })(createPetHandler);
+      ApiRoute({ method: 'post', path: '/pets' })(createPetHandler);
+      ApiResponse({
+        status: 201,
+        description: 'Created',
+        headers: {
+          Location: {
+            description: 'URL of the created pet',
+            required: true,
+            example: '/pets/1',
+          },
+          'X-Request-Count': { type: Number, deprecated: true },
+          'X-RateLimit-Limit': 'RateLimitLimit',
+        },
+      })(createPetHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          headers: {
+            RateLimitLimit: {
+              description: 'Requests allowed per minute',
+              type: Number,
+            },
+          },
+          options: { validateSchema: true },
+        },
+        [createPetHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/pets'].post?.responses['201']).toEqual({
+        description: 'Created',
+        headers: {
+          Location: {
+            description: 'URL of the created pet',
+            required: true,
+            example: '/pets/1',
+            schema: { type: 'string' },
+          },
+          'X-Request-Count': {
+            deprecated: true,
+            schema: { type: 'number' },
+          },
+          'X-RateLimit-Limit': { $ref: '#/components/headers/RateLimitLimit' },
+        },
+      });
+      expect(spec.components?.headers).toEqual({
+        RateLimitLimit: {
+          description: 'Requests allowed per minute',
+          schema: { type: 'number' },
+        },
+      });
+    });
+
+    it('should keep the enum values of response headers', () => {
+      // Arrange
+      function getReportHandler() {}
+      ApiOperation({ summary: 'Get report' })(getReportHandler);
+      ApiRoute({ method: 'get', path: '/reports' })(getReportHandler);
+      ApiResponse({
+        status: 200,
+        description: 'Report',
+        headers: {
+          'X-Cache': { type: 'string', enum: ['HIT', 'MISS'] },
+        },
+      })(getReportHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          headers: { Format: { enum: ['csv', 'json'] } },
+          options: { validateSchema: true },
+        },
+        [getReportHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/reports'].get?.responses['200']).toEqual({
+        description: 'Report',
+        headers: {
+          'X-Cache': { schema: { type: 'string', enum: ['HIT', 'MISS'] } },
+        },
+      });
+      expect(spec.components?.headers).toEqual({
+        Format: { schema: { type: 'string', enum: ['csv', 'json'] } },
+      });
+    });
+
+    it('should reject references to undeclared headers', () => {
+      // Arrange
+      function createPetHandler() {}
+      ApiOperation({ summary: 'Create pet' })(createPetHandler);
+      ApiResponse({ status: 201, headers: { Location: 'Location' } })(
+        createPetHandler
+      );
+
+      // Act & Assert
+      expect(() => generateOpenApiSpec(config, [createPetHandler])).toThrow(
+        'Response 201 of handler "createPetHandler" references undeclared header "Location"'
+      );
+    });
+  });
+
+  describe('Routing', () => {
+    it('should use the declared route for the path and method', () => {
+      // Arrange
+      function fetchUserHandler() {}
+      ApiOperation({ summary: 'Fetch user' })(fetchUserHandler);
+      ApiRoute({ method: 'post', path: '/users/{userId}' })(fetchUserHandler);
+      ApiParam({ name: 'userId', type: 'string' })(fetchUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [fetchUserHandler]);
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual(['/users/{userId}']);
+      expect(spec.paths['/users/{userId}'].post).toBeDefined();
+      expect(spec.paths['/users/{userId}'].get).toBeUndefined();
+    });
+
+    it('should group operations declared on the same path', () => {
+      // Arrange
+      function listUsersHandler() {}
+      function addUserHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+      ApiRoute({ method: 'get', path: '/users' })(listUsersHandler);
+      ApiOperation({ summary: 'Add user' })(addUserHandler);
+      ApiRoute({ method: 'post', path: '/users' })(addUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [
+        listUsersHandler,
+        addUserHandler,
+      ]);
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual(['/users']);
+      expect(spec.paths['/users'].get!.summary).toBe('List users');
+      expect(spec.paths['/users'].post!.summary).toBe('Add user');
+    });
+
+    it('should reject handlers declaring the same route', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiRoute({ method: 'get', path: '/users/{id}' })(getUserHandler);
+      ApiParam({ name: 'id' })(getUserHandler);
+      function fetchUserHandler() {}
+      ApiOperation({ summary: 'Fetch user' })(fetchUserHandler);
+      ApiRoute({ method: 'GET', path: 'users/{id}/' })(fetchUserHandler);
+      ApiParam({ name: 'id' })(fetchUserHandler);
+
+      // Act & Assert
+      expect(() =>
+        generateOpenApiSpec(config, [getUserHandler, fetchUserHandler])
+      ).toThrow(
+        'Route GET /users/{id} is declared by both handlers "getUserHandler" and "fetchUserHandler"'
+      );
+    });
+
+    it('should fall back to the naming heuristic without a route', () => {
+      // Arrange
+      function createOrderHandler() {}
+      ApiOperation({ summary: 'Create order' })(createOrderHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [createOrderHandler]);
+
+      // Assert
+      expect(spec.paths['/create-order'].post).toBeDefined();
+    });
+
+    it('should accept greedy proxy placeholders', () => {
+      // Arrange
+      function proxyHandler() {}
+      ApiOperation({ summary: 'Proxy' })(proxyHandler);
+      ApiRoute({ method: 'get', path: '/files/{proxy+}' })(proxyHandler);
+      ApiParam({ name: 'proxy', type: 'string' })(proxyHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [proxyHandler]);
+
+      // Assert
+      expect(spec.paths['/files/{proxy+}'].get).toBeDefined();
+    });
+
+    it('should reject placeholders without a matching @ApiParam', () => {
+      // Arrange
+      function getOrderHandler() {}
+      ApiOperation({ summary: 'Get order' })(getOrderHandler);
+      ApiRoute({ method: 'get', path: '/orders/{orderId}' })(getOrderHandler);
+
+      // Act & Assert
+      expect(() => generateOpenApiSpec(config, [getOrderHandler])).toThrow(
+        /missing @ApiParam for orderId/
+      );
+    });
+
+    it('should reject @ApiParam entries missing from the path', () => {
+      // Arrange
+      function getOrderHandler() {}
+      ApiOperation({ summary: 'Get order' })(getOrderHandler);
+      ApiRoute({ method: 'get', path: '/orders' })(getOrderHandler);
+      ApiParam({ name: 'orderId', type: 'string' })(getOrderHandler);
+
+      // Act & Assert
+      expect(() => generateOpenApiSpec(config, [getOrderHandler])).toThrow(
+        /@ApiParam not present in path: orderId/
+      );
+    });
+  });
+
+  describe('Query Parameters', () => {
+    it('should emit query parameters after path parameters', () => {
+      // Arrange
+      function listOrdersHandler() {}
+      ApiOperation({ summary: 'List orders' })(listOrdersHandler);
+      ApiRoute({ method: 'get', path: '/users/{userId}/orders' })(
+        listOrdersHandler
+      );
+      ApiParam({ name: 'userId', type: 'string' })(listOrdersHandler);
+      ApiQuery({
+        name: 'status',
+        description: 'Filter by status',
+        type: 'string',
+        enum: ['open', 'closed'],
+        example: 'open',
+        deprecated: true,
+        allowEmptyValue: true,
+      })(listOrdersHandler);
+      ApiQuery({ name: 'limit', type: 'integer' })(listOrdersHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [listOrdersHandler]);
+      const parameters = spec.paths['/users/{userId}/orders'].get!.parameters;
+
+      // Assert
+      expect(parameters).toEqual([
+        {
+          name: 'userId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'status',
+          in: 'query',
+          required: false,
+          description: 'Filter by status',
+          deprecated: true,
+          example: 'open',
+          schema: { type: 'string', enum: ['open', 'closed'] },
+          allowEmptyValue: true,
+        },
+        {
+          name: 'limit',
+          in: 'query',
+          required: false,
+          schema: { type: 'integer' },
+        },
+      ]);
+    });
+
+    it('should default query parameters without a type to strings', () => {
+      // Arrange
+      function searchOrdersHandler() {}
+      ApiOperation({ summary: 'Search orders' })(searchOrdersHandler);
+      ApiRoute({ method: 'get', path: '/orders/search' })(searchOrdersHandler);
+      ApiQuery({ name: 'q' })(searchOrdersHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { validateSchema: true } },
+        [searchOrdersHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/orders/search'].get!.parameters).toEqual([
+        {
+          name: 'q',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+        },
+      ]);
+    });
+  });
+
+  describe('Header and Cookie Parameters', () => {
+    it('should emit header and cookie parameters after query parameters', () => {
+      // Arrange
+      function createOrderHandler() {}
+      ApiOperation({ summary: 'Create order' })(createOrderHandler);
+      ApiRoute({ method: 'post', path: '/orders' })(createOrderHandler);
+      ApiCookie({ name: 'session', type: 'string', required: true })(
+        createOrderHandler
+      );
+      ApiHeader({
+        name: 'Idempotency-Key',
+        description: 'Key making retried requests safe',
+        type: 'string',
+        required: true,
+      })(createOrderHandler);
+      ApiQuery({ name: 'dryRun', type: 'boolean' })(createOrderHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { validateSchema: true } },
+        [createOrderHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/orders'].post!.parameters).toEqual([
+        {
+          name: 'dryRun',
+          in: 'query',
+          required: false,
+          schema: { type: 'boolean' },
+        },
+        {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: true,
+          description: 'Key making retried requests safe',
+          schema: { type: 'string' },
+        },
+        {
+          name: 'session',
+          in: 'cookie',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ]);
+    });
+
+    it('should default header and cookie parameters without a type to strings', () => {
+      // Arrange
+      function deleteOrderHandler() {}
+      ApiOperation({ summary: 'Delete order' })(deleteOrderHandler);
+      ApiRoute({ method: 'delete', path: '/orders' })(deleteOrderHandler);
+      ApiCookie({ name: 'session' })(deleteOrderHandler);
+      ApiHeader({ name: 'Idempotency-Key', required: true })(
+        deleteOrderHandler
+      );
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { validateSchema: true } },
+        [deleteOrderHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/orders'].delete!.parameters).toEqual([
+        {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'session',
+          in: 'cookie',
+          required: false,
+          schema: { type: 'string' },
+        },
+      ]);
+    });
+  });
+
+  describe('Request Body', () => {
+    it('should emit a JSON request body from the body type', () => {
+      // Arrange
+      function createUserHandler() {}
+      ApiOperation({ summary: 'Create user' })(createUserHandler);
+      ApiBody({
+        description: 'User to create',
+        type: 'object',
+        example: { name: 'John' },
+      })(createUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [createUserHandler]);
+
+      // Assert
+      expect(spec.paths['/create-user'].post!.requestBody).toEqual({
+        description: 'User to create',
+        required: true,
+        content: {
+          'application/json': {
+            schema: { type: 'object' },
+            example: { name: 'John' },
+          },
+        },
+      });
+    });
+
+    it('should merge per-media-type content overrides', () => {
+      // Arrange
+      function createUserHandler() {}
+      ApiOperation({ summary: 'Create user' })(createUserHandler);
+      ApiBody({
+        type: 'object',
+        required: false,
+        content: {
+          'application/json': {
+            examples: { minimal: { value: { name: 'John' } } },
+          },
+          'application/x-www-form-urlencoded': {
+            schema: { type: 'object' },
+          },
+        },
+        example: { name: 'Jane' },
+      })(createUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [createUserHandler]);
+      const requestBody = spec.paths['/create-user'].post!.requestBody as any;
+
+      // Assert
+      expect(requestBody.required).toBe(false);
+      expect(requestBody.content['application/json']).toEqual({
+        schema: { type: 'object' },
+        examples: { minimal: { value: { name: 'John' } } },
+      });
+      expect(requestBody.content['application/x-www-form-urlencoded']).toEqual({
+        schema: { type: 'object' },
+      });
+    });
+
+    it('should attach the example to the first media type without JSON', () => {
+      // Arrange
+      function uploadHandler() {}
+      ApiOperation({ summary: 'Upload' })(uploadHandler);
+      ApiBody({
+        content: { 'text/csv': { schema: { type: 'string' } } },
+        example: 'id,name',
+      })(uploadHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [uploadHandler]);
+      const requestBody = spec.paths['/upload'].get!.requestBody as any;
+
+      // Assert
+      expect(requestBody.content).toEqual({
+        'text/csv': { schema: { type: 'string' }, example: 'id,name' },
+      });
+    });
+
+    it('should omit requestBody when no body is declared', () => {
+      // Arrange
+      function listUsersHandler() {}
+      ApiOperation({ summary: 'List users' })(listUsersHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [listUsersHandler]);
+
+      // Assert
+      expect(spec.paths['/list-users'].get!.requestBody).toBeUndefined();
+    });
+  });
+
+  describe('Security', () => {
+    it('should register schemes and emit operation requirements', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiSecurity({ type: 'apiKey', name: 'x-api-key', in: 'header' })(
+        getUserHandler
+      );
+      ApiSecurity({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' })(
+        getUserHandler
+      );
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+
+      // Assert
+      expect(spec.paths['/get-user'].get!.security).toEqual([
+        { apiKeyXApiKey: [] },
+        { bearerAuth: [] },
+      ]);
+      expect(spec.components!.securitySchemes).toEqual({
+        apiKeyXApiKey: { type: 'apiKey', name: 'x-api-key', in: 'header' },
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      });
+    });
+
+    it('should deduplicate identical schemes across handlers', () => {
+      // Arrange
+      function getUserHandler() {}
+      function deleteUserHandler() {}
+      [getUserHandler, deleteUserHandler].forEach(handler => {
+        ApiOperation({ summary: handler.name })(handler);
+        ApiSecurity({ type: 'http', scheme: 'bearer' })(handler);
+      });
+
+      // Act
+      const spec = generateOpenApiSpec(config, [
+        getUserHandler,
+        deleteUserHandler,
+      ]);
+
+      // Assert
+      expect(Object.keys(spec.components!.securitySchemes!)).toEqual([
+        'bearerAuth',
+      ]);
+      expect(spec.paths['/delete-user'].delete!.security).toEqual([
+        { bearerAuth: [] },
+      ]);
+    });
+
+    it('should suffix different schemes that derive the same name', () => {
+      // Arrange
+      function getUserHandler() {}
+      function deleteUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiSecurity({ type: 'http', scheme: 'bearer' })(getUserHandler);
+      ApiOperation({ summary: 'Delete user' })(deleteUserHandler);
+      ApiSecurity({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' })(
+        deleteUserHandler
+      );
+
+      // Act
+      const spec = generateOpenApiSpec(config, [
+        getUserHandler,
+        deleteUserHandler,
+      ]);
+
+      // Assert
+      expect(Object.keys(spec.components!.securitySchemes!)).toEqual([
+        'bearerAuth',
+        'bearerAuth2',
+      ]);
+      expect(spec.paths['/delete-user'].delete!.security).toEqual([
+        { bearerAuth2: [] },
+      ]);
+    });
+
+    it('should emit OAuth2 scopes under an explicit scheme name', () => {
+      // Arrange
+      const flows = {
+        clientCredentials: {
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { 'users/read': 'Read users' },
+        },
+      };
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiSecurity({
+        type: 'oauth2',
+        schemeName: 'cognito',
+        scopes: ['users/read'],
+        flows,
+      })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+
+      // Assert
+      expect(spec.paths['/get-user'].get!.security).toEqual([
+        { cognito: ['users/read'] },
+      ]);
+      expect(spec.components!.securitySchemes).toEqual({
+        cognito: { type: 'oauth2', flows },
+      });
+    });
+
+    it('should reuse schemes declared in the configuration', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiSecurity({ type: 'http', scheme: 'bearer' })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          securitySchemes: { jwt: { type: 'http', scheme: 'bearer' } },
+        },
+        [getUserHandler]
+      );
+
+      // Assert
+      expect(spec.paths['/get-user'].get!.security).toEqual([{ jwt: [] }]);
+      expect(Object.keys(spec.components!.securitySchemes!)).toEqual(['jwt']);
+    });
+
+    it('should reject conflicting definitions for the same scheme name', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiSecurity({ type: 'http', scheme: 'basic', schemeName: 'auth' })(
+        getUserHandler
+      );
+      ApiSecurity({ type: 'http', scheme: 'bearer', schemeName: 'auth' })(
+        getUserHandler
+      );
+
+      // Act & Assert
+      expect(() => generateOpenApiSpec(config, [getUserHandler])).toThrow(
+        /conflicting definitions/
+      );
+    });
+
+    it('should emit an empty requirement list for public operations', () => {
+      // Arrange
+      function healthCheckHandler() {}
+      ApiOperation({ summary: 'Health check' })(healthCheckHandler);
+      ApiPublic()(healthCheckHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, security: [{ bearerAuth: [] }] },
+        [healthCheckHandler]
+      );
+
+      // Assert
+      expect(spec.security).toEqual([{ bearerAuth: [] }]);
+      expect(spec.paths['/health-check'].get!.security).toEqual([]);
+    });
+
+    it('should inherit global security when nothing is declared', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+
+      // Assert
+      expect(spec.paths['/get-user'].get!.security).toBeUndefined();
+      expect(spec.components).toEqual({});
+    });
+  });
+
+  describe('Tags', () => {
+    it('should add @ApiTag names to the operation tags', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user', tags: ['users'] })(getUserHandler);
+      ApiTag({ name: 'users' })(getUserHandler);
+      ApiTag({ name: 'admin' })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+
+      // Assert
+      expect(spec.paths['/get-user'].get!.tags).toEqual(['users', 'admin']);
+    });
+
+    it('should merge decorator tags with configured tags', () => {
+      // Arrange
+      function getUserHandler() {}
+      function getOrderHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiTag({
+        name: 'users',
+        externalDocs: { url: 'https://docs.example.com/users' },
+      })(getUserHandler);
+      ApiOperation({ summary: 'Get order' })(getOrderHandler);
+      ApiTag({ name: 'orders', description: 'Order operations' })(
+        getOrderHandler
+      );
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          tags: [{ name: 'users', description: 'User operations' }],
+        },
+        [getUserHandler, getOrderHandler]
+      );
+
+      // Assert
+      expect(spec.tags).toEqual([
+        {
+          name: 'users',
+          description: 'User operations',
+          externalDocs: { url: 'https://docs.example.com/users' },
+        },
+        { name: 'orders', description: 'Order operations' },
+      ]);
+    });
+
+    it('should sort top-level tags when sortTags is enabled', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiTag({ name: 'users' })(getUserHandler);
+      ApiTag({ name: 'admin' })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        { ...config, options: { sortTags: true } },
+        [getUserHandler]
+      );
+
+      // Assert
+      expect(spec.tags!.map(tag => tag.name)).toEqual(['admin', 'users']);
+    });
+
+    it('should reject conflicting tag descriptions', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiTag({ name: 'users', description: 'Users' })(getUserHandler);
+
+      // Act & Assert
+      expect(() =>
+        generateOpenApiSpec(
+          { ...config, tags: [{ name: 'users', description: 'People' }] },
+          [getUserHandler]
+        )
+      ).toThrow(/Tag "users" has conflicting descriptions/);
+    });
+
+    it('should omit top-level tags when none are declared', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user', tags: ['users'] })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+
+      // Assert
+      expect(spec.tags).toBeUndefined();
+    });
+  });
+
+  describe('Schemas', () => {
+    it('should introspect schema classes passed as response types', () => {
+      // Arrange
+      class UserDto {
+        @ApiProperty({ format: 'email' })
+        email!: string;
+      }
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiResponse({ status: 200, type: UserDto })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [getUserHandler]);
+      const response = spec.paths['/get-user'].get!.responses['200'] as any;
+
+      // Assert
+      expect(response.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/UserDto',
+      });
+      expect(spec.components!.schemas).toEqual({
+        UserDto: {
+          type: 'object',
+          properties: { email: { type: 'string', format: 'email' } },
+          required: ['email'],
+        },
+      });
+    });
+
+    it('should share one schema between bodies and responses', () => {
+      // Arrange
+      class OrderDto {
+        @ApiProperty()
+        id!: string;
+      }
+      function createOrderHandler() {}
+      ApiOperation({ summary: 'Create order' })(createOrderHandler);
+      ApiBody({ type: OrderDto })(createOrderHandler);
+      ApiResponse({ status: 201, type: OrderDto })(createOrderHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(config, [createOrderHandler]);
+      const operation = spec.paths['/create-order'].post!;
+
+      // Assert
+      expect((operation.requestBody as any).content).toEqual({
+        'application/json': {
+          schema: { $ref: '#/components/schemas/OrderDto' },
+        },
+      });
+      expect((operation.responses['201'] as any).content).toEqual({
+        'application/json': {
+          schema: { $ref: '#/components/schemas/OrderDto' },
+        },
+      });
+      expect(Object.keys(spec.components!.schemas!)).toEqual(['OrderDto']);
+    });
+
+    it('should resolve interface names from the input paths', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiResponse({ status: 200, type: 'User' })(getUserHandler);
+      ApiResponse({ status: 206, type: 'Address[]' })(getUserHandler);
+
+      // Act
+      const spec = generateOpenApiSpec(
+        {
+          ...config,
+          inputPaths: [path.join(__dirname, '../../fixtures/types')],
+        },
+        [getUserHandler]
+      );
+      const responses = spec.paths['/get-user'].get!.responses as any;
+
+      // Assert
+      expect(responses['200'].content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/User',
+      });
+      expect(responses['206'].content['application/json'].schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Address' },
+      });
+      expect(Object.keys(spec.components!.schemas!)).toEqual([
+        'Address',
+        'User',
+      ]);
+      expect((spec.components!.schemas!.User as any).required).toContain(
+        'address'
+      );
+    });
+
+    it('should reject type names that cannot be resolved', () => {
+      // Arrange
+      function getUserHandler() {}
+      ApiOperation({ summary: 'Get user' })(getUserHandler);
+      ApiResponse({ status: 200, type: 'Unknown[]' })(getUserHandler);
+
+      // Act & Assert
+      expect(() => generateOpenApiSpec(config, [getUserHandler])).toThrow(
+        'Cannot resolve type "Unknown" of handler "getUserHandler"'
+      );
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import { SchemaGenerator } from '../../../src/generator/schema-generator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+} from '../../../src/decorators/api-property';
+import { ApiSchema } from '../../../src/decorators/api-schema';
+import { TypeAnalyzer } from '../../../src/analyzer/type-analyzer';
+
+enum Role {
+  Admin = 'admin',
+  Member = 'member',
+}
+
+enum Priority {
+  Low,
+  High,
+}
+
+class Address {
+  @ApiProperty()
+  city!: string;
+
+  @ApiPropertyOptional({ pattern: '^[0-9]{3}-[0-9]{4}$' })
+  postalCode?: string;
+}
+
+class User {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ minLength: 1, maxLength: 100, example: 'John' })
+  name!: string;
+
+  @ApiPropertyOptional({ minimum: 0, nullable: true })
+  age?: number;
+
+  @ApiProperty()
+  active!: boolean;
+
+  @ApiProperty()
+  createdAt!: Date;
+
+  @ApiProperty({ enum: Role })
+  role!: Role;
+
+  @ApiProperty({ enum: Priority })
+  priority!: Priority;
+
+  @ApiProperty({ items: 'string', minItems: 1 })
+  tags!: string[];
+
+  @ApiProperty()
+  address!: Address;
+
+  @ApiPropertyOptional({ items: Address })
+  previousAddresses?: Address[];
+}
+
+class TreeNode {
+  @ApiProperty()
+  value!: string;
+
+  @ApiPropertyOptional({ items: TreeNode })
+  children?: TreeNode[];
+}
+
+describe('SchemaGenerator', () => {
+  let generator: SchemaGenerator;
+
+  beforeEach(() => {
+    generator = new SchemaGenerator();
+  });
+
+  describe('Type References', () => {
+    it('should map string types', () => {
+      // Assert
+      expect(generator.generate('integer')).toEqual({ type: 'integer' });
+      expect(generator.generate('array')).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+      });
+    });
+
+    it('should reject type names that cannot be resolved', () => {
+      // Arrange
+      class Order {
+        @ApiProperty({ type: 'Customer' })
+        customer!: unknown;
+      }
+
+      // Act & Assert
+      expect(() => generator.generate(Order)).toThrow(
+        'Cannot resolve type "Customer" of property "customer" of schema "Order"'
+      );
+    });
+
+    it('should map built-in constructors', () => {
+      // Assert
+      expect(generator.generate(String)).toEqual({ type: 'string' });
+      expect(generator.generate(Number)).toEqual({ type: 'number' });
+      expect(generator.generate(Boolean)).toEqual({ type: 'boolean' });
+      expect(generator.generate(Date)).toEqual({
+        type: 'string',
+        format: 'date-time',
+      });
+    });
+
+    it('should register undecorated classes as empty objects', () => {
+      // Arrange
+      class Plain {}
+
+      // Act
+      const schema = generator.generate(Plain);
+
+      // Assert
+      expect(schema).toEqual({ $ref: '#/components/schemas/Plain' });
+      expect(generator.getSchemas()).toEqual({ Plain: { type: 'object' } });
+    });
+  });
+
+  describe('Class Introspection', () => {
+    it('should register an object schema from decorated properties', () => {
+      // Act
+      const schema = generator.generate(User);
+      const schemas = generator.getSchemas();
+
+      // Assert
+      expect(schema).toEqual({ $ref: '#/components/schemas/User' });
+      expect(Object.keys(schemas)).toEqual(['Address', 'User']);
+      expect(schemas.User.type).toBe('object');
+      expect(schemas.User.required).toEqual([
+        'id',
+        'name',
+        'active',
+        'createdAt',
+        'role',
+        'priority',
+        'tags',
+        'address',
+      ]);
+      expect(schemas.User.properties).toEqual({
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 100, example: 'John' },
+        age: { type: 'number', minimum: 0, nullable: true },
+        active: { type: 'boolean' },
+        createdAt: { type: 'string', format: 'date-time' },
+        role: { type: 'string', enum: ['admin', 'member'] },
+        priority: { type: 'number', enum: [0, 1] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        address: { $ref: '#/components/schemas/Address' },
+        previousAddresses: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/Address' },
+        },
+      });
+      expect(schemas.Address).toEqual({
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          postalCode: { type: 'string', pattern: '^[0-9]{3}-[0-9]{4}$' },
+        },
+        required: ['city'],
+      });
+    });
+
+    it('should register each class only once', () => {
+      // Act
+      const first = generator.generate(Address);
+      const second = generator.generate(Address);
+
+      // Assert
+      expect(first).toEqual(second);
+      expect(Object.keys(generator.getSchemas())).toEqual(['Address']);
+    });
+
+    it('should reference self-referencing classes', () => {
+      // Act
+      generator.generate(TreeNode);
+
+      // Assert
+      expect(generator.getSchemas().TreeNode.properties!.children).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/TreeNode' },
+      });
+    });
+
+    it('should wrap references that carry property keywords', () => {
+      // Arrange
+      class Order {
+        @ApiPropertyOptional({
+          description: 'Shipping address',
+          nullable: true,
+        })
+        shipping?: Address;
+      }
+
+      // Act
+      generator.generate(Order);
+
+      // Assert
+      expect(generator.getSchemas().Order.properties!.shipping).toEqual({
+        allOf: [{ $ref: '#/components/schemas/Address' }],
+        description: 'Shipping address',
+        nullable: true,
+      });
+    });
+  });
+
+  describe('Naming', () => {
+    it('should use the name and description from @ApiSchema', () => {
+      // Arrange
+      @ApiSchema({ name: 'Customer', description: 'A paying customer' })
+      class CustomerDto {
+        @ApiProperty()
+        id!: string;
+      }
+
+      // Act
+      const schema = generator.generate(CustomerDto);
+
+      // Assert
+      expect(schema).toEqual({ $ref: '#/components/schemas/Customer' });
+      expect(generator.getSchemas().Customer.description).toBe(
+        'A paying customer'
+      );
+    });
+
+    it('should reject two different classes with the same name', () => {
+      // Arrange
+      const createClass = () => {
+        class Duplicate {
+          @ApiProperty()
+          id!: string;
+        }
+        return Duplicate;
+      };
+      generator.generate(createClass());
+
+      // Act & Assert
+      expect(() => generator.generate(createClass())).toThrow(
+        /Schema name "Duplicate" is used by two different classes/
+      );
+    });
+  });
+
+  describe('Resolved TypeScript Types', () => {
+    let analyzer: TypeAnalyzer;
+
+    beforeAll(() => {
+      analyzer = new TypeAnalyzer({
+        files: [path.join(__dirname, '../../fixtures/types')],
+      });
+    });
+
+    beforeEach(() => {
+      generator = new SchemaGenerator(name => analyzer.resolveType(name));
+    });
+
+    it('should convert interfaces to named object schemas', () => {
+      // Act
+      const schema = generator.generate('User');
+      const user = generator.getSchemas().User;
+
+      // Assert
+      expect(schema).toEqual({ $ref: '#/components/schemas/User' });
+      expect(user.required).toEqual([
+        'id',
+        'name',
+        'active',
+        'createdAt',
+        'role',
+        'priority',
+        'tags',
+        'address',
+        'manager',
+        'metadata',
+        'coordinates',
+      ]);
+      expect(user.properties).toEqual({
+        id: { type: 'string', description: 'Unique identifier' },
+        name: { type: 'string' },
+        age: { type: 'number' },
+        active: { type: 'boolean' },
+        createdAt: { type: 'string', format: 'date-time' },
+        role: { type: 'string', enum: ['admin', 'member'] },
+        priority: { type: 'number', enum: [0, 1] },
+        tags: { type: 'array', items: { type: 'string' } },
+        address: { $ref: '#/components/schemas/Address' },
+        manager: {
+          allOf: [{ $ref: '#/components/schemas/User' }],
+          nullable: true,
+        },
+        metadata: {
+          type: 'object',
+          additionalProperties: { type: 'number' },
+        },
+        coordinates: { type: 'array', items: { type: 'number' } },
+      });
+    });
+
+    it('should convert intersections, unions and generics', () => {
+      // Act
+      generator.generate('AuditedUser');
+      generator.generate('SearchResult');
+      generator.generate('UserSearch');
+      const schemas = generator.getSchemas();
+
+      // Assert
+      expect(schemas.AuditedUser).toEqual({
+        allOf: [
+          { $ref: '#/components/schemas/User' },
+          { $ref: '#/components/schemas/Timestamped' },
+        ],
+      });
+      expect(schemas.SearchResult).toEqual({
+        oneOf: [
+          { $ref: '#/components/schemas/User' },
+          { $ref: '#/components/schemas/Address' },
+        ],
+      });
+      expect(schemas.UserSearch.properties!.results).toEqual({
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/User' },
+          },
+          total: { type: 'number' },
+        },
+        required: ['items', 'total'],
+      });
+    });
+
+    it('should register primitive aliases under their name', () => {
+      // Act
+      const schema = generator.generate('UserId');
+
+      // Assert
+      expect(schema).toEqual({ $ref: '#/components/schemas/UserId' });
+      expect(generator.getSchemas().UserId).toEqual({ type: 'string' });
+    });
+
+    it('should support array type names', () => {
+      // Act
+      const schema = generator.generate('Address[]');
+
+      // Assert
+      expect(schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Address' },
+      });
+    });
+
+    it('should reject two different types with the same name', () => {
+      // Arrange
+      const collisions = new TypeAnalyzer({
+        files: [path.join(__dirname, '../../fixtures/collisions')],
+      });
+      generator = new SchemaGenerator(name => collisions.resolveType(name));
+      generator.generate('Invoice');
+
+      // Act & Assert
+      expect(() => generator.generate('Shipment')).toThrow(
+        /Schema name "Contact" is used by two different TypeScript types, declared in .*billing\.ts and .*shipping\.ts/
+      );
+    });
+  });
+});
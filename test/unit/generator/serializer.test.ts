@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  resolveOutputFormat,
+  serializeOpenApiSpec,
+  writeOpenApiSpec,
+} from '../../../src/generator/serializer';
+import { GeneratorConfig } from '../../../src/types/config';
+import { OpenAPISpec } from '../../../src/types/openapi';
+
+describe('Serializer', () => {
+  const userSchema = { type: 'object' as const };
+  const spec: OpenAPISpec = {
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          summary: 'List users',
+          description: undefined,
+          responses: {
+            '200': {
+              description: 'Users',
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: userSchema },
+                },
+              },
+            },
+            '201': {
+              description: 'Created',
+              content: { 'application/json': { schema: userSchema } },
+            },
+          },
+        },
+      },
+    },
+    servers: [{ url: 'https://api.example.com' }],
+    components: {
+      securitySchemes: {
+        oauth2: { type: 'oauth2' },
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+    },
+  };
+
+  describe('serializeOpenApiSpec', () => {
+    it('should order top-level fields and component entries', () => {
+      // Act
+      const json = JSON.parse(serializeOpenApiSpec(spec));
+
+      // Assert
+      expect(Object.keys(json)).toEqual([
+        'openapi',
+        'info',
+        'servers',
+        'paths',
+        'components',
+      ]);
+      expect(Object.keys(json.components.securitySchemes)).toEqual([
+        'bearerAuth',
+        'oauth2',
+      ]);
+    });
+
+    it('should indent JSON unless prettyPrint is disabled', () => {
+      // Act
+      const pretty = serializeOpenApiSpec(spec);
+      const compact = serializeOpenApiSpec(spec, { prettyPrint: false });
+
+      // Assert
+      expect(pretty).toMatch(/^{\n  "openapi": "3\.0\.0",\n/);
+      expect(pretty.endsWith('}\n')).toBe(true);
+      expect(compact).toMatch(/^{"openapi":"3\.0\.0","info":/);
+      expect(compact.split('\n')).toHaveLength(2);
+    });
+
+    it('should emit YAML without anchors for shared objects', () => {
+      // Act
+      const yaml = serializeOpenApiSpec(spec, { format: 'yaml' });
+
+      // Assert
+      expect(yaml).toMatch(/^openapi: 3\.0\.0\ninfo:\n  title: Test API\n/);
+      expect(yaml).not.toMatch(/[&*]a\d/);
+      expect(yaml).not.toContain('description: null');
+      expect(yaml.endsWith('\n')).toBe(true);
+    });
+
+    it('should produce identical output for equal specs built in a different order', () => {
+      // Arrange
+      const reordered: OpenAPISpec = {
+        components: {
+          securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+            oauth2: { type: 'oauth2' },
+          },
+        },
+        servers: spec.servers,
+        paths: spec.paths,
+        info: spec.info,
+        openapi: '3.0.0',
+      };
+
+      // Act & Assert
+      expect(serializeOpenApiSpec(reordered)).toBe(serializeOpenApiSpec(spec));
+      expect(serializeOpenApiSpec(reordered, { format: 'yaml' })).toBe(
+        serializeOpenApiSpec(spec, { format: 'yaml' })
+      );
+    });
+  });
+
+  describe('resolveOutputFormat', () => {
+    it('should infer the format from the output extension', () => {
+      // Assert
+      expect(resolveOutputFormat({ outputPath: 'openapi.yaml' })).toBe('yaml');
+      expect(resolveOutputFormat({ outputPath: 'docs/API.YML' })).toBe('yaml');
+      expect(resolveOutputFormat({ outputPath: 'openapi.json' })).toBe('json');
+      expect(resolveOutputFormat({})).toBe('json');
+    });
+
+    it('should prefer an explicit format', () => {
+      // Assert
+      expect(
+        resolveOutputFormat({ format: 'json', outputPath: 'openapi.yaml' })
+      ).toBe('json');
+    });
+  });
+
+  describe('writeOpenApiSpec', () => {
+    let outputDir: string;
+    const config: GeneratorConfig = {
+      inputPaths: [],
+      info: { title: 'Test API', version: '1.0.0' },
+    };
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-openapi-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('should write the serialized document, creating directories', () => {
+      // Arrange
+      const outputPath = path.join(outputDir, 'docs/openapi.yml');
+
+      // Act
+      const content = writeOpenApiSpec(spec, { ...config, outputPath });
+
+      // Assert
+      expect(fs.readFileSync(outputPath, 'utf8')).toBe(content);
+      expect(content).toBe(serializeOpenApiSpec(spec, { format: 'yaml' }));
+    });
+
+    it('should throw without an output path', () => {
+      // Act & Assert
+      expect(() => writeOpenApiSpec(spec, config)).toThrow(
+        'Cannot write the OpenAPI document without an outputPath'
+      );
+    });
+  });
+});
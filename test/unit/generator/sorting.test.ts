@@ -0,0 +1,107 @@
+import {
+  compareMethods,
+  comparePaths,
+  sortPathsObject,
+} from '../../../src/generator/sorting';
+import { PathItemObject } from '../../../src/types/openapi';
+
+describe('Sorting', () => {
+  const operation = { responses: {} };
+  const paths: Record<string, PathItemObject> = {
+    '/users/{userId}': { delete: operation, get: operation },
+    '/orders': { post: operation, get: operation },
+    '/users': { post: operation, get: operation },
+    '/users-admin': { get: operation },
+  };
+
+  describe('comparePaths', () => {
+    it('should sort paths segment by segment', () => {
+      // Act
+      const sorted = Object.keys(paths).sort(comparePaths);
+
+      // Assert
+      expect(sorted).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+        '/users-admin',
+      ]);
+    });
+  });
+
+  describe('compareMethods', () => {
+    it('should follow the specification order of methods', () => {
+      // Act
+      const sorted = ['patch', 'post', 'delete', 'get', 'put'].sort(
+        compareMethods
+      );
+
+      // Assert
+      expect(sorted).toEqual(['get', 'put', 'post', 'delete', 'patch']);
+    });
+  });
+
+  describe('sortPathsObject', () => {
+    it('should keep insertion order without sorting options', () => {
+      // Act
+      const sorted = sortPathsObject(paths);
+
+      // Assert
+      expect(Object.keys(sorted)).toEqual(Object.keys(paths));
+      expect(Object.keys(sorted['/orders'])).toEqual(['post', 'get']);
+    });
+
+    it('should sort paths and operations by default', () => {
+      // Act
+      const sorted = sortPathsObject(paths, {
+        sortPaths: true,
+        sortOperations: true,
+      });
+
+      // Assert
+      expect(Object.keys(sorted)).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+        '/users-admin',
+      ]);
+      expect(Object.keys(sorted['/orders'])).toEqual(['get', 'post']);
+      expect(Object.keys(sorted['/users/{userId}'])).toEqual(['get', 'delete']);
+    });
+
+    it('should use custom comparators', () => {
+      // Act
+      const sorted = sortPathsObject(paths, {
+        sortPaths: (a, b) => b.length - a.length || comparePaths(a, b),
+        sortOperations: (a, b) => b.localeCompare(a),
+      });
+
+      // Assert
+      expect(Object.keys(sorted)).toEqual([
+        '/users/{userId}',
+        '/users-admin',
+        '/orders',
+        '/users',
+      ]);
+      expect(Object.keys(sorted['/users'])).toEqual(['post', 'get']);
+    });
+
+    it('should keep path-level fields before the operations', () => {
+      // Arrange
+      const parameters = [{ name: 'userId', in: 'path' as const }];
+
+      // Act
+      const sorted = sortPathsObject(
+        { '/users/{userId}': { put: operation, parameters, get: operation } },
+        { sortOperations: true }
+      );
+
+      // Assert
+      expect(Object.keys(sorted['/users/{userId}'])).toEqual([
+        'parameters',
+        'get',
+        'put',
+      ]);
+    });
+  });
+});
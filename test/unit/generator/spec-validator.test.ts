@@ -0,0 +1,360 @@
+import {
+  formatSpecDiagnostics,
+  validateOpenApiSpec,
+} from '../../../src/generator/spec-validator';
+import {
+  OpenAPISpec,
+  OperationObject,
+  ParameterObject,
+} from '../../../src/types/openapi';
+
+describe('Spec Validator', () => {
+  const specWith = (paths: OpenAPISpec['paths'], extra = {}): OpenAPISpec => ({
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    ...extra,
+  });
+  const schema = { type: 'string' as const };
+
+  describe('validateOpenApiSpec', () => {
+    it('should accept a valid document', () => {
+      // Arrange
+      const spec = specWith(
+        {
+          '/users/{userId}': {
+            get: {
+              operationId: 'getUser',
+              summary: undefined,
+              parameters: [
+                {
+                  name: 'userId',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                },
+              ],
+              responses: {
+                '200': {
+                  description: 'User',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/User' },
+                    },
+                  },
+                },
+                '4XX': { description: 'Client error' },
+                default: { description: 'Error' },
+              },
+            },
+          },
+        },
+        { components: { schemas: { User: { type: 'object' } } } }
+      );
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result).toEqual({ isValid: true, diagnostics: [] });
+    });
+
+    it('should report schema violations with their location', () => {
+      // Arrange
+      const spec = specWith({
+        '/users': {
+          get: {
+            responses: { '200': {} as any },
+            unknownField: true,
+          } as any,
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'schema',
+          message: 'is not allowed here',
+          pointer: '/paths/~1users/get/unknownField',
+        },
+        {
+          rule: 'schema',
+          message: "should have required property 'description'",
+          pointer: '/paths/~1users/get/responses/200',
+        },
+      ]);
+    });
+
+    it('should summarize properties missing from every alternative', () => {
+      // Arrange
+      const spec = specWith({
+        '/users': {
+          get: {
+            parameters: [{ name: 'limit', in: 'query' }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'schema',
+          message: "should have one of the properties 'schema', 'content'",
+          pointer: '/paths/~1users/get/parameters/0',
+        },
+      ]);
+    });
+
+    it('should report duplicate operation IDs', () => {
+      // Arrange
+      const spec = specWith({
+        '/users': {
+          get: {
+            operationId: 'users',
+            responses: { '200': { description: 'OK' } },
+          },
+          post: {
+            operationId: 'users',
+            responses: { '201': { description: 'OK' } },
+          },
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'operation-id',
+          message: 'operationId "users" is used by 2 operations',
+          pointer: '/paths/~1users/get/operationId',
+        },
+        {
+          rule: 'operation-id',
+          message: 'operationId "users" is used by 2 operations',
+          pointer: '/paths/~1users/post/operationId',
+        },
+      ]);
+    });
+
+    it('should report undeclared, unused and optional path parameters', () => {
+      // Arrange
+      const spec = specWith({
+        '/groups/{groupId}/users/{userId}': {
+          get: {
+            parameters: [
+              { name: 'userId', in: 'path', required: false, schema },
+              { name: 'orgId', in: 'path', required: true, schema },
+              { name: 'groupId', in: 'query', schema },
+            ],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      const pointer = '/paths/~1groups~1{groupId}~1users~1{userId}/get';
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'path-parameter',
+          message:
+            'Path parameter "groupId" of /groups/{groupId}/users/{userId} is not declared',
+          pointer,
+        },
+        {
+          rule: 'path-parameter',
+          message: 'Path parameter "userId" must be required',
+          pointer: `${pointer}/parameters/0`,
+        },
+        {
+          rule: 'path-parameter',
+          message:
+            'Path parameter "orgId" does not appear in /groups/{groupId}/users/{userId}',
+          pointer: `${pointer}/parameters/1`,
+        },
+      ]);
+    });
+
+    it('should accept path parameters declared on the path item', () => {
+      // Arrange
+      const spec = specWith({
+        '/files/{proxy+}': {
+          parameters: [{ name: 'proxy', in: 'path', required: true, schema }],
+          get: { responses: { '200': { description: 'OK' } } },
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should report unresolvable references', () => {
+      // Arrange
+      const spec = specWith(
+        {
+          '/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'Users',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Missing' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        { components: { schemas: { User: { type: 'object' } } } }
+      );
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'ref',
+          message: '$ref "#/components/schemas/Missing" does not resolve',
+          pointer:
+            '/paths/~1users/get/responses/200/content/application~1json/schema/$ref',
+        },
+      ]);
+    });
+
+    it('should report invalid response codes once', () => {
+      // Arrange
+      const spec = specWith({
+        '/users': {
+          get: { responses: { '99': { description: 'Too low' } } },
+        },
+      });
+
+      // Act
+      const result = validateOpenApiSpec(spec);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'response-code',
+          message:
+            'Invalid response code "99"; use 100-599, 1XX-5XX or default',
+          pointer: '/paths/~1users/get/responses/99',
+        },
+      ]);
+    });
+
+    it('should point diagnostics to the handler and decorator', () => {
+      // Arrange
+      const operation: OperationObject = {
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'foo' as any } },
+          { name: 'X-Tenant', in: 'header', schema: { type: 'bar' as any } },
+        ],
+        responses: { '600': { description: 'Unknown' } },
+      };
+      const spec = specWith({ '/users': { get: operation } });
+      const sources = new Map([
+        [operation, { functionName: 'listUsers', filePath: '/src/users.ts' }],
+      ]);
+
+      // Act
+      const result = validateOpenApiSpec(spec, sources);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'response-code',
+          handler: 'listUsers',
+          filePath: '/src/users.ts',
+          decorator: '@ApiResponse',
+        }),
+        expect.objectContaining({
+          rule: 'schema',
+          pointer: '/paths/~1users/get/parameters/0/schema/type',
+          handler: 'listUsers',
+          decorator: '@ApiQuery',
+        }),
+        expect.objectContaining({
+          rule: 'schema',
+          pointer: '/paths/~1users/get/parameters/1/schema/type',
+          decorator: '@ApiHeader',
+        }),
+      ]);
+    });
+
+    it('should name the decorator of a repeated parameter', () => {
+      // Arrange
+      const header: ParameterObject = {
+        name: 'X-Tenant',
+        in: 'header',
+        schema: { type: 'string' },
+      };
+      const operation: OperationObject = {
+        parameters: [header, { ...header }],
+        responses: { '200': { description: 'OK' } },
+      };
+      const spec = specWith({ '/users': { get: operation } });
+      const sources = new Map([[operation, { functionName: 'listUsers' }]]);
+
+      // Act
+      const result = validateOpenApiSpec(spec, sources);
+
+      // Assert
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'schema',
+          pointer: '/paths/~1users/get/parameters/1',
+          handler: 'listUsers',
+          decorator: '@ApiHeader',
+        }),
+      ]);
+    });
+  });
+
+  describe('formatSpecDiagnostics', () => {
+    it('should list every diagnostic with its source', () => {
+      // Act
+      const message = formatSpecDiagnostics({
+        isValid: false,
+        diagnostics: [
+          {
+            rule: 'response-code',
+            message: 'Invalid response code "600"',
+            pointer: '/paths/~1users/get/responses/600',
+            handler: 'listUsers',
+            filePath: '/src/users.ts',
+            decorator: '@ApiResponse',
+          },
+          { rule: 'schema', message: 'should be object', pointer: '' },
+        ],
+      });
+
+      // Assert
+      expect(message).toBe(
+        [
+          'Invalid OpenAPI document:',
+          '  - /paths/~1users/get/responses/600: Invalid response code "600" (@ApiResponse on handler "listUsers" in /src/users.ts) [response-code]',
+          '  - /: should be object [schema]',
+        ].join('\n')
+      );
+    });
+  });
+});
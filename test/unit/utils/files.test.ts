@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { findFiles, matchesGlob } from '../../../src/utils/files';
+
+const fixtures = path.join(__dirname, '../../fixtures');
+
+describe('File Utilities', () => {
+  describe('matchesGlob', () => {
+    it('should match single and double star patterns', () => {
+      // Assert
+      expect(matchesGlob('src/handlers/users.ts', 'src/handlers/*.ts')).toBe(
+        true
+      );
+      expect(matchesGlob('src/handlers/v1/users.ts', 'src/handlers/*.ts')).toBe(
+        false
+      );
+      expect(matchesGlob('src/handlers/v1/users.ts', 'src/**/*.ts')).toBe(true);
+      expect(matchesGlob('src/users.ts', 'src/**/*.ts')).toBe(true);
+    });
+
+    it('should match question marks and brace alternatives', () => {
+      // Assert
+      expect(matchesGlob('users.test.js', '*.{test,spec}.{ts,js}')).toBe(true);
+      expect(matchesGlob('users.ts', '*.{test,spec}.{ts,js}')).toBe(false);
+      expect(matchesGlob('v1.ts', 'v?.ts')).toBe(true);
+      expect(matchesGlob('v10.ts', 'v?.ts')).toBe(false);
+    });
+  });
+
+  describe('findFiles', () => {
+    it('should return sorted absolute paths without duplicates', () => {
+      // Act
+      const files = findFiles([
+        path.join(fixtures, 'handlers'),
+        path.join(fixtures, 'handlers/users.ts'),
+      ]);
+
+      // Assert
+      expect(files).toEqual([
+        path.join(fixtures, 'handlers/index.ts'),
+        path.join(fixtures, 'handlers/orders.ts'),
+        path.join(fixtures, 'handlers/users.ts'),
+      ]);
+    });
+
+    it('should reject paths that do not exist', () => {
+      // Act & Assert
+      expect(() => findFiles([path.join(fixtures, 'missing')])).toThrow(
+        `Input path not found: ${path.join(fixtures, 'missing')}`
+      );
+    });
+
+    it('should accept glob patterns that match no file', () => {
+      // Act
+      const files = findFiles([path.join(fixtures, 'missing/**/*.ts')]);
+
+      // Assert
+      expect(files).toEqual([]);
+    });
+  });
+});
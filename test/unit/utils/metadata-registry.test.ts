@@ -0,0 +1,211 @@
+import 'reflect-metadata';
+import * as path from 'path';
+import { MetadataRegistry } from '../../../src/utils/metadata-registry';
+import { MetadataManager } from '../../../src/utils/metadata';
+import { ApiOperation } from '../../../src/decorators/api-operation';
+import { ApiParam } from '../../../src/decorators/api-param';
+import { ApiResponse } from '../../../src/decorators/api-response';
+import { generateOpenApiSpec } from '../../../src/generator/openapi-generator';
+import { GeneratorConfig } from '../../../src/types/config';
+
+describe('MetadataRegistry', () => {
+  let registry: MetadataRegistry;
+
+  const decorate = (summary: string) => {
+    const handler = function handler() {};
+    ApiOperation({ summary })(handler);
+    ApiResponse({ status: 200, description: 'OK' })(handler);
+    return handler;
+  };
+
+  beforeEach(() => {
+    registry = new MetadataRegistry();
+  });
+
+  describe('Active Registry', () => {
+    it('should store the metadata of decorators applied while it runs', () => {
+      // Act
+      const handler = registry.run(() => decorate('Isolated'));
+
+      // Assert
+      expect(registry.getHandlers()).toEqual([handler]);
+      expect(
+        registry.run(() => MetadataManager.getOperation(handler))
+      ).toMatchObject({ summary: 'Isolated' });
+      expect(MetadataManager.getOperation(handler)).toBeUndefined();
+      expect(MetadataManager.getDecoratedHandlers()).not.toContain(handler);
+    });
+
+    it('should restore the previous registry when the function throws', () => {
+      // Act
+      const run = () =>
+        registry.run(() => {
+          throw new Error('Failed');
+        });
+
+      // Assert
+      expect(run).toThrow('Failed');
+      expect(MetadataRegistry.current()).toBe(MetadataRegistry.default);
+    });
+  });
+
+  describe('Ordering', () => {
+    it('should order decorators per registry', () => {
+      // Arrange
+      const other = new MetadataRegistry();
+      other.run(() => decorate('Other'));
+
+      // Act
+      const handler = registry.run(() => {
+        const target = function target() {};
+        ApiParam({ name: 'second' })(target);
+        ApiParam({ name: 'first' })(target);
+        return target;
+      });
+
+      // Assert
+      expect(
+        registry
+          .run(() => MetadataManager.getParams(handler))
+          .map(param => [param.name, param.order])
+      ).toEqual([
+        ['second', 0],
+        ['first', 1],
+      ]);
+    });
+
+    it('should restart ordering with resetOrder', () => {
+      // Arrange
+      registry.run(() => decorate('First'));
+
+      // Act
+      registry.resetOrder();
+
+      // Assert
+      expect(registry.nextOrder()).toBe(0);
+    });
+  });
+
+  describe('Storage', () => {
+    it('should inherit metadata through prototypes', () => {
+      // Arrange
+      class Base {}
+      class Derived extends Base {}
+      registry.define('key', 'base', Base);
+
+      // Act & Assert
+      expect(registry.get('key', Derived)).toBe('base');
+      expect(registry.getOwn('key', Derived)).toBeUndefined();
+      expect(registry.get('key', undefined)).toBeUndefined();
+    });
+
+    it('should clear the metadata of a target', () => {
+      // Arrange
+      const handler = registry.run(() => decorate('Cleared'));
+
+      // Act
+      registry.run(() => MetadataManager.clearMetadata(handler));
+
+      // Assert
+      expect(registry.getHandlers()).toEqual([]);
+      expect(registry.run(() => MetadataManager.hasMetadata(handler))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should restore a snapshot, dropping later registrations', () => {
+      // Arrange
+      const kept = registry.run(() => decorate('Kept'));
+      const snapshot = registry.snapshot();
+      const dropped = registry.run(() => {
+        ApiOperation({ summary: 'Changed' })(kept);
+        return decorate('Dropped');
+      });
+
+      // Act
+      registry.restore(snapshot);
+
+      // Assert
+      expect(registry.getHandlers()).toEqual([kept]);
+      expect(
+        registry.run(() => MetadataManager.getOperation(kept))
+      ).toMatchObject({ summary: 'Kept' });
+      expect(registry.run(() => MetadataManager.hasMetadata(dropped))).toBe(
+        false
+      );
+      expect(registry.nextOrder()).toBe(1);
+    });
+
+    it('should fork an isolated copy', () => {
+      // Arrange
+      const shared = registry.run(() => decorate('Shared'));
+
+      // Act
+      const fork = registry.fork();
+      const forked = fork.run(() => decorate('Forked'));
+
+      // Assert
+      expect(fork.getHandlers()).toEqual([shared, forked]);
+      expect(registry.getHandlers()).toEqual([shared]);
+    });
+
+    it('should reset to an empty registry', () => {
+      // Arrange
+      registry.run(() => decorate('Removed'));
+
+      // Act
+      registry.reset();
+
+      // Assert
+      expect(registry.getHandlers()).toEqual([]);
+      expect(registry.snapshot().metadata.size).toBe(0);
+      expect(registry.nextOrder()).toBe(0);
+    });
+  });
+
+  describe('Generation', () => {
+    const config: GeneratorConfig = {
+      inputPaths: [path.join(__dirname, '../../fixtures/handlers')],
+      info: { title: 'Test API', version: '1.0.0' },
+    };
+
+    it('should discover and read handlers in the given registry', () => {
+      // Act
+      const spec = generateOpenApiSpec(config, undefined, registry);
+
+      // Assert
+      expect(Object.keys(spec.paths)).toEqual([
+        '/orders',
+        '/users',
+        '/users/{userId}',
+      ]);
+      expect(registry.getHandlers()).toHaveLength(3);
+      registry
+        .getHandlers()
+        .forEach(handler =>
+          expect(MetadataManager.hasMetadata(handler)).toBe(false)
+        );
+    });
+
+    it('should keep the handlers of separate APIs apart', () => {
+      // Arrange
+      const users = registry.run(() => decorate('Users'));
+      const orders = new MetadataRegistry();
+      orders.run(() => decorate('Orders'));
+
+      // Act
+      const spec = generateOpenApiSpec(
+        config,
+        registry.getHandlers(),
+        registry
+      );
+
+      // Assert
+      expect(registry.getHandlers()).toEqual([users]);
+      expect(Object.values(spec.paths)).toHaveLength(1);
+      expect(Object.values(spec.paths)[0].get!.summary).toBe('Users');
+    });
+  });
+});
@@ -152,6 +152,58 @@ describe('MetadataManager', () => {
     });
   });
 
+  describe('Header and Cookie Metadata', () => {
+    it('should add and get header and cookie metadata', () => {
+      // Arrange
+      const header = { name: 'X-Correlation-Id', required: false, order: 0 };
+      const cookie = { name: 'session', required: true, order: 0 };
+
+      // Act
+      MetadataManager.addHeader(testTarget, header);
+      MetadataManager.addCookie(testTarget, cookie);
+
+      // Assert
+      expect(MetadataManager.getHeaders(testTarget)).toEqual([header]);
+      expect(MetadataManager.getCookies(testTarget)).toEqual([cookie]);
+      expect(MetadataManager.getHandlerMetadata(testTarget)).toMatchObject({
+        headers: [header],
+        cookies: [cookie],
+      });
+    });
+
+    it('should reject headers differing only in case', () => {
+      // Arrange
+      MetadataManager.addHeader(testTarget, {
+        name: 'Idempotency-Key',
+        order: 0,
+      });
+
+      // Act & Assert
+      expect(() =>
+        MetadataManager.addHeader(testTarget, {
+          name: 'idempotency-key',
+          order: 1,
+        })
+      ).toThrow(
+        'Duplicate @ApiHeader "idempotency-key" on handler "testFunction" (already declared as "Idempotency-Key")'
+      );
+    });
+
+    it('should treat cookie names as case-sensitive', () => {
+      // Arrange
+      MetadataManager.addCookie(testTarget, { name: 'session', order: 0 });
+
+      // Act
+      MetadataManager.addCookie(testTarget, { name: 'SESSION', order: 1 });
+
+      // Assert
+      expect(MetadataManager.getCookies(testTarget)).toHaveLength(2);
+      expect(() =>
+        MetadataManager.addCookie(testTarget, { name: 'session', order: 2 })
+      ).toThrow('Duplicate @ApiCookie "session" on handler "testFunction"');
+    });
+  });
+
   describe('Body Metadata', () => {
     it('should set and get body metadata', () => {
       // Arrange
@@ -295,8 +347,11 @@ describe('MetadataManager', () => {
       expect(metadata.responses).toEqual([]);
       expect(metadata.params).toEqual([]);
       expect(metadata.queries).toEqual([]);
+      expect(metadata.headers).toEqual([]);
+      expect(metadata.cookies).toEqual([]);
       expect(metadata.body).toBeUndefined();
       expect(metadata.security).toEqual([]);
+      expect(metadata.isPublic).toBe(false);
       expect(metadata.tags).toEqual([]);
     });
   });
@@ -358,5 +413,19 @@ describe('MetadataManager', () => {
       expect(MetadataManager.hasMetadata(testTarget)).toBe(false);
       expect(MetadataManager.getExistingMetadataKeys(testTarget)).toEqual([]);
     });
+
+    it('should track decorated handlers until their metadata is cleared', () => {
+      // Arrange
+      MetadataManager.addTag(testTarget, { name: 'users', order: 0 });
+      MetadataManager.setRoute(testTarget, { method: 'get', path: '/users' });
+
+      // Act
+      const tracked = MetadataManager.getDecoratedHandlers();
+      MetadataManager.clearMetadata(testTarget);
+
+      // Assert
+      expect(tracked.filter(target => target === testTarget)).toHaveLength(1);
+      expect(MetadataManager.getDecoratedHandlers()).not.toContain(testTarget);
+    });
   });
 });